@@ -1,23 +1,39 @@
-import { Card, Disposition, Protocol, SCARDHANDLE, ShareMode } from '../pcsc/pcsc.ts';
-import { ReaderStatus } from '../pcsc/context.ts';
+import { decodeCardStatus, Disposition, DWORD, MAX_BUFFER_SIZE, Protocol, SCARDHANDLE, ShareMode } from '../pcsc/pcsc.ts';
+import { CardStatusInfo, ReaderStatus } from '../pcsc/context.ts';
+import { BaseCard } from '../pcsc/base-card.ts';
+import { SCARD_ATR_SIZE } from '../pcsc/reader-state.ts';
+import { Attribute, AttributeCodec, AttributeValue } from '../pcsc/attributes.ts';
+import { ResponsePolicy } from '../pcsc/response-policy.ts';
+import { AbortOptions, throwIfAborted, withAbort } from '../pcsc/abort.ts';
+import { AbortError } from '../pcsc/errors.ts';
 
-import { BytesLike, CommandAPDU, ResponseAPDU, SmartCardException } from '../iso7816/iso7816.ts';
+import { ATR, BytesLike, SmartCardException } from '../iso7816/iso7816.ts';
 
 import * as native from './pcsc-ffi-wrapper.ts';
+import { CSTR } from './ffi-utils.ts';
+import { FFIContext } from './context.ts';
 import { FFIReader } from './reader.ts';
 
 /**
  * Card for Deno FFI PC/SC wrapper
  */
-export class FFICard implements Card {
+export class FFICard extends BaseCard {
   #protocol: number;
   #handle: SCARDHANDLE;
+  #atr?: ATR;
+
+  /**
+   * Handling of 61xx/6Cxx status words by `transmitAPDU`, default `ResponsePolicy.Auto`
+   */
+  responsePolicy: ResponsePolicy = ResponsePolicy.Auto;
 
   constructor(
     public readonly reader: FFIReader,
     handle: SCARDHANDLE,
     protocol: number,
   ) {
+    super();
+
     this.#handle = handle;
     this.#protocol = protocol;
   }
@@ -34,7 +50,55 @@ export class FFICard implements Card {
     return this.#handle;
   }
 
-  async transmit(command: BytesLike, expectedLen?: number): Promise<Uint8Array> {
+  /**
+   * ATR of connected card, read (once) using `SCardStatus`
+   */
+  get atr(): ATR | undefined {
+    if (!this.#atr && this.#handle) {
+      const atr = new Uint8Array(SCARD_ATR_SIZE);
+      const { atrLen } = native.SCardCardStatus(this.#handle, null, atr);
+
+      this.#atr = ATR.from(atr.subarray(0, atrLen));
+    }
+
+    return this.#atr;
+  }
+
+  /**
+   * Get current status of card - reader names, state, protocol and ATR
+   */
+  status(): Promise<CardStatusInfo> {
+    try {
+      const handle = this.#checkHandle();
+
+      const { readerNamesLen } = native.SCardCardStatus(handle, null, null);
+
+      const readerNames = CSTR.alloc(readerNamesLen);
+      const atr = new Uint8Array(SCARD_ATR_SIZE);
+
+      const { status, protocol, atrLen } = native.SCardCardStatus(handle, readerNames, atr);
+
+      return Promise.resolve({
+        readerNames: FFIContext.readerNamesToArray(readerNames.buffer).map((name) => name.toString()),
+        state: status,
+        status: decodeCardStatus(status),
+        protocol,
+        atr: atr.slice(0, atrLen),
+      });
+    } catch (e) {
+      return Promise.reject(e);
+    }
+  }
+
+  /**
+   * Transmit a command. SCardTransmit can not be cancelled, so an abort (`options.signal` or `options.timeout`)
+   * leaves the command to complete in the background, and it's response is discarded.
+   */
+  transmit(command: BytesLike, expectedLen?: number, options?: AbortOptions): Promise<Uint8Array> {
+    return withAbort(() => this.#transmit(command, expectedLen), options);
+  }
+
+  async #transmit(command: BytesLike, expectedLen?: number): Promise<Uint8Array> {
     if (!this.#handle) {
       throw new SmartCardException("SmartCard disconected");
     }
@@ -51,29 +115,72 @@ export class FFICard implements Card {
     return Promise.resolve(response);
   }
 
-  async transmitAPDU(commandAPDU: CommandAPDU): Promise<ResponseAPDU> {
-    const commandBytes = commandAPDU.toBytes({ isT0: this.#protocol == Protocol.T0 });
+  /**
+   * Send a control command (IOCTL) to the reader
+   */
+  control(ioctl: DWORD, data: BytesLike = [], expectedLen = MAX_BUFFER_SIZE, options?: AbortOptions): Promise<Uint8Array> {
+    return withAbort(() => this.#control(ioctl, data, expectedLen), options);
+  }
 
-    const response = await native.SCardTransmit(
-      this.handle,
-      commandBytes,
-      2 + (commandAPDU.le ?? 256),
-      this.#protocol,
+  async #control(ioctl: DWORD, data: BytesLike, expectedLen: number): Promise<Uint8Array> {
+    if (!this.#handle) {
+      throw new SmartCardException("SmartCard disconected");
+    }
+
+    const response = new Uint8Array(expectedLen);
+
+    const responseLen = await native.SCardControl(
+      this.#handle,
+      ioctl,
+      BytesLike.toUint8Array(data),
+      response,
     );
 
-    return ResponseAPDU.from(response);
+    return response.slice(0, responseLen);
+  }
+
+  /**
+   * Get a reader/card attribute, decoded according to attribute type
+   */
+  getAttribute(attr: Attribute): Promise<AttributeValue> {
+    try {
+      const handle = this.#checkHandle();
+
+      const attribLen = native.SCardGetAttrib(handle, attr, null);
+
+      const attrib = new Uint8Array(attribLen);
+      const len = native.SCardGetAttrib(handle, attr, attrib);
+
+      return Promise.resolve(AttributeCodec.decode(attr, attrib.subarray(0, len)));
+    } catch (e) {
+      return Promise.reject(e);
+    }
   }
 
-  reconnect(
+  setAttribute(attr: Attribute, value: AttributeValue | BytesLike): Promise<void> {
+    try {
+      native.SCardSetAttrib(this.#checkHandle(), attr, AttributeCodec.encode(attr, value));
+
+      return Promise.resolve();
+    } catch (e) {
+      return Promise.reject(e);
+    }
+  }
+
+  async reconnect(
     shareMode = ShareMode.Shared,
     preferredProtocols = Protocol.Any,
     initialization = Disposition.LeaveCard,
   ): Promise<ReaderStatus> {
-    if (!this.#handle) {
-      throw new SmartCardException("SmartCard disconected");
+    this.#checkHandle();
+
+    if (initialization != Disposition.LeaveCard) {
+      // card reset, all logical channels are closed
+      this.invalidateChannels();
     }
 
     this.#protocol = 0;
+    this.#atr = undefined;
     try {
       const { protocol } = native.SCardReconnect(
         this.#handle,
@@ -90,10 +197,52 @@ export class FFICard implements Card {
         this.#handle = 0;
     }
 
-    return this.reader.waitForChange() as Promise<ReaderStatus>;
+    return await this.reader.waitForChange() as ReaderStatus;
+  }
+
+  /**
+   * Start an exclusive transaction, blocking other applications from accessing
+   * the card until `endTransaction` is called.
+   *
+   * Waits while another application holds a transaction, unless aborted. If the transaction is
+   * granted after an abort, it is immediately ended.
+   */
+  async beginTransaction(options?: AbortOptions): Promise<void> {
+    if (!this.#handle) {
+      throw new SmartCardException("SmartCard disconected");
+    }
+
+    throwIfAborted(options?.signal);
+
+    const handle = this.#handle;
+    const pending = native.SCardBeginTransaction(handle);
+
+    try {
+      await withAbort(() => pending, options);
+    } catch (e) {
+      if (e instanceof AbortError) {
+        pending
+          .then(() => native.SCardEndTransaction(handle, Disposition.LeaveCard))
+          .catch(() => {
+            // transaction not granted, or card disconnected
+          });
+      }
+
+      throw e;
+    }
+  }
+
+  endTransaction(disposition = Disposition.LeaveCard): Promise<void> {
+    try {
+      native.SCardEndTransaction(this.#checkHandle(), disposition);
+
+      return Promise.resolve();
+    } catch (e) {
+      return Promise.reject(e);
+    }
   }
 
-  disconnect(disposition = Disposition.LeaveCard): Promise<ReaderStatus> {
+  protected async release(disposition: Disposition): Promise<ReaderStatus> {
     if (this.#handle) {
       try {
         //
@@ -104,9 +253,18 @@ export class FFICard implements Card {
       } finally {
         this.#protocol = 0;
         this.#handle = 0;
+        this.#atr = undefined;
       }
     }
 
-    return this.reader.waitForChange() as Promise<ReaderStatus>;
+    return await this.reader.waitForChange() as ReaderStatus;
+  }
+
+  #checkHandle(): SCARDHANDLE {
+    if (!this.#handle) {
+      throw new SmartCardException("SmartCard disconected");
+    }
+
+    return this.#handle;
   }
 }
@@ -1,5 +1,6 @@
-import { Context, Reader, Protocol, SCARDCONTEXT, ShareMode, StateFlag, Scope } from '../pcsc/pcsc.ts';
-import { ReaderStatusChangeHandler } from '../pcsc/context.ts';
+import { Reader, Protocol, SCARDCONTEXT, ShareMode, StateFlag, Scope } from '../pcsc/pcsc.ts';
+import { PCSCException, SCARD_E_NO_READERS_AVAILABLE } from '../pcsc/errors.ts';
+import { BaseContext } from '../pcsc/base-context.ts';
 
 import { SmartCardException } from '../iso7816/iso7816.ts';
 
@@ -11,23 +12,46 @@ import { SCardIsValidContext } from "./pcsc-ffi-wrapper.ts";
 //import { CURRENT_STATE_OFFSET, SCARDREADERSTATE } from "../pcsc/reader-state.ts";
 
 /**
- * Context for Deno FFI PC/SC wrapper
+ * PnP pseudo-reader, signals a change when readers are plugged or unplugged
  */
-export class FFIContext implements Context {
-  #context?: SCARDCONTEXT;
+class FFI_PNP_SCARDREADERSTATE extends FFI_SCARDREADERSTATE {
+  constructor() {
+    super(CSTR.from("\\\\?PnP?\\Notification"), null);
+  }
+
+  protected override initBuffer() {
+    this.buffer.fill(0);
 
-  #readers: Map<string, FFIReader>;
+    const data = new DataView(this.buffer.buffer);
+
+    data.setBigUint64(
+      0,
+      BigInt(Deno.UnsafePointer.of(this.name.buffer).valueOf()),
+      true,
+    );
+  }
+}
 
-  #onStatusChange?: ReaderStatusChangeHandler;
+/**
+ * Context for Deno FFI PC/SC wrapper
+ */
+export class FFIContext extends BaseContext<FFIReader> {
+  #context?: SCARDCONTEXT;
 
-  #updating = false;
+  // status changes are awaited on their own context: pcsc-lite holds a context's lock for the whole
+  // of SCardGetStatusChange, which would block SCardConnect, SCardControl etc. until the next event
+  #waitContext?: SCARDCONTEXT;
 
-  //#readerPromise?: Promise<void> = undefined;
+  // persistent, so that PC/SC can compare reader count with that of previous call
+  #pnpReaderState = new FFI_PNP_SCARDREADERSTATE();
 
-  async #waitForChange(readers: Reader[], timeout: number, includePNP = false): Promise<{ changed: FFIReader[], mustRescan: boolean }> {
+  /**
+   * Wait for a change on `readers`, including the PnP pseudo-reader if `includePNP`
+   */
+  protected async getStatusChange(readers: Reader[], timeout: number, includePNP: boolean): Promise<{ changed: FFIReader[], mustRescan: boolean }> {
     let mustRescan = false;
 
-    if (!FFIContext.isValidContext(this.#context) || !FFIReader.isValidReaders(readers)) {
+    if (!FFIContext.isValidContext(this.#waitContext) || !FFIReader.isValidReaders(readers)) {
       return { changed: [], mustRescan: false };
     }
 
@@ -35,40 +59,22 @@ export class FFIContext implements Context {
       (reader) => reader.readerState,
     );
 
-    if (includePNP = false) {
-      const pnpReaderState = new class extends FFI_SCARDREADERSTATE {
-        constructor() {
-          super( CSTR.from("\\\\?PnP?\\Notification"), null );
-        }
-
-        initBuffer() {
-          this.buffer.fill(0);
-
-          const data = new DataView(this.buffer.buffer);
-      
-          data.setBigUint64(
-            0,
-            BigInt(Deno.UnsafePointer.of(this.name.buffer).valueOf()),
-            true,
-          );
-        }
-      }();
-
-      states.unshift(pnpReaderState);
+    if (includePNP) {
+      states.unshift(this.#pnpReaderState);
     }
 
-    const changed = await native.SCardGetStatusChange(this.#context, timeout, states);
+    const changed = await native.SCardGetStatusChange(this.#waitContext, timeout, states);
+
+    const offset = includePNP ? 1 : 0;
 
     if (includePNP && changed.includes(0)) {
       mustRescan = true;
-
-      changed.shift();
     }
 
     // return all Readers[] that signal state-change
     return {
       changed: changed.flatMap(
-        chg => (readers[chg].readerState.eventState & StateFlag.Changed) ? readers[chg] : []
+        (chg) => (chg >= offset && (readers[chg - offset].readerState.eventState & StateFlag.Changed)) ? readers[chg - offset] : []
       ),
 
       mustRescan
@@ -96,29 +102,31 @@ export class FFIContext implements Context {
     );
   }
 
-  #listReaders() {
-    if (!this.#updating && FFIContext.isValidContext(this.#context)) {
+  #listReaderNames(): CSTR[] {
+    try {
       const readerNamesString = CSTR.alloc(
-        native.SCardListReaders(this.#context, null, null),
+        native.SCardListReaders(this.#context!, null, null),
       );
 
-      native.SCardListReaders(this.#context, null, readerNamesString);
+      native.SCardListReaders(this.#context!, null, readerNamesString);
 
       // got a multi-string - a double-null terminated list of null-terminated strings
       // parse and map to array of CSTR
-      const readerNames = FFIContext.readerNamesToArray(readerNamesString.buffer);
-
-      this.#updating = true;
-      try {
-        this.#updateReaderList(readerNames);
-      } finally {
-        this.#updating = false;
+      return FFIContext.readerNamesToArray(readerNamesString.buffer);
+    } catch (e) {
+      // last reader unplugged
+      if (!(e instanceof PCSCException && e.rc == SCARD_E_NO_READERS_AVAILABLE)) {
+        throw e;
       }
+
+      return [];
     }
   }
 
-  #updateReaderList(readerNames: CSTR[]) {
-    const actualNames = Array.from(this.#readers.keys());
+  protected updateReaderList() {
+    const readerNames = this.#listReaderNames();
+
+    const actualNames = Array.from(this.readers.keys());
 
     const names = readerNames.map((r) => r.toString());
 
@@ -127,14 +135,14 @@ export class FFIContext implements Context {
     actualNames
       .filter((n) => !names.includes(n))
       .forEach(name => {
-        const reader = this.#readers.get(name);
+        const reader = this.readers.get(name);
 
         if (reader) {
           reader.shutdown();
 
-          this.#readers.delete(name);
+          this.readers.delete(name);
 
-          this.#notifyListeners(reader);
+          this.readerStatusChanged(reader);
         }
       });
 
@@ -144,7 +152,7 @@ export class FFIContext implements Context {
       .map(name => {
         const reader = new FFIReader(this, name);
 
-        this.#readers.set(name.toString(), reader);
+        this.readers.set(name.toString(), reader);
 
         return reader;
       });
@@ -152,84 +160,33 @@ export class FFIContext implements Context {
     // get initial status
     this.#getReaderStatus(addedReaders);
 
+    // monitor must wait on new list of readers
+    if (addedReaders.length > 0 || actualNames.length != this.readers.size) {
+      this.interruptMonitor();
+    }
+
     // and notify ...
     for (const reader of addedReaders) {
-      this.#notifyListeners(reader);
+      this.readerStatusChanged(reader);
     }
   }
 
-  #releaseContext() {
-    if (FFIContext.isValidContext(this.#context)) {
-      native.SCardReleaseContext(this.#context);
+  protected releaseContext() {
+    for (const context of [this.#waitContext, this.#context]) {
+      if (FFIContext.isValidContext(context)) {
+        native.SCardReleaseContext(context);
+      }
     }
 
+    this.#waitContext = undefined;
     this.#context = undefined;
   }
 
-  #notifyListeners(reader: FFIReader) {
-    this.#onStatusChange?.(reader, reader.status);
-  }
+  protected constructor(context: SCARDCONTEXT, waitContext: SCARDCONTEXT) {
+    super();
 
-  protected constructor(context: SCARDCONTEXT) {
     this.#context = context;
-    this.#readers = new Map();
-  }
-
-  listReaders(rescan = false): FFIReader[] {
-    if (rescan || this.#readers.size == 0) {
-      this.#listReaders();
-    }
-
-    return Array.from(this.#readers.values());
-  }
-
-  async waitForChange(
-    readers?: Reader[],
-    timeout = 0,
-    rescan = true,
-  ): Promise<FFIReader[]> {
-    readers = readers ?? this.listReaders();
-
-    const { changed, mustRescan: newReader } = await this.#waitForChange(readers, timeout, rescan);
-
-    if (newReader) {
-      this.#listReaders();
-    }
-
-    return changed;
-  }
-
-  get onStatusChange() {
-    return this.#onStatusChange;
-  }
-
-  set onStatusChange(
-    handler: ReaderStatusChangeHandler | undefined,
-  ) {
-    this.#onStatusChange = handler;
-
-    // if (handler !== undefined) {
-    //   this.#setupReaderPromise();
-    // }
-  }
-
-  shutdown(): Promise<void> {
-    this.#readers.forEach((reader) => {
-      reader.shutdown();
-    });
-
-    this.#readers = new Map();
-    this.#onStatusChange = undefined;
-
-    try {
-      this.cancel();
-
-      this.#releaseContext();
-    } catch (_) {
-      // fail silently .. we're shutting down
-    }
-
-    return Promise.resolve();
+    this.#waitContext = waitContext;
   }
 
   // FFI-specific methods
@@ -260,15 +217,24 @@ export class FFIContext implements Context {
   static establishContext(scope: Scope = Scope.System): FFIContext {
     const context: SCARDCONTEXT = native.SCardEstablishContext(scope);
 
-    return new FFIContext(context);
+    try {
+      return new FFIContext(context, native.SCardEstablishContext(scope));
+    } catch (e) {
+      native.SCardReleaseContext(context);
+
+      throw e;
+    }
   }
 
   static isValidContext(context?: SCARDCONTEXT): context is SCARDCONTEXT {
     return (context !== undefined) && SCardIsValidContext(context);
   }
+  /**
+   * Cancel all pending waits for status change (`SCardCancel`)
+   */
   cancel() {
-    if (FFIContext.isValidContext(this.#context)) {
-      native.SCardCancel(this.#context);
+    if (FFIContext.isValidContext(this.#waitContext)) {
+      native.SCardCancel(this.#waitContext);
     }
   }
 
@@ -294,40 +260,5 @@ export class FFIContext implements Context {
 
   }
 
-
-  // #setupReaderPromise() {
-  //   if (
-  //     this.#readerPromise === undefined && Context.isValidContext(this.#context)
-  //   ) {
-  //     const readers = [
-  //       new Reader(this, "\\?PnP?\Notification"),
-  //       ...Array.from(this.#readers.values()),
-  //     ];
-
-  //     /*      this.#readerPromise = native.SCardGetStatusChange(
-  //       this.#context,
-  //       INFINITE,
-  //       [
-  //         r.readerState,
-  //       ],
-  //     )*/
-  //     this.#readerPromise = this.#waitForChange(readers, INFINITE)
-  //       .then(async (_res) => {
-  //         this.#readerPromise = undefined;
-
-  //         if (/*res == 0 && */ Context.isValidContext(this.#context)) {
-  //           await this.#updateReaders();
-  //         }
-  //       }).finally(async () => {
-  //         // rerun async
-  //         if (
-  //           Context.isValidContext(this.#context) &&
-  //           this.#onStatusChange !== undefined
-  //         ) {
-  //           await this.#setupReaderPromise();
-  //         }
-  //       });
-  //   }
-  // }
 }
 
@@ -27,123 +27,141 @@ const libPath = {
 const FFI_PCSC_HANDLE = (PLATFORM.isWin) ? "pointer" : "usize";
 const FFI_PCSC_HANDLE_SIZE = (PLATFORM.isWin) ? PLATFORM.POINTER_SIZE : PLATFORM.DWORD_SIZE;
 
-const libPCSC = Deno.dlopen(
-  libPath[Deno.build.os],
-  {
-    SCardEstablishContext: {
-      parameters: ["u32", "usize", "usize", "buffer"],
-      result: "u32",
-    },
-    SCardListReaders: {
-      parameters: [FFI_PCSC_HANDLE, "buffer", "buffer", "buffer"],
-      result: "u32",
-      name: `SCardListReaders${PLATFORM.isWin ? "A" : ""}`,
-    },
-    SCardIsValidContext: {
-      parameters: [FFI_PCSC_HANDLE],
-      result: "u32",
-    },
-    "SCardCancel": {
-      parameters: [FFI_PCSC_HANDLE],
-      result: "u32",
-    },
-    "SCardReleaseContext": {
-      parameters: [FFI_PCSC_HANDLE],
-      result: "u32",
-    },
-    SCardGetStatusChange: {
-      parameters: [FFI_PCSC_HANDLE, "u32", "buffer", "u32"],
-      nonblocking: true,
-      result: "u32",
-      name: `SCardGetStatusChange${PLATFORM.isWin ? "A" : ""}`,
-    },
-    SCardGetStatusChangeSync: {
-      parameters: [FFI_PCSC_HANDLE, "u32", "buffer", "u32"],
-      result: "u32",
-      name: `SCardGetStatusChange${PLATFORM.isWin ? "A" : ""}`,
-    },
-    SCardConnect: {
-      parameters: [FFI_PCSC_HANDLE, "buffer", "u32", "u32", "buffer", "buffer"],
-      result: "u32",
-      name: `SCardConnect${PLATFORM.isWin ? "A" : ""}`,
-    },
-    "SCardReconnect": {
-      parameters: [FFI_PCSC_HANDLE, "u32", "u32", "u32", "buffer"],
-      result: "u32",
-    },
-    "SCardDisconnect": {
-      parameters: [FFI_PCSC_HANDLE, "u32"],
-      result: "u32",
-    },
-    "SCardBeginTransaction": {
-      parameters: [FFI_PCSC_HANDLE, "u32"],
-      result: "u32",
-    },
-    "SCardEndTransaction": {
-      parameters: [FFI_PCSC_HANDLE, "u32"],
-      result: "u32",
-    },
-    "SCardTransmit": {
-      parameters: [
-        FFI_PCSC_HANDLE,
-        "buffer",
-        "buffer",
-        "u32",
-        "buffer",
-        "buffer",
-        "buffer",
-      ],
-      nonblocking: true,
-      result: "u32",
-    },
-    "SCardTransmitSync": {
-      parameters: [
-        FFI_PCSC_HANDLE,
-        "buffer",
-        "buffer",
-        "u32",
-        "buffer",
-        "buffer",
-        "buffer",
-      ],
-      result: "u32",
-      name: `SCardTransmit`,
-    },
-    SCardStatus: {
-      parameters: [
-        FFI_PCSC_HANDLE,
-        "buffer",
-        "buffer",
-        "buffer",
-        "buffer",
-        "buffer",
-        "buffer",
-      ],
-      result: "u32",
-      name: `SCardStatus${PLATFORM.isWin ? "A" : ""}`,
-    },
-    SCardControl: {
-      parameters: [
-        FFI_PCSC_HANDLE,
-        "u32",
-        "buffer",
-        "u32",
-        "buffer",
-        "u32",
-        "buffer",
-      ],
-      result: "u32",
-    },
-    SCardGetAttrib: {
-      parameters: [FFI_PCSC_HANDLE, "u32", "buffer", "buffer"],
-      result: "u32",
-    },
-    SCardSetAttrib: {
-      parameters: [FFI_PCSC_HANDLE, "u32", "buffer", "u32"],
-      result: "u32",
-    },
+function openLibrary() {
+  return Deno.dlopen(
+    libPath[Deno.build.os],
+    {
+      SCardEstablishContext: {
+        parameters: ["u32", "usize", "usize", "buffer"],
+        result: "u32",
+      },
+      SCardListReaders: {
+        parameters: [FFI_PCSC_HANDLE, "buffer", "buffer", "buffer"],
+        result: "u32",
+        name: `SCardListReaders${PLATFORM.isWin ? "A" : ""}`,
+      },
+      SCardIsValidContext: {
+        parameters: [FFI_PCSC_HANDLE],
+        result: "u32",
+      },
+      "SCardCancel": {
+        parameters: [FFI_PCSC_HANDLE],
+        result: "u32",
+      },
+      "SCardReleaseContext": {
+        parameters: [FFI_PCSC_HANDLE],
+        result: "u32",
+      },
+      SCardGetStatusChange: {
+        parameters: [FFI_PCSC_HANDLE, "u32", "buffer", "u32"],
+        nonblocking: true,
+        result: "u32",
+        name: `SCardGetStatusChange${PLATFORM.isWin ? "A" : ""}`,
+      },
+      SCardGetStatusChangeSync: {
+        parameters: [FFI_PCSC_HANDLE, "u32", "buffer", "u32"],
+        result: "u32",
+        name: `SCardGetStatusChange${PLATFORM.isWin ? "A" : ""}`,
+      },
+      SCardConnect: {
+        parameters: [FFI_PCSC_HANDLE, "buffer", "u32", "u32", "buffer", "buffer"],
+        result: "u32",
+        name: `SCardConnect${PLATFORM.isWin ? "A" : ""}`,
+      },
+      "SCardReconnect": {
+        parameters: [FFI_PCSC_HANDLE, "u32", "u32", "u32", "buffer"],
+        result: "u32",
+      },
+      "SCardDisconnect": {
+        parameters: [FFI_PCSC_HANDLE, "u32"],
+        result: "u32",
+      },
+      "SCardBeginTransaction": {
+        parameters: [FFI_PCSC_HANDLE],
+        nonblocking: true,
+        result: "u32",
+      },
+      "SCardEndTransaction": {
+        parameters: [FFI_PCSC_HANDLE, "u32"],
+        result: "u32",
+      },
+      "SCardTransmit": {
+        parameters: [
+          FFI_PCSC_HANDLE,
+          "buffer",
+          "buffer",
+          "u32",
+          "buffer",
+          "buffer",
+          "buffer",
+        ],
+        nonblocking: true,
+        result: "u32",
+      },
+      "SCardTransmitSync": {
+        parameters: [
+          FFI_PCSC_HANDLE,
+          "buffer",
+          "buffer",
+          "u32",
+          "buffer",
+          "buffer",
+          "buffer",
+        ],
+        result: "u32",
+        name: `SCardTransmit`,
+      },
+      SCardStatus: {
+        parameters: [
+          FFI_PCSC_HANDLE,
+          "buffer",
+          "buffer",
+          "buffer",
+          "buffer",
+          "buffer",
+          "buffer",
+        ],
+        result: "u32",
+        name: `SCardStatus${PLATFORM.isWin ? "A" : ""}`,
+      },
+      SCardControl: {
+        parameters: [
+          FFI_PCSC_HANDLE,
+          "u32",
+          "buffer",
+          "u32",
+          "buffer",
+          "u32",
+          "buffer",
+        ],
+        nonblocking: true,
+        result: "u32",
+      },
+      SCardGetAttrib: {
+        parameters: [FFI_PCSC_HANDLE, "u32", "buffer", "buffer"],
+        result: "u32",
+      },
+      SCardSetAttrib: {
+        parameters: [FFI_PCSC_HANDLE, "u32", "buffer", "u32"],
+        result: "u32",
+      },
+    }
+  );
+}
+
+let libPCSC: ReturnType<typeof openLibrary> | undefined;
+
+/**
+ * PC/SC library symbols. The library is opened on first use, so that importing this module
+ * (eg. through `mod.ts`) does not require PC/SC to be installed.
+ */
+function pcsc() {
+  if (!libPCSC) {
+    libPCSC = openLibrary();
   }
-);
+
+  return libPCSC.symbols;
+}
 
 function ensureSCardSuccess(rc: number, func: string) {
   if (typeof rc == "number") {
@@ -190,7 +208,7 @@ export function SCardEstablishContext(scope: DWORD): SCARDCONTEXT {
   const context = new Uint8Array(FFI_PCSC_HANDLE_SIZE);
 
   ensureSCardSuccess(
-    libPCSC.symbols.SCardEstablishContext(scope, 0, 0, context),
+    pcsc().SCardEstablishContext(scope, 0, 0, context),
     "SCardEstablishContext",
   );
 
@@ -198,21 +216,21 @@ export function SCardEstablishContext(scope: DWORD): SCARDCONTEXT {
 }
 
 export function SCardIsValidContext(hContext: SCARDCONTEXT): boolean {
-  const ret = libPCSC.symbols.SCardIsValidContext(hContext);
+  const ret = pcsc().SCardIsValidContext(hContext);
 
   return (ret == 0);
 }
 
 export function SCardCancel(hContext: SCARDCONTEXT) {
   ensureSCardSuccess(
-    libPCSC.symbols.SCardCancel(hContext),
+    pcsc().SCardCancel(hContext),
     "SCardCancel",
   );
 }
 
 export function SCardReleaseContext(hContext: SCARDCONTEXT) {
   ensureSCardSuccess(
-    libPCSC.symbols.SCardReleaseContext(hContext),
+    pcsc().SCardReleaseContext(hContext),
     "SCardReleaseContext",
   );
 }
@@ -227,7 +245,7 @@ export function SCardListReaders(
   const readerNames = mszReaders?.buffer ?? null;
 
   ensureSCardSuccess(
-    libPCSC.symbols.SCardListReaders(
+    pcsc().SCardListReaders(
       hContext,
       mszGroups?.buffer ?? null,
       readerNames,
@@ -250,7 +268,7 @@ export function SCardConnect(
 
   ensureSCardSuccess(
     //    pcsc.symbols.SCardConnectA(
-    libPCSC.symbols.SCardConnect(
+    pcsc().SCardConnect(
       hContext,
       readerName.buffer,
       shareMode,
@@ -276,7 +294,7 @@ export function SCardReconnect(
   const protocol = new DWORDBuffer();
 
   ensureSCardSuccess(
-    libPCSC.symbols.SCardReconnect(
+    pcsc().SCardReconnect(
       hCard,
       shareMode,
       preferredProtocols,
@@ -296,7 +314,7 @@ export function SCardDisconnect(
   disposition: Disposition,
 ): void {
   ensureSCardSuccess(
-    libPCSC.symbols.SCardDisconnect(
+    pcsc().SCardDisconnect(
       hCard,
       disposition,
     ),
@@ -334,7 +352,7 @@ export async function SCardTransmit(
   const { pioSendPci, pioRecvPci, recvBuffer, recvLengthBuffer } = prepareTransmit(recvLength, activeProtocol);
 
   ensureSCardSuccess(
-    await libPCSC.symbols.SCardTransmit(
+    await pcsc().SCardTransmit(
       hCard,
       pioSendPci,
       sendBuffer,
@@ -360,7 +378,7 @@ export function SCardTransmitSync(
   const { pioSendPci, pioRecvPci, recvBuffer, recvLengthBuffer } = prepareTransmit(recvLength, activeProtocol);
 
   ensureSCardSuccess(
-    libPCSC.symbols.SCardTransmitSync(
+    pcsc().SCardTransmitSync(
       hCard,
       pioSendPci,
       sendBuffer,
@@ -377,9 +395,9 @@ export function SCardTransmitSync(
   return recvBuffer.slice(0, recvLength);
 }
 
-export function SCardBeginTransaction(hCard: SCARDHANDLE) {
+export async function SCardBeginTransaction(hCard: SCARDHANDLE): Promise<void> {
   ensureSCardSuccess(
-    libPCSC.symbols.SCardBeginTransaction(hCard),
+    await pcsc().SCardBeginTransaction(hCard),
     "SCardBeginTransaction",
   );
 }
@@ -389,7 +407,7 @@ export function SCardEndTransaction(
   disposition: Disposition,
 ) {
   ensureSCardSuccess(
-    libPCSC.symbols.SCardEndTransaction(hCard, disposition),
+    pcsc().SCardEndTransaction(hCard, disposition),
     "SCardEndTransaction",
   );
 }
@@ -410,7 +428,7 @@ export function SCardCardStatus(
   const atrLen = new DWORDBuffer(rgbAtr?.length)
 
   ensureSCardSuccess(
-    libPCSC.symbols.SCardStatus(
+    pcsc().SCardStatus(
       hCard,
       mszReaderNames?.buffer ?? null,
       readerNamesLen,
@@ -439,7 +457,7 @@ export async function SCardGetStatusChange(
 
   //console.log("I", HEX.toString(stateBuffer));
 
-  const res = (await libPCSC.symbols.SCardGetStatusChange(
+  const res = (await pcsc().SCardGetStatusChange(
     hContext,
     timeout,
     stateBuffer,
@@ -465,7 +483,7 @@ export function SCardGetStatusChangeSync(
 ): number[] {
   const stateBuffer = SCARDREADERSTATE.buildStateBuffer(states);
 
-  const res = libPCSC.symbols.SCardGetStatusChangeSync(
+  const res = pcsc().SCardGetStatusChangeSync(
     hContext,
     timeout,
     stateBuffer,
@@ -484,16 +502,16 @@ export function SCardGetStatusChangeSync(
   return SCARDREADERSTATE.unpackStateChangeBuffer<FFI_SCARDREADERSTATE>(states, stateBuffer);
 }
 
-export function SCardControl(
+export async function SCardControl(
   hCard: SCARDHANDLE,
   ioctl: DWORD,
   dataIn: Uint8Array,
   dataOut: Uint8Array,
-): DWORD {
+): Promise<DWORD> {
   const outLen = new DWORDBuffer(dataOut.length);
 
   ensureSCardSuccess(
-    libPCSC.symbols.SCardControl(
+    await pcsc().SCardControl(
       hCard,
       ioctl,
       dataIn,
@@ -516,7 +534,7 @@ export function SCardGetAttrib(
   const bufLen = new DWORDBuffer(attrib?.length);
 
   ensureSCardSuccess(
-    libPCSC.symbols.SCardGetAttrib(hCard, attrID, attrib, attrib, bufLen),
+    pcsc().SCardGetAttrib(hCard, attrID, attrib, bufLen),
     "SCardGetAttrib",
   );
 
@@ -529,7 +547,7 @@ export function SCardSetAttrib(
   attrib: Uint8Array,
 ) {
   ensureSCardSuccess(
-    libPCSC.symbols.SCardSetAttrib(hCard, attrID, attrib, attrib.length),
-    "SetAttrib",
+    pcsc().SCardSetAttrib(hCard, attrID, attrib, attrib.length),
+    "SCardSetAttrib",
   );
 }
@@ -1,8 +1,13 @@
 import { PLATFORM } from './../pcsc/platform.ts';
-import { Reader, Protocol, DWORD, ShareMode, Disposition, StateFlag, SCARDREADERSTATE, StateFlags } from '../pcsc/pcsc.ts';
+import { Reader, Protocol, DWORD, ShareMode, Disposition, StateFlag, SCARDREADERSTATE, StateFlags, MAX_BUFFER_SIZE } from '../pcsc/pcsc.ts';
 import { ReaderStatus, ReaderStatusChangeHandler } from '../pcsc/context.ts';
 import { ATR_OFFSET, SCARD_ATR_SIZE } from '../pcsc/reader-state.ts';
+import { StatusChangeHandlers } from '../pcsc/context-events.ts';
+import { AbortOptions, throwIfAborted, withAbort } from '../pcsc/abort.ts';
 
+import { ATR, BytesLike } from '../iso7816/iso7816.ts';
+
+import * as native from './pcsc-ffi-wrapper.ts';
 import { CSTR } from './ffi-utils.ts';
 
 import { FFIContext } from './context.ts';
@@ -36,6 +41,7 @@ export interface ConnectionHandler {
 export class FFIReader implements Reader {
   #readerState: FFI_SCARDREADERSTATE;
   #status: ReaderStatus;
+  #handlers = new StatusChangeHandlers();
 
   #updateState(): void {
     //const current = this.#state.currentState;
@@ -67,14 +73,16 @@ export class FFIReader implements Reader {
     }
 
     if (status != this.#status) {
-      this.#notifyListeners();
+      try {
+        this.context.readerStatusChanged(this);
+      } finally {
+        this.#notifyListeners();
+      }
     }
   }
 
   #notifyListeners() {
-    if (this.onStatusChange !== undefined) {
-      this.onStatusChange(this, this.status);
-    }
+    this.#handlers.notify(this, this.status);
   }
 
   constructor(
@@ -96,7 +104,31 @@ export class FFIReader implements Reader {
     this.#status = "shutdown";
   }
 
-  onStatusChange?: ReaderStatusChangeHandler;
+  get onStatusChange() {
+    return this.#handlers.primary;
+  }
+
+  set onStatusChange(handler: ReaderStatusChangeHandler | undefined) {
+    this.#handlers.primary = handler;
+
+    this.context.refreshMonitor();
+  }
+
+  addStatusChangeHandler(handler: ReaderStatusChangeHandler): () => void {
+    const remove = this.#handlers.add(handler);
+
+    this.context.refreshMonitor();
+
+    return () => {
+      remove();
+
+      this.context.refreshMonitor();
+    };
+  }
+
+  get hasStatusChangeHandlers(): boolean {
+    return this.#handlers.size > 0;
+  }
 
   get name() {
     return this.#readerState.name.toString();
@@ -106,9 +138,9 @@ export class FFIReader implements Reader {
     return this.#status;
   }
 
-  async waitForChange(timeout: DWORD = 0): Promise<ReaderStatus | "no-change"> {
+  async waitForChange(timeout: DWORD = 0, options?: AbortOptions): Promise<ReaderStatus | "no-change"> {
     // Wait for a change on this reader ONLY.
-    const changed = await this.context.waitForChange([this], timeout, false);
+    const changed = await this.context.waitForChange([this], timeout, false, options);
 
     return (changed.length == 1) ? this.status : "no-change";
   }
@@ -117,6 +149,18 @@ export class FFIReader implements Reader {
     return this.#readerState.currentState;
   }
 
+  get atr(): ATR | undefined {
+    const atr = this.#readerState.atr;
+
+    return (this.isPresent && atr.length > 0) ? ATR.from(atr) : undefined;
+  }
+
+  get cardDescriptions(): string[] {
+    const atr = this.atr;
+
+    return (atr !== undefined) ? this.context.cardIdentifier.identify(atr) : [];
+  }
+
   get isPresent(): boolean {
     return (this.#readerState.currentState & StateFlag.Present) != 0;
   }
@@ -133,18 +177,57 @@ export class FFIReader implements Reader {
   connect(
     shareMode = ShareMode.Shared,
     supportedProtocols = Protocol.Any,
+    options?: AbortOptions,
   ): Promise<FFICard> {
-    const { handle, protocol } = this.context.connect(
+    try {
+      // SCardConnect does not block, so only an already aborted signal applies
+      throwIfAborted(options?.signal);
+
+      const { handle, protocol } = this.context.connect(
+        this.#readerState.name,
+        shareMode,
+        supportedProtocols,
+      );
+
+      this.#status = "connected";
+
+      return Promise.resolve(new FFICard(this, handle, protocol));
+    } catch (e) {
+      return Promise.reject(e);
+    }
+  }
+
+  /**
+   * Send a control command (IOCTL) to the reader, using a DIRECT connection.
+   * Does not require a card to be present. SCardControl can not be cancelled, so an abort
+   * leaves the command to complete in the background.
+   */
+  control(ioctl: DWORD, data: BytesLike = [], expectedLen = MAX_BUFFER_SIZE, options?: AbortOptions): Promise<Uint8Array> {
+    return withAbort(() => this.#control(ioctl, data, expectedLen), options);
+  }
+
+  async #control(ioctl: DWORD, data: BytesLike, expectedLen: number): Promise<Uint8Array> {
+    const { handle } = this.context.connect(
       this.#readerState.name,
-      shareMode,
-      supportedProtocols,
+      ShareMode.Direct,
+      Protocol.Undefined,
     );
 
-    this.#status = "connected";
+    try {
+      const response = new Uint8Array(expectedLen);
 
-    const card = new FFICard(this, handle, protocol);
+      const responseLen = await native.SCardControl(
+        handle,
+        ioctl,
+        BytesLike.toUint8Array(data),
+        response,
+      );
 
-    return Promise.resolve(card);
+      return response.slice(0, responseLen);
+    }
+    finally {
+      native.SCardDisconnect(handle, Disposition.LeaveCard);
+    }
   }
 
   get readerState(): FFI_SCARDREADERSTATE {
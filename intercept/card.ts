@@ -0,0 +1,132 @@
+import { Card, Disposition, DWORD, Protocol, ShareMode } from '../pcsc/pcsc.ts';
+import { CardStatusInfo, ReaderStatus, TransmitOptions } from '../pcsc/context.ts';
+import { BaseCard } from '../pcsc/base-card.ts';
+import { Attribute, AttributeValue } from '../pcsc/attributes.ts';
+import { ResponsePolicy } from '../pcsc/response-policy.ts';
+import { AbortOptions } from '../pcsc/abort.ts';
+
+import { ATR, BytesLike, CommandAPDU, ResponseAPDU } from '../iso7816/iso7816.ts';
+
+import { InterceptedReader } from './reader.ts';
+import { intercept, Interceptor } from './interceptor.ts';
+
+/**
+ * A `Card` of an `InterceptedContext`, with intercepted `transmit`, `transmitAPDU`, `control`,
+ * `reconnect` and `disconnect`.
+ *
+ * Chained commands and logical channels are handled here, so that each command is intercepted
+ * as sent to the decorated card.
+ */
+export class InterceptedCard extends BaseCard {
+  constructor(
+    public readonly reader: InterceptedReader,
+    public readonly card: Card,
+    /** Identifies this connection, within its `InterceptedContext` */
+    public readonly id: number,
+  ) {
+    super();
+  }
+
+  get #interceptors(): Interceptor[] {
+    return this.reader.context.interceptors;
+  }
+
+  get isConnected(): boolean {
+    return this.card.isConnected;
+  }
+
+  get protocol() {
+    return this.card.protocol;
+  }
+
+  get atr(): ATR | undefined {
+    return this.card.atr;
+  }
+
+  get responsePolicy(): ResponsePolicy {
+    return this.card.responsePolicy;
+  }
+
+  set responsePolicy(policy: ResponsePolicy) {
+    this.card.responsePolicy = policy;
+  }
+
+  status(): Promise<CardStatusInfo> {
+    return this.card.status();
+  }
+
+  transmit(command: BytesLike, expectedLen?: number, options?: AbortOptions): Promise<Uint8Array> {
+    const commandBytes = BytesLike.toUint8Array(command);
+
+    return intercept(
+      this.#interceptors.map((interceptor) => interceptor.transmit?.bind(interceptor)),
+      { card: this, command: commandBytes, expectedLen, options },
+      () => this.card.transmit(commandBytes, expectedLen, options),
+    );
+  }
+
+  /**
+   * Send a command, intercepted with the response after handling of 61xx/6Cxx.
+   * Commands sent as chained commands are intercepted for each command of the chain.
+   */
+  protected override sendAPDU(commandAPDU: CommandAPDU, isExtended: boolean, options?: TransmitOptions): Promise<ResponseAPDU> {
+    const commandBytes = this.encode(commandAPDU, isExtended);
+
+    return intercept(
+      this.#interceptors.map((interceptor) => interceptor.transmitAPDU?.bind(interceptor)),
+      { card: this, command: commandAPDU, commandBytes, options },
+      () => this.card.transmitAPDU(commandAPDU, options),
+    );
+  }
+
+  control(ioctl: DWORD, data: BytesLike = [], expectedLen?: number, options?: AbortOptions): Promise<Uint8Array> {
+    const command = BytesLike.toUint8Array(data);
+
+    return intercept(
+      this.#interceptors.map((interceptor) => interceptor.control?.bind(interceptor)),
+      { reader: this.reader, card: this, ioctl, data: command, expectedLen, options },
+      () => this.card.control(ioctl, command, expectedLen, options),
+    );
+  }
+
+  getAttribute(attr: Attribute): Promise<AttributeValue> {
+    return this.card.getAttribute(attr);
+  }
+
+  setAttribute(attr: Attribute, value: AttributeValue | BytesLike): Promise<void> {
+    return this.card.setAttribute(attr, value);
+  }
+
+  reconnect(
+    shareMode = ShareMode.Shared,
+    preferredProtocols = Protocol.Any,
+    initialization = Disposition.LeaveCard,
+  ): Promise<ReaderStatus> {
+    if (initialization != Disposition.LeaveCard) {
+      // card reset, all logical channels are closed
+      this.invalidateChannels();
+    }
+
+    return intercept(
+      this.#interceptors.map((interceptor) => interceptor.reconnect?.bind(interceptor)),
+      { card: this, shareMode, preferredProtocols, initialization },
+      () => this.card.reconnect(shareMode, preferredProtocols, initialization),
+    );
+  }
+
+  beginTransaction(options?: AbortOptions): Promise<void> {
+    return this.card.beginTransaction(options);
+  }
+
+  endTransaction(disposition = Disposition.LeaveCard): Promise<void> {
+    return this.card.endTransaction(disposition);
+  }
+
+  protected release(disposition: Disposition): Promise<ReaderStatus> {
+    return intercept(
+      this.#interceptors.map((interceptor) => interceptor.disconnect?.bind(interceptor)),
+      { card: this, disposition },
+      () => this.card.disconnect(disposition),
+    );
+  }
+}
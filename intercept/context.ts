@@ -0,0 +1,140 @@
+import { Context, Reader } from '../pcsc/pcsc.ts';
+import { ReaderStatusChangeHandler } from '../pcsc/context.ts';
+import { ContextEvent } from '../pcsc/context-events.ts';
+import { AbortOptions } from '../pcsc/abort.ts';
+
+import { InterceptedReader } from './reader.ts';
+import { Interceptor } from './interceptor.ts';
+
+/**
+ * Decorates any `Context`, running `connect`, `reconnect`, `disconnect`, `transmit`, `transmitAPDU` and
+ * `control` through a chain of `Interceptor`s - without changes to the decorated context.
+ *
+ * ```typescript
+ * const context = new InterceptedContext(ContextProvider.establishContext());
+ *
+ * context.use(new Tracer(new ConsoleExporter()));
+ * ```
+ */
+export class InterceptedContext implements Context {
+  #readers = new Map<Reader, InterceptedReader>();
+  #interceptors: Interceptor[];
+  #cardCount = 0;
+  #onStatusChange?: ReaderStatusChangeHandler;
+
+  constructor(public readonly context: Context, interceptors: Interceptor[] = []) {
+    this.#interceptors = [...interceptors];
+  }
+
+  /**
+   * Interceptors, outermost first
+   */
+  get interceptors(): Interceptor[] {
+    return [...this.#interceptors];
+  }
+
+  /**
+   * Add an interceptor, innermost. Returns a function that removes it.
+   */
+  use(interceptor: Interceptor): () => void {
+    this.#interceptors.push(interceptor);
+
+    return () => {
+      this.#interceptors = this.#interceptors.filter((item) => item !== interceptor);
+    };
+  }
+
+  /**
+   * Identifier for a new card connection
+   */
+  nextCardId(): number {
+    return ++this.#cardCount;
+  }
+
+  /**
+   * Intercepted view of a reader of the decorated context
+   */
+  wrap(reader: Reader): InterceptedReader {
+    if (reader instanceof InterceptedReader) {
+      return reader;
+    }
+
+    let interceptedReader = this.#readers.get(reader);
+
+    if (interceptedReader === undefined) {
+      interceptedReader = new InterceptedReader(this, reader);
+
+      this.#readers.set(reader, interceptedReader);
+    }
+
+    return interceptedReader;
+  }
+
+  listReaders(rescan = false): InterceptedReader[] {
+    const readers = this.context.listReaders(rescan);
+
+    // forget removed readers
+    for (const reader of Array.from(this.#readers.keys())) {
+      if (!readers.includes(reader)) {
+        this.#readers.delete(reader);
+      }
+    }
+
+    return readers.map((reader) => this.wrap(reader));
+  }
+
+  async waitForChange(
+    readers?: Reader[],
+    timeout?: number,
+    rescan?: boolean,
+    options?: AbortOptions,
+  ): Promise<InterceptedReader[]> {
+    const waitReaders = (readers ?? this.listReaders())
+      .map((reader) => (reader instanceof InterceptedReader) ? reader.reader : reader);
+
+    const changed = await this.context.waitForChange(waitReaders, timeout, rescan, options);
+
+    return changed.map((reader) => this.wrap(reader));
+  }
+
+  events(): AsyncIterableIterator<ContextEvent> {
+    const stream = this.context.events()[Symbol.asyncIterator]();
+
+    const events: AsyncIterableIterator<ContextEvent> = {
+      next: async () => {
+        const result = await stream.next();
+
+        return result.done ? result : { value: { ...result.value, reader: this.wrap(result.value.reader) } };
+      },
+
+      // ends the decorated stream, even before first iteration
+      return: async () => {
+        await stream.return?.();
+
+        return { value: undefined, done: true };
+      },
+
+      [Symbol.asyncIterator]: () => events,
+    };
+
+    return events;
+  }
+
+  get onStatusChange() {
+    return this.#onStatusChange;
+  }
+
+  set onStatusChange(handler: ReaderStatusChangeHandler | undefined) {
+    this.#onStatusChange = handler;
+
+    this.context.onStatusChange = handler && ((reader, status) => handler(this.wrap(reader), status));
+  }
+
+  addStatusChangeHandler(handler: ReaderStatusChangeHandler): () => void {
+    return this.context.addStatusChangeHandler((reader, status) => handler(this.wrap(reader), status));
+  }
+
+  shutdown(): Promise<void> {
+    return this.context.shutdown();
+  }
+}
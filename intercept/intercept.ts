@@ -0,0 +1,14 @@
+export { InterceptedContext } from './context.ts';
+export { InterceptedReader } from './reader.ts';
+export { InterceptedCard } from './card.ts';
+export { intercept } from './interceptor.ts';
+export type {
+  ConnectCall,
+  ControlCall,
+  DisconnectCall,
+  Interceptor,
+  Next,
+  ReconnectCall,
+  TransmitAPDUCall,
+  TransmitCall,
+} from './interceptor.ts';
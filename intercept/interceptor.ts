@@ -0,0 +1,92 @@
+import { Card, Disposition, DWORD, Protocol, ShareMode } from '../pcsc/pcsc.ts';
+import { ReaderStatus, TransmitOptions } from '../pcsc/context.ts';
+import { AbortOptions } from '../pcsc/abort.ts';
+
+import { CommandAPDU, ResponseAPDU } from '../iso7816/iso7816.ts';
+
+import type { InterceptedReader } from './reader.ts';
+import type { InterceptedCard } from './card.ts';
+
+export interface ConnectCall {
+  reader: InterceptedReader;
+
+  /** Identifier of the new connection, `InterceptedCard.id` */
+  card: number;
+
+  shareMode?: ShareMode;
+  preferredProtocols?: Protocol;
+  options?: AbortOptions;
+}
+
+export interface ReconnectCall {
+  card: InterceptedCard;
+  shareMode: ShareMode;
+  preferredProtocols: Protocol;
+  initialization: Disposition;
+}
+
+export interface DisconnectCall {
+  card: InterceptedCard;
+  disposition: Disposition;
+}
+
+export interface TransmitCall {
+  card: InterceptedCard;
+  command: Uint8Array;
+  expectedLen?: number;
+  options?: AbortOptions;
+}
+
+export interface TransmitAPDUCall {
+  card: InterceptedCard;
+  command: CommandAPDU;
+
+  /** Command, encoded as sent for the active protocol */
+  commandBytes: Uint8Array;
+
+  options?: TransmitOptions;
+}
+
+/**
+ * Control command (IOCTL), on a card connection or directly to the reader
+ */
+export interface ControlCall {
+  reader: InterceptedReader;
+  card?: InterceptedCard;
+  ioctl: DWORD;
+  data: Uint8Array;
+  expectedLen?: number;
+  options?: AbortOptions;
+}
+
+/**
+ * Continue with the next interceptor, and finally the intercepted operation
+ */
+export type Next<T> = () => Promise<T>;
+
+type Hook<C, T> = (call: C, next: Next<T>) => Promise<T>;
+
+/**
+ * Middleware around card operations of an `InterceptedContext`. Each hook receives the call, and must
+ * return (or throw) the result of `next()`, observing it or replacing it.
+ */
+export interface Interceptor {
+  connect?: Hook<ConnectCall, Card>;
+  reconnect?: Hook<ReconnectCall, ReaderStatus>;
+  disconnect?: Hook<DisconnectCall, ReaderStatus>;
+  transmit?: Hook<TransmitCall, Uint8Array>;
+  transmitAPDU?: Hook<TransmitAPDUCall, ResponseAPDU>;
+  control?: Hook<ControlCall, Uint8Array>;
+}
+
+/**
+ * Run `operation` through `hooks`, the first hook being the outermost
+ */
+export function intercept<C, T>(hooks: (Hook<C, T> | undefined)[], call: C, operation: Next<T>): Promise<T> {
+  const run = hooks.reduceRight<Next<T>>(
+    (next, hook) => (hook !== undefined) ? () => hook(call, next) : next,
+    operation,
+  );
+
+  return run();
+}
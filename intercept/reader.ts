@@ -0,0 +1,100 @@
+import { Card, DWORD, Protocol, Reader, ShareMode, StateFlags } from '../pcsc/pcsc.ts';
+import { ReaderStatus, ReaderStatusChangeHandler } from '../pcsc/context.ts';
+import { AbortOptions } from '../pcsc/abort.ts';
+
+import { ATR, BytesLike } from '../iso7816/iso7816.ts';
+
+import { InterceptedContext } from './context.ts';
+import { InterceptedCard } from './card.ts';
+import { ConnectCall, ControlCall, intercept } from './interceptor.ts';
+
+/**
+ * A `Reader` of an `InterceptedContext`, with intercepted `connect` and `control`
+ */
+export class InterceptedReader implements Reader {
+  #onStatusChange?: ReaderStatusChangeHandler;
+
+  constructor(
+    public readonly context: InterceptedContext,
+    public readonly reader: Reader,
+  ) {
+  }
+
+  get onStatusChange() {
+    return this.#onStatusChange;
+  }
+
+  set onStatusChange(handler: ReaderStatusChangeHandler | undefined) {
+    this.#onStatusChange = handler;
+
+    this.reader.onStatusChange = handler && ((_, status) => handler(this, status));
+  }
+
+  addStatusChangeHandler(handler: ReaderStatusChangeHandler): () => void {
+    return this.reader.addStatusChangeHandler((_, status) => handler(this, status));
+  }
+
+  get name() {
+    return this.reader.name;
+  }
+
+  get status(): ReaderStatus {
+    return this.reader.status;
+  }
+
+  get state(): StateFlags {
+    return this.reader.state;
+  }
+
+  get atr(): ATR | undefined {
+    return this.reader.atr;
+  }
+
+  get cardDescriptions(): string[] {
+    return this.reader.cardDescriptions;
+  }
+
+  get isPresent(): boolean {
+    return this.reader.isPresent;
+  }
+
+  get isConnected(): boolean {
+    return this.reader.isConnected;
+  }
+
+  get isMute(): boolean {
+    return this.reader.isMute;
+  }
+
+  waitForChange(timeout?: DWORD, options?: AbortOptions): Promise<ReaderStatus | "no-change"> {
+    return this.reader.waitForChange(timeout, options);
+  }
+
+  async connect(shareMode?: ShareMode, preferredProtocols?: Protocol, options?: AbortOptions): Promise<InterceptedCard> {
+    const call: ConnectCall = {
+      reader: this,
+      card: this.context.nextCardId(),
+      shareMode,
+      preferredProtocols,
+      options,
+    };
+
+    const card = await intercept<ConnectCall, Card>(
+      this.context.interceptors.map((interceptor) => interceptor.connect?.bind(interceptor)),
+      call,
+      () => this.reader.connect(shareMode, preferredProtocols, options),
+    );
+
+    return new InterceptedCard(this, card, call.card);
+  }
+
+  control(ioctl: DWORD, data: BytesLike = [], expectedLen?: number, options?: AbortOptions): Promise<Uint8Array> {
+    const call: ControlCall = { reader: this, ioctl, data: BytesLike.toUint8Array(data), expectedLen, options };
+
+    return intercept(
+      this.context.interceptors.map((interceptor) => interceptor.control?.bind(interceptor)),
+      call,
+      () => this.reader.control(ioctl, call.data, expectedLen, options),
+    );
+  }
+}
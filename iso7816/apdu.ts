@@ -1,5 +1,7 @@
 import { Protocol } from "../pcsc/scard.ts";
 import { BytesLike, HEX } from './buffer-utils.ts';
+import { CLA } from './enums.ts';
+import { ByteRange, Redaction, Sensitivity } from './redaction.ts';
 
 export class SmartCardException extends Error {
 }
@@ -12,6 +14,12 @@ export class CommandAPDU {
   readonly isExtended: boolean;
   description: string;
 
+  /**
+   * Sensitive DATA, masked in renderings. When unset, the DATA of instructions listed
+   * by the `Redaction` policy (VERIFY, PUT KEY ...) is sensitive.
+   */
+  sensitivity?: Sensitivity;
+
   constructor(
     public cla: number,
     public ins: number,
@@ -19,7 +27,7 @@ export class CommandAPDU {
     public p2: number,
     data?: BytesLike,
     public le?: number,
-    options?: { description?: string; isExtended?: boolean }
+    options?: { description?: string; isExtended?: boolean; sensitivity?: Sensitivity }
   ) {
     if (data !== undefined) {
       this.data = BytesLike.toUint8Array(data);
@@ -28,6 +36,15 @@ export class CommandAPDU {
     this.isExtended = options?.isExtended ?? false;
 
     this.description = options?.description ?? "";
+
+    this.sensitivity = options?.sensitivity;
+  }
+
+  /**
+   * Ranges of DATA masked by the current `Redaction` policy
+   */
+  public get redactedRanges(): ByteRange[] {
+    return Redaction.dataRanges(this.ins, this.Lc, this.sensitivity);
   }
 
   public toString(): string {
@@ -38,7 +55,7 @@ export class CommandAPDU {
     s += "," + "P1=0x" + HEX.toString([this.p2]);
     if (this.data && this.data.length) {
       s += "," + "LC=" + this.Lc;
-      s += "," + "DATA=" + HEX.toString(this.data);
+      s += "," + "DATA=" + Redaction.toHex(this.data, this.redactedRanges);
     }
     if (this.le) {
       s += "," + "LE=" + this.le;
@@ -51,6 +68,21 @@ export class CommandAPDU {
     return s;
   }
 
+  /**
+   * JSON rendering, with DATA as hex - masked according to the `Redaction` policy
+   */
+  public toJSON() {
+    return {
+      cla: this.cla,
+      ins: this.ins,
+      p1: this.p1,
+      p2: this.p2,
+      ...(this.data !== undefined ? { data: Redaction.toHex(this.data, this.redactedRanges) } : {}),
+      ...(this.le !== undefined ? { le: this.le } : {}),
+      ...(this.description != "" ? { description: this.description } : {}),
+    };
+  }
+
   public get Lc(): number {
     return this.data?.length ?? 0;
   }
@@ -99,20 +131,76 @@ export class CommandAPDU {
     this.description = description;
     return this;
   }
+  public setSensitivity(sensitivity?: Sensitivity): this {
+    this.sensitivity = sensitivity;
+    return this;
+  }
+
+  /**
+   * Split into a sequence of ISO7816-4 chained commands, each with at most `maxChunk` (1-255)
+   * bytes of DATA. All but the last command have the chaining bit (CLA b5) set, and
+   * only the last command carries Le.
+   */
+  public split(maxChunk = 255): CommandAPDU[] {
+    if (!Number.isInteger(maxChunk) || maxChunk <= 0 || maxChunk > 255) {
+      throw new SmartCardException(`CommandAPDU: Invalid chunk size ${maxChunk}`);
+    }
+
+    const data = this.data ?? new Uint8Array();
+
+    if (data.length <= maxChunk) {
+      return [this];
+    }
+
+    const commands: CommandAPDU[] = [];
+    const sensitivity = this.sensitivity;
+
+    for (let off = 0; off < data.length; off += maxChunk) {
+      const isLast = (off + maxChunk >= data.length);
+      const end = Math.min(off + maxChunk, data.length);
+
+      commands.push(
+        new CommandAPDU(
+          isLast ? this.cla : (this.cla | CLA.Chaining),
+          this.ins,
+          this.p1,
+          this.p2,
+          data.slice(off, off + maxChunk),
+          isLast ? this.le : undefined,
+          {
+            description: this.description,
+            // sensitive ranges, relative to each chunk
+            sensitivity: (sensitivity === undefined || sensitivity == "data") ? sensitivity : sensitivity
+              .filter((range) => range.offset < end && range.offset + range.length > off)
+              .map((range) => {
+                const start = Math.max(range.offset, off);
+
+                return { offset: start - off, length: Math.min(range.offset + range.length, end) - start };
+              }),
+          },
+        ),
+      );
+    }
+
+    return commands;
+  }
 
   /**
    * Encode - returns an Uint8Array from the CommandAPDU object
    */
-  public toBytes(options: { isT0?: boolean } = { isT0: true }): Uint8Array {
+  public toBytes(options: { isT0?: boolean; isExtended?: boolean } = { isT0: true }): Uint8Array {
     const isT0 = options.isT0 ?? false;
     const lc = this.data?.length ?? 0;
-    const isExtended = (this.isExtended ?? false) && !isT0;
+    const isExtended = (options.isExtended ?? this.isExtended ?? false) && !isT0;
     const le = (lc == 0 || !isT0) ? (this.le ?? 0) : 0;
 
+    // extended Le is 3 bytes (00 XX XX) when no Lc, otherwise 2 bytes
+    const leLen = isExtended ? ((lc == 0) ? 3 : 2) : 1;
+
     const len = 4 +
       ((lc == 0) ? 0 : (isExtended ? 3 : 1)) +
       lc +
-      ((le == 0) ? 0 : (isExtended ? 3 : 1));
+      ((le == 0) ? 0 : leLen);
 
     const raw = new Uint8Array(len);
 
@@ -129,8 +217,8 @@ export class CommandAPDU {
     }
 
     if (le > 0) {
-      raw.set(isExtended ? [0x00, le >> 8, le & 0xff] : [le], off);
-      off += isExtended ? 3 : 1;
+      raw.set([0x00, le >> 8, le & 0xff].slice(3 - leLen), off);
+      off += leLen;
     }
     return raw;
   }
@@ -138,7 +226,7 @@ export class CommandAPDU {
   /**
    * Decode
    */
-  static from(bytes: BytesLike, options?: { description?: string; isExtended?: boolean } ): CommandAPDU {
+  static from(bytes: BytesLike, options?: { description?: string; isExtended?: boolean; sensitivity?: Sensitivity } ): CommandAPDU {
     const buffer = BytesLike.toUint8Array(bytes);
 
     if (buffer.length < 4) {
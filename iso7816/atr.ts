@@ -0,0 +1,326 @@
+import { BytesLike, HEX } from './buffer-utils.ts';
+import { SmartCardException } from './apdu.ts';
+import { CardCapabilities } from './card-capabilities.ts';
+
+/**
+ * Interface bytes TAi, TBi, TCi and TDi for a single `i`
+ */
+export interface ATRInterfaceBytes {
+  /** Protocol T (from previous TDi-1), to which the bytes apply. Global (i=1,2) bytes have no protocol. */
+  protocol?: number;
+
+  TA?: number;
+  TB?: number;
+  TC?: number;
+  TD?: number;
+}
+
+/**
+ * Clock rate conversion integer FI -> [Fi, f(max) MHz]
+ */
+const FI_TABLE: ([number, number] | undefined)[] = [
+  [372, 4], [372, 5], [558, 6], [744, 8], [1116, 12], [1488, 16], [1860, 20], undefined,
+  undefined, [512, 5], [768, 7.5], [1024, 10], [1536, 15], [2048, 20], undefined, undefined,
+];
+
+/**
+ * Baud rate adjustment integer DI -> Di
+ */
+const DI_TABLE: (number | undefined)[] = [
+  undefined, 1, 2, 4, 8, 16, 32, 64, 12, 20, undefined, undefined, undefined, undefined, undefined, undefined,
+];
+
+/**
+ * ISO7816-3 Answer To Reset
+ */
+export class ATR {
+  readonly bytes: Uint8Array;
+
+  /** Initial character, 0x3B = direct convention, 0x3F = inverse convention */
+  readonly TS: number;
+
+  /** Format byte: Y1 (high nibble) and number of historical bytes (low nibble) */
+  readonly T0: number;
+
+  /** Interface bytes, interfaceBytes[0] contains TA1, TB1, TC1 and TD1 */
+  readonly interfaceBytes: ATRInterfaceBytes[];
+
+  readonly historicalBytes: Uint8Array;
+
+  /** Check byte, only present when a protocol other than T=0 is indicated */
+  readonly TCK?: number;
+
+  protected constructor(
+    bytes: Uint8Array,
+    TS: number,
+    T0: number,
+    interfaceBytes: ATRInterfaceBytes[],
+    historicalBytes: Uint8Array,
+    TCK?: number,
+  ) {
+    this.bytes = bytes;
+    this.TS = TS;
+    this.T0 = T0;
+    this.interfaceBytes = interfaceBytes;
+    this.historicalBytes = historicalBytes;
+    this.TCK = TCK;
+  }
+
+  /**
+   * Parse an ATR
+   */
+  static from(bytes: BytesLike): ATR {
+    const buffer = BytesLike.toUint8Array(bytes).slice();
+
+    if (buffer.length < 2) {
+      throw new SmartCardException("ATR: Invalid buffer");
+    }
+
+    const [TS, T0] = buffer;
+
+    if (TS != 0x3B && TS != 0x3F) {
+      throw new SmartCardException(`ATR: Invalid TS=0x${HEX.toString([TS])}`);
+    }
+
+    const interfaceBytes: ATRInterfaceBytes[] = [];
+
+    let off = 2;
+    let Y = T0 >> 4;
+    let protocol: number | undefined = undefined;
+    let needTCK = false;
+
+    while (true) {
+      const group: ATRInterfaceBytes = {};
+
+      // i > 2 are protocol specific
+      if (interfaceBytes.length >= 2) {
+        group.protocol = protocol;
+      }
+
+      for (const [mask, name] of [[0x1, "TA"], [0x2, "TB"], [0x4, "TC"], [0x8, "TD"]] as const) {
+        if (Y & mask) {
+          if (off >= buffer.length) {
+            throw new SmartCardException("ATR: Truncated interface bytes");
+          }
+
+          group[name] = buffer[off++];
+        }
+      }
+
+      interfaceBytes.push(group);
+
+      if (group.TD === undefined) {
+        break;
+      }
+
+      Y = group.TD >> 4;
+      protocol = group.TD & 0x0F;
+
+      if (protocol != 0) {
+        needTCK = true;
+      }
+    }
+
+    const historicalLen = T0 & 0x0F;
+
+    if (off + historicalLen > buffer.length) {
+      throw new SmartCardException("ATR: Truncated historical bytes");
+    }
+
+    const historicalBytes = buffer.slice(off, off + historicalLen);
+    off += historicalLen;
+
+    let TCK: number | undefined = undefined;
+
+    if (needTCK) {
+      if (off >= buffer.length) {
+        throw new SmartCardException("ATR: Missing TCK");
+      }
+
+      TCK = buffer[off++];
+    }
+
+    if (off != buffer.length) {
+      throw new SmartCardException("ATR: Invalid buffer length");
+    }
+
+    return new ATR(buffer, TS, T0, interfaceBytes, historicalBytes, TCK);
+  }
+
+  /**
+   * true for direct convention (TS=3B), false for inverse convention (TS=3F)
+   */
+  get isDirectConvention(): boolean {
+    return this.TS == 0x3B;
+  }
+
+  /**
+   * Protocols offered by card (T=0, T=1, ..), in order of indication. T=15 (global interface bytes) is not a protocol.
+   */
+  get protocols(): number[] {
+    const protocols = this.interfaceBytes
+      .flatMap((group) => (group.TD !== undefined) ? [group.TD & 0x0F] : [])
+      .filter((protocol, index, all) => protocol != 15 && all.indexOf(protocol) == index);
+
+    // absence of TD1 implies T=0
+    return (protocols.length == 0) ? [0] : protocols;
+  }
+
+  /**
+   * Find first TAi/TBi/TCi specific to protocol T (i > 2)
+   */
+  getProtocolBytes(protocol: number): ATRInterfaceBytes | undefined {
+    return this.interfaceBytes.find((group) => group.protocol === protocol);
+  }
+
+  get TA1() {
+    return this.interfaceBytes[0]?.TA;
+  }
+
+  get TB1() {
+    return this.interfaceBytes[0]?.TB;
+  }
+
+  get TC1() {
+    return this.interfaceBytes[0]?.TC;
+  }
+
+  get TA2() {
+    return this.interfaceBytes[1]?.TA;
+  }
+
+  get TC2() {
+    return this.interfaceBytes[1]?.TC;
+  }
+
+  /** Clock rate conversion integer, FI, from TA1 (default 1) */
+  get FI(): number {
+    return (this.TA1 !== undefined) ? (this.TA1 >> 4) : 0x1;
+  }
+
+  /** Baud rate adjustment integer, DI, from TA1 (default 1) */
+  get DI(): number {
+    return (this.TA1 !== undefined) ? (this.TA1 & 0x0F) : 0x1;
+  }
+
+  /** Clock rate conversion factor (default 372) */
+  get Fi(): number | undefined {
+    return FI_TABLE[this.FI]?.[0];
+  }
+
+  /** Baud rate adjustment factor (default 1) */
+  get Di(): number | undefined {
+    return DI_TABLE[this.DI];
+  }
+
+  /** Maximum clock frequency, in MHz (default 5) */
+  get fMax(): number | undefined {
+    return FI_TABLE[this.FI]?.[1];
+  }
+
+  /** Maximum baud rate, in bits/s, using `fMax` */
+  get maxBaudRate(): number | undefined {
+    const { Fi, Di, fMax } = this;
+
+    return (Fi && Di && fMax) ? Math.floor((fMax * 1000000 * Di) / Fi) : undefined;
+  }
+
+  /** Extra guard time integer, N, from TC1 (default 0) */
+  get extraGuardTime(): number {
+    return this.TC1 ?? 0;
+  }
+
+  /** Specific mode byte (TA2) present: card only operates in a specific mode (protocol) */
+  get isSpecificMode(): boolean {
+    return this.TA2 !== undefined;
+  }
+
+  /** T=0: work waiting time integer, WI, from TC2 (default 10) */
+  get WI(): number {
+    return this.TC2 ?? 10;
+  }
+
+  /** T=1: information field size of card, IFSC (default 32) */
+  get IFSC(): number {
+    return this.getProtocolBytes(1)?.TA ?? 32;
+  }
+
+  /** T=1: block waiting time integer, BWI (default 4) */
+  get BWI(): number {
+    const TB = this.getProtocolBytes(1)?.TB;
+
+    return (TB !== undefined) ? (TB >> 4) : 4;
+  }
+
+  /** T=1: character waiting time integer, CWI (default 13) */
+  get CWI(): number {
+    const TB = this.getProtocolBytes(1)?.TB;
+
+    return (TB !== undefined) ? (TB & 0x0F) : 13;
+  }
+
+  /** T=1: error detection code, "LRC" (default) or "CRC" */
+  get errorDetection(): "LRC" | "CRC" {
+    return ((this.getProtocolBytes(1)?.TC ?? 0) & 0x01) ? "CRC" : "LRC";
+  }
+
+  /** T=15 global: clock stop indicator, X, from first TA for T=15 */
+  get clockStop(): number | undefined {
+    const TA = this.getProtocolBytes(15)?.TA;
+
+    return (TA !== undefined) ? (TA >> 6) : undefined;
+  }
+
+  /** T=15 global: class indicator, Y (bit 1 = A/5V, bit 2 = B/3V, bit 3 = C/1.8V), from first TA for T=15 */
+  get classIndicator(): number | undefined {
+    const TA = this.getProtocolBytes(15)?.TA;
+
+    return (TA !== undefined) ? (TA & 0x3F) : undefined;
+  }
+
+  /**
+   * Card capabilities, decoded from historical bytes
+   */
+  get capabilities(): CardCapabilities {
+    return CardCapabilities.from(this.historicalBytes);
+  }
+
+  /**
+   * TCK validity: XOR of T0 .. TCK must be 0. `undefined` if no TCK present.
+   */
+  get isTCKValid(): boolean | undefined {
+    if (this.TCK === undefined) {
+      return undefined;
+    }
+
+    return this.bytes.slice(1).reduce((acc, byte) => acc ^ byte, 0) == 0;
+  }
+
+  public toString(): string {
+    let s = "ATR ";
+    s += "TS=0x" + HEX.toString([this.TS]);
+    s += "," + "T0=0x" + HEX.toString([this.T0]);
+
+    this.interfaceBytes.forEach((group, index) => {
+      for (const name of ["TA", "TB", "TC", "TD"] as const) {
+        const value = group[name];
+        if (value !== undefined) {
+          s += "," + `${name}${index + 1}=0x` + HEX.toString([value]);
+        }
+      }
+    });
+
+    s += "," + "Protocols=" + this.protocols.map((t) => `T=${t}`).join("/");
+    s += "," + `Fi=${this.Fi ?? "RFU"},Di=${this.Di ?? "RFU"},fMax=${this.fMax ?? "RFU"}MHz`;
+
+    if (this.historicalBytes.length) {
+      s += "," + "Historical=" + HEX.toString(this.historicalBytes);
+    }
+
+    if (this.TCK !== undefined) {
+      s += "," + "TCK=0x" + HEX.toString([this.TCK]) + (this.isTCKValid ? "" : " (invalid)");
+    }
+
+    return s;
+  }
+}
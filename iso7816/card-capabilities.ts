@@ -0,0 +1,203 @@
+import { BytesLike } from './buffer-utils.ts';
+import { CompactTLV } from './compact-tlv.ts';
+import { CommandAPDU } from './apdu.ts';
+
+/**
+ * COMPACT-TLV tags of historical bytes (ISO7816-4 §8.1.1.2)
+ */
+export enum HistoricalTag {
+  CountryCode = 0x1,
+  IssuerIdentificationNumber = 0x2,
+  CardServiceData = 0x3,
+  InitialAccessData = 0x4,
+  CardIssuerData = 0x5,
+  PreIssuingData = 0x6,
+  CardCapabilities = 0x7,
+  StatusIndicator = 0x8,
+  ApplicationIdentifier = 0xF,
+}
+
+export interface StatusIndicator {
+  /** Life cycle status byte */
+  lcs?: number;
+
+  /** Status word */
+  sw?: number;
+}
+
+/**
+ * Card capabilities, decoded from ATR historical bytes (ISO7816-4 §8.1.1)
+ */
+export class CardCapabilities {
+  /** Category indicator: 0x00 and 0x80 = COMPACT-TLV, 0x10 = DIR data reference */
+  readonly categoryIndicator: number;
+
+  /** COMPACT-TLV objects */
+  readonly objects: CompactTLV[];
+
+  readonly statusIndicator?: StatusIndicator;
+
+  protected constructor(
+    categoryIndicator: number,
+    objects: CompactTLV[],
+    statusIndicator?: StatusIndicator,
+  ) {
+    this.categoryIndicator = categoryIndicator;
+    this.objects = objects;
+    this.statusIndicator = statusIndicator;
+  }
+
+  /**
+   * Decode historical bytes. Returns an empty set of capabilities for
+   * proprietary or malformed historical bytes.
+   */
+  static from(historicalBytes: BytesLike): CardCapabilities {
+    const buffer = BytesLike.toUint8Array(historicalBytes);
+
+    if (buffer.length == 0) {
+      return new CardCapabilities(0x80, []);
+    }
+
+    const category = buffer[0];
+
+    if (category == 0x00 && buffer.length >= 4) {
+      // COMPACT-TLV, followed by mandatory status indicator (LCS, SW1, SW2)
+      const status = buffer.slice(-3);
+      const objects = CompactTLV.parse(buffer.slice(1, -3)) ?? [];
+
+      return new CardCapabilities(category, objects, {
+        lcs: status[0],
+        sw: (status[1] << 8) | status[2],
+      });
+    } else if (category == 0x80) {
+      // COMPACT-TLV, with optional status indicator object
+      const objects = CompactTLV.parse(buffer.slice(1)) ?? [];
+      const status = objects.find((obj) => obj.tag == HistoricalTag.StatusIndicator)?.value;
+
+      let statusIndicator: StatusIndicator | undefined;
+      if (status?.length == 1) {
+        statusIndicator = { lcs: status[0] };
+      } else if (status?.length == 2) {
+        statusIndicator = { sw: (status[0] << 8) | status[1] };
+      } else if (status?.length == 3) {
+        statusIndicator = { lcs: status[0], sw: (status[1] << 8) | status[2] };
+      }
+
+      return new CardCapabilities(category, objects, statusIndicator);
+    }
+
+    // DIR data reference or proprietary
+    return new CardCapabilities(category, []);
+  }
+
+  /**
+   * Find value of COMPACT-TLV object with `tag`
+   */
+  get(tag: HistoricalTag): Uint8Array | undefined {
+    return this.objects.find((obj) => obj.tag == tag)?.value;
+  }
+
+  get cardServiceData(): number | undefined {
+    return this.get(HistoricalTag.CardServiceData)?.[0];
+  }
+
+  get preIssuingData(): Uint8Array | undefined {
+    return this.get(HistoricalTag.PreIssuingData);
+  }
+
+  get applicationIdentifier(): Uint8Array | undefined {
+    return this.get(HistoricalTag.ApplicationIdentifier);
+  }
+
+  /** First software function table: selection methods */
+  get selectionMethods(): number | undefined {
+    return this.get(HistoricalTag.CardCapabilities)?.[0];
+  }
+
+  /** Second software function table: data coding byte */
+  get dataCoding(): number | undefined {
+    return this.get(HistoricalTag.CardCapabilities)?.[1];
+  }
+
+  /** Third software function table: chaining, extended length and logical channels */
+  get commandCapabilities(): number | undefined {
+    return this.get(HistoricalTag.CardCapabilities)?.[2];
+  }
+
+  get hasMF(): boolean {
+    return ((this.cardServiceData ?? 0) & 0x01) == 0;
+  }
+
+  get supportsSelectByFullDFName(): boolean {
+    return ((this.selectionMethods ?? 0) & 0x80) != 0;
+  }
+
+  get supportsSelectByPartialDFName(): boolean {
+    return ((this.selectionMethods ?? 0) & 0x40) != 0;
+  }
+
+  get supportsSelectByPath(): boolean {
+    return ((this.selectionMethods ?? 0) & 0x20) != 0;
+  }
+
+  get supportsSelectByFileId(): boolean {
+    return ((this.selectionMethods ?? 0) & 0x10) != 0;
+  }
+
+  get supportsShortEFId(): boolean {
+    return ((this.selectionMethods ?? 0) & 0x04) != 0;
+  }
+
+  get supportsCommandChaining(): boolean {
+    return ((this.commandCapabilities ?? 0) & 0x80) != 0;
+  }
+
+  get supportsExtendedLength(): boolean {
+    return ((this.commandCapabilities ?? 0) & 0x40) != 0;
+  }
+
+  /**
+   * Logical channel number assignment: by card (b5) and/or interface device (b4)
+   */
+  get logicalChannelAssignment(): "none" | "card" | "ifd" | "card-or-ifd" {
+    switch (((this.commandCapabilities ?? 0) >> 3) & 0x03) {
+      case 0x01: return "ifd";
+      case 0x02: return "card";
+      case 0x03: return "card-or-ifd";
+      default: return "none";
+    }
+  }
+
+  /**
+   * Maximum number of logical channels, including basic channel (8 = 8 or more)
+   */
+  get maxLogicalChannels(): number {
+    if (this.logicalChannelAssignment == "none") {
+      return 1;
+    }
+
+    return ((this.commandCapabilities ?? 0) & 0x07) + 1;
+  }
+
+  /**
+   * Choose how to encode a command whose DATA (or Le) exceeds short APDU limits:
+   *   `short`    fits in a short APDU, or command already marked `isExtended`
+   *   `extended` card supports extended Lc/Le
+   *   `chained`  card supports command chaining
+   */
+  encodingFor(command: CommandAPDU): "short" | "extended" | "chained" {
+    if (command.isExtended || (command.Lc <= 255 && (command.le ?? 0) <= 256)) {
+      return "short";
+    }
+
+    if (this.supportsExtendedLength) {
+      return "extended";
+    }
+
+    if (this.supportsCommandChaining && command.Lc > 255) {
+      return "chained";
+    }
+
+    return "short";
+  }
+}
@@ -0,0 +1,134 @@
+import { BytesLike, HEX } from './buffer-utils.ts';
+import { ATR } from './atr.ts';
+
+interface PatternEntry {
+  /** ATR pattern, as in `smartcard_list.txt` (eg "3B 02 14 50" or "3B 8F 80 01 80 4F 0C A0 00 00 03 06 .. ..") */
+  source: string;
+  pattern: RegExp;
+  descriptions: string[];
+}
+
+interface MaskEntry {
+  atr: Uint8Array;
+  mask: Uint8Array;
+  descriptions: string[];
+}
+
+/**
+ * Identify cards by their ATR, using the community `smartcard_list.txt`
+ * database format and/or locally registered ATR patterns.
+ */
+export class CardIdentifier {
+  #patterns: PatternEntry[] = [];
+  #masks: MaskEntry[] = [];
+
+  /**
+   * Shared identifier, used by default by `Reader.cardDescriptions`
+   */
+  static readonly default = new CardIdentifier();
+
+  /**
+   * Load ATR database in `smartcard_list.txt` format:
+   *   - lines starting with `#` are comments
+   *   - an ATR pattern line (hex bytes, `.` matches any digit, regex allowed)
+   *   - followed by one or more description lines, starting with a TAB
+   */
+  load(text: string): this {
+    let current: PatternEntry | undefined;
+
+    for (const line of text.split(/\r?\n/)) {
+      if (line.startsWith("#") || line.trim() == "") {
+        current = undefined;
+      } else if (line.startsWith("\t")) {
+        current?.descriptions.push(line.trim());
+      } else {
+        current = CardIdentifier.#compilePattern(line.trim());
+
+        if (current) {
+          this.#patterns.push(current);
+        }
+      }
+    }
+
+    return this;
+  }
+
+  /**
+   * Load ATR database from a `smartcard_list.txt` file
+   */
+  async loadFile(path: string | URL): Promise<this> {
+    return this.load(await Deno.readTextFile(path));
+  }
+
+  /**
+   * Register an ATR pattern. When `mask` is supplied, only bits set in mask are compared,
+   * otherwise `atr` may be a `smartcard_list.txt` style pattern string.
+   */
+  register(atr: string | BytesLike, description: string | string[], mask?: string | BytesLike): this {
+    const descriptions = Array.isArray(description) ? description : [description];
+
+    if (typeof atr == "string" && mask === undefined) {
+      const entry = CardIdentifier.#compilePattern(atr, descriptions);
+
+      if (!entry) {
+        throw new Error(`CardIdentifier: Invalid ATR pattern "${atr}"`);
+      }
+
+      // in-house patterns take precedence
+      this.#patterns.unshift(entry);
+    } else {
+      const atrBytes = (typeof atr == "string") ? HEX.parse(atr) : BytesLike.toUint8Array(atr);
+      const maskBytes = (mask === undefined)
+        ? new Uint8Array(atrBytes.length).fill(0xFF)
+        : (typeof mask == "string") ? HEX.parse(mask) : BytesLike.toUint8Array(mask);
+
+      if (maskBytes.length != atrBytes.length) {
+        throw new Error("CardIdentifier: ATR and mask must be same length");
+      }
+
+      this.#masks.push({ atr: atrBytes, mask: maskBytes, descriptions });
+    }
+
+    return this;
+  }
+
+  /**
+   * Returns descriptions of all matching entries, or [] if ATR is unknown
+   */
+  identify(atr: ATR | BytesLike): string[] {
+    const bytes = (atr instanceof ATR) ? atr.bytes : BytesLike.toUint8Array(atr);
+    const atrString = HEX.toString(bytes);
+
+    const masked = this.#masks
+      .filter((entry) =>
+        entry.atr.length == bytes.length &&
+        entry.atr.every((byte, index) => (byte & entry.mask[index]) == (bytes[index] & entry.mask[index]))
+      )
+      .flatMap((entry) => entry.descriptions);
+
+    const patterns = this.#patterns
+      .filter((entry) => entry.pattern.test(atrString))
+      .flatMap((entry) => entry.descriptions);
+
+    return [...masked, ...patterns];
+  }
+
+  get size(): number {
+    return this.#patterns.length + this.#masks.length;
+  }
+
+  static #compilePattern(source: string, descriptions: string[] = []): PatternEntry | undefined {
+    // smartcard_list.txt patterns are upper-case hex, separated by single spaces
+    const normalized = source.replace(/\s+/g, " ");
+
+    try {
+      return {
+        source: normalized,
+        pattern: new RegExp(`^${normalized}$`),
+        descriptions,
+      };
+    } catch (_) {
+      return undefined;
+    }
+  }
+}
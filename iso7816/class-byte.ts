@@ -0,0 +1,52 @@
+import { SmartCardException } from './apdu.ts';
+
+/**
+ * ISO7816-4 class byte (CLA) encoding of logical channel numbers
+ *
+ *   First interindustry (channels 0-3):    0 0 0 C S S N N
+ *   Further interindustry (channels 4-19): 0 1 S C N N N N  (N = channel - 4)
+ *
+ * where C = command chaining, S = secure messaging indication. Bit 8 (proprietary
+ * class, eg GlobalPlatform 0x80) is preserved.
+ */
+export const ClassByte = {
+  /**
+   * Returns true if CLA uses the further interindustry encoding
+   */
+  isFurtherInterindustry(cla: number): boolean {
+    return (cla & 0x40) != 0;
+  },
+
+  /**
+   * Extract logical channel number from CLA
+   */
+  channelOf(cla: number): number {
+    return ClassByte.isFurtherInterindustry(cla) ? (cla & 0x0F) + 4 : (cla & 0x03);
+  },
+
+  /**
+   * Rewrite CLA for logical `channel`, preserving proprietary class,
+   * secure messaging and command chaining bits
+   */
+  withChannel(cla: number, channel: number): number {
+    if (channel < 0 || channel > 19) {
+      throw new SmartCardException(`Invalid logical channel ${channel}`);
+    }
+
+    const proprietary = cla & 0x80;
+    const chaining = cla & 0x10;
+
+    // secure messaging indication, as first interindustry b4-b3
+    const sm = ClassByte.isFurtherInterindustry(cla) ? ((cla & 0x20) ? 0x2 : 0x0) : ((cla >> 2) & 0x3);
+
+    if (channel <= 3) {
+      return proprietary | chaining | (sm << 2) | channel;
+    }
+
+    if (sm == 0x1 || sm == 0x3) {
+      throw new SmartCardException(`Secure messaging indication cannot be encoded for logical channel ${channel}`);
+    }
+
+    return proprietary | 0x40 | (sm ? 0x20 : 0x00) | chaining | (channel - 4);
+  },
+};
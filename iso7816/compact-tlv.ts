@@ -0,0 +1,65 @@
+import { BytesLike } from './buffer-utils.ts';
+import { TLV } from './ber-tlv.ts';
+
+/**
+ * ISO7816-4 COMPACT-TLV, as used in historical bytes: a single byte
+ * with tag (high nibble) and length (low nibble), followed by value.
+ */
+export class CompactTLV implements TLV {
+  #tag: number;
+  #value: Uint8Array;
+
+  /**
+   * Parse a list of COMPACT-TLV objects
+   *
+   * @return
+   *   null:   Malformed TLV (length exceeds buffer)
+   *   []:     List of TLV objects
+   */
+  static parse(bytes: BytesLike): CompactTLV[] | null {
+    const buffer = BytesLike.toUint8Array(bytes);
+    const objects: CompactTLV[] = [];
+
+    let off = 0;
+    while (off < buffer.length) {
+      const tag = buffer[off] >> 4;
+      const len = buffer[off] & 0x0F;
+      off++;
+
+      if (off + len > buffer.length) {
+        return null;
+      }
+
+      objects.push(new CompactTLV(tag, buffer.slice(off, off + len)));
+      off += len;
+    }
+
+    return objects;
+  }
+
+  constructor(tag: number, value: BytesLike) {
+    this.#tag = tag;
+    this.#value = BytesLike.toUint8Array(value);
+  }
+
+  get tag(): number {
+    return this.#tag;
+  }
+
+  get value(): Uint8Array {
+    return this.#value;
+  }
+
+  get len(): number {
+    return this.#value.length;
+  }
+
+  get bytes() {
+    const buffer = new Uint8Array(1 + this.len);
+
+    buffer[0] = ((this.#tag & 0x0F) << 4) | (this.len & 0x0F);
+    buffer.set(this.#value, 1);
+
+    return buffer;
+  }
+}
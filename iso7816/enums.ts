@@ -6,6 +6,9 @@ export enum CLA {
   Extended = 0x80,
 
   SecureMessageMask = 0x03,
+
+  // Command chaining bit (b5)
+  Chaining = 0x10,
 }
 
 export enum INS {
@@ -21,12 +24,21 @@ export enum INS {
   // Select file instruction code
   SelectFile = 0xA4,
 
+  // Read binary instruction code
+  ReadBinary = 0xB0,
+
   // Read record instruction code
   ReadRecord = 0xB2,
 
   // Update record instruction code
   UpdateRecord = 0xDC,
 
+  // Append record instruction code
+  AppendRecord = 0xE2,
+
+  // Update binary instruction code
+  UpdateBinary = 0xD6,
+
   // Verify instruction code
   Verify = 0x20,
 
@@ -39,8 +51,17 @@ export enum INS {
   // Unblock change PIN instruction code
   UnblockChangePin = 0x24,
 
+  // Put key instruction code (GlobalPlatform)
+  PutKey = 0xD8,
+
   // Get data instruction code
   GetData = 0xCA,
+
+  // Get response instruction code
+  GetResponse = 0xC0,
+
+  // Manage channel instruction code
+  ManageChannel = 0x70,
 }
 
 export enum TAG
@@ -1,4 +1,10 @@
 export * from './apdu.ts';
+export * from './class-byte.ts';
 export * from './ber-tlv.ts';
+export * from './compact-tlv.ts';
+export * from './atr.ts';
+export * from './card-capabilities.ts';
+export * from './card-identifier.ts';
 export * from './enums.ts';
 export * from './buffer-utils.ts';
+export * from './redaction.ts';
@@ -0,0 +1,123 @@
+import { BytesLike, HEX } from './buffer-utils.ts';
+import { INS } from './enums.ts';
+
+/**
+ * Bytes of command DATA, or of an encoded command
+ */
+export interface ByteRange {
+  offset: number;
+  length: number;
+}
+
+/**
+ * Sensitive part of a command: its whole DATA, or ranges of its DATA. An empty list marks
+ * a command as not sensitive, overriding classification by instruction.
+ */
+export type Sensitivity = "data" | ByteRange[];
+
+export interface RedactionPolicy {
+  /**
+   * Instructions whose command DATA is sensitive, for commands not explicitly marked.
+   * Default VERIFY, CHANGE REFERENCE DATA, EXTERNAL AUTHENTICATE and PUT KEY.
+   */
+  sensitiveINS: number[];
+
+  /** Replaces each masked byte in hex renderings, default "**" */
+  mask: string;
+
+  /** Render sensitive data in full - for lab use only, never in production logs */
+  unsafeFullDump: boolean;
+}
+
+const DEFAULT_POLICY: RedactionPolicy = {
+  sensitiveINS: [INS.Verify, INS.UnblockChangePin, INS.ExternalAuthenticate, INS.PutKey],
+  mask: "**",
+  unsafeFullDump: false,
+};
+
+let currentPolicy: RedactionPolicy = DEFAULT_POLICY;
+
+/**
+ * Offset of DATA in an encoded command, short or extended
+ */
+function dataOffset(command: Uint8Array): number {
+  return (command.length > 7 && command[4] == 0x00) ? 7 : 5;
+}
+
+/**
+ * Redaction of sensitive command data (PINs, keys, cryptograms) in `CommandAPDU.toString()`,
+ * `CommandAPDU.toJSON()` and trace exporters, according to a process-wide policy.
+ *
+ * ```typescript
+ * // lab bench only
+ * Redaction.setPolicy({ unsafeFullDump: true });
+ * ```
+ */
+export const Redaction = {
+  get policy(): Readonly<RedactionPolicy> {
+    return currentPolicy;
+  },
+
+  /**
+   * Set the policy. Unset fields take their default value.
+   */
+  setPolicy(policy: Partial<RedactionPolicy> = {}) {
+    currentPolicy = { ...DEFAULT_POLICY, ...policy };
+  },
+
+  /**
+   * Ranges of a command's DATA to mask: as marked by `sensitivity`, or else the whole DATA of a sensitive
+   * instruction. None with an unsafe policy.
+   */
+  dataRanges(ins: number, dataLength: number, sensitivity?: Sensitivity, policy = currentPolicy): ByteRange[] {
+    if (policy.unsafeFullDump || dataLength == 0) {
+      return [];
+    }
+
+    sensitivity ??= policy.sensitiveINS.includes(ins) ? "data" : [];
+
+    return (sensitivity == "data") ? [{ offset: 0, length: dataLength }] : sensitivity;
+  },
+
+  /**
+   * Ranges of an encoded command (header, Lc, DATA and Le) to mask
+   */
+  commandRanges(command: Uint8Array, sensitivity?: Sensitivity, policy = currentPolicy): ByteRange[] {
+    if (command.length <= 5) {
+      // no DATA
+      return [];
+    }
+
+    const offset = dataOffset(command);
+    const dataLength = (offset == 7) ? (command[5] << 8) | command[6] : command[4];
+
+    return Redaction.dataRanges(command[1], Math.min(dataLength, command.length - offset), sensitivity, policy)
+      .map((range) => ({ offset: offset + range.offset, length: range.length }));
+  },
+
+  /**
+   * Hex rendering, with each byte in `ranges` replaced by the policy mask
+   */
+  toHex(bytes: BytesLike, ranges: ByteRange[], policy = currentPolicy): string {
+    const hex = HEX.toString(bytes).split(" ").filter((byte) => byte != "");
+
+    for (const { offset, length } of ranges) {
+      hex.fill(policy.mask, offset, Math.min(offset + length, hex.length));
+    }
+
+    return hex.join(" ");
+  },
+
+  /**
+   * Copy of `bytes`, with each byte in `ranges` replaced by `maskByte`, for binary exports
+   */
+  mask(bytes: BytesLike, ranges: ByteRange[], maskByte = 0x00): Uint8Array {
+    const masked = BytesLike.toUint8Array(bytes).slice();
+
+    for (const { offset, length } of ranges) {
+      masked.fill(maskByte, offset, offset + length);
+    }
+
+    return masked;
+  },
+};
@@ -0,0 +1,185 @@
+import { decodeCardStatus, Disposition, DWORD, MAX_BUFFER_SIZE, Protocol, ShareMode } from '../pcsc/pcsc.ts';
+import { CardStatusInfo, ReaderStatus } from '../pcsc/context.ts';
+import { BaseCard } from '../pcsc/base-card.ts';
+import { Attribute, AttributeCodec, AttributeValue } from '../pcsc/attributes.ts';
+import { ResponsePolicy } from '../pcsc/response-policy.ts';
+import { AbortOptions, throwIfAborted, withAbort } from '../pcsc/abort.ts';
+import { AbortError } from '../pcsc/errors.ts';
+
+import { ATR, BytesLike, SmartCardException } from '../iso7816/iso7816.ts';
+
+import { VirtualConnection } from './virtual-reader.ts';
+import { MockReader } from './reader.ts';
+
+/**
+ * Card connected to a `VirtualCard`
+ */
+export class MockCard extends BaseCard {
+  #connection?: VirtualConnection;
+  #protocol: number;
+  #atr?: ATR;
+
+  /**
+   * Handling of 61xx/6Cxx status words by `transmitAPDU`, default `ResponsePolicy.Auto`
+   */
+  responsePolicy: ResponsePolicy = ResponsePolicy.Auto;
+
+  constructor(
+    public readonly reader: MockReader,
+    connection: VirtualConnection,
+  ) {
+    super();
+
+    this.#connection = connection;
+    this.#protocol = connection.protocol;
+  }
+
+  get isConnected(): boolean {
+    return this.#connection !== undefined;
+  }
+
+  get protocol() {
+    return this.#protocol;
+  }
+
+  get atr(): ATR | undefined {
+    if (!this.#atr && this.#connection) {
+      this.#atr = ATR.from(this.#connection.check("SCardStatus").atr);
+    }
+
+    return this.#atr;
+  }
+
+  status(): Promise<CardStatusInfo> {
+    try {
+      const card = this.#ensureConnection().check("SCardStatus");
+
+      // pcsc-lite SCARD_PRESENT | SCARD_POWERED | SCARD_NEGOTIABLE | SCARD_SPECIFIC
+      const state = 0x0004 | 0x0010 | 0x0020 | 0x0040;
+
+      return Promise.resolve({
+        readerNames: [this.reader.name],
+        state,
+        status: decodeCardStatus(state),
+        protocol: this.#protocol,
+        atr: card.atr.slice(),
+      });
+    } catch (e) {
+      return Promise.reject(e);
+    }
+  }
+
+  transmit(command: BytesLike, expectedLen?: number, options?: AbortOptions): Promise<Uint8Array> {
+    return withAbort(
+      async () => await this.#ensureConnection().transmit(BytesLike.toUint8Array(command), 2 + (expectedLen ?? 256)),
+      options,
+    );
+  }
+
+  control(ioctl: DWORD, data: BytesLike = [], expectedLen = MAX_BUFFER_SIZE, options?: AbortOptions): Promise<Uint8Array> {
+    return withAbort(
+      async () => await this.#ensureConnection().control(ioctl, BytesLike.toUint8Array(data), expectedLen),
+      options,
+    );
+  }
+
+  getAttribute(attr: Attribute): Promise<AttributeValue> {
+    try {
+      return Promise.resolve(AttributeCodec.decode(attr, this.#ensureConnection().getAttribute(attr)));
+    } catch (e) {
+      return Promise.reject(e);
+    }
+  }
+
+  setAttribute(attr: Attribute, value: AttributeValue | BytesLike): Promise<void> {
+    try {
+      this.#ensureConnection().setAttribute(attr, AttributeCodec.encode(attr, value));
+
+      return Promise.resolve();
+    } catch (e) {
+      return Promise.reject(e);
+    }
+  }
+
+  async reconnect(
+    _shareMode = ShareMode.Shared,
+    preferredProtocols = Protocol.Any,
+    initialization = Disposition.LeaveCard,
+  ): Promise<ReaderStatus> {
+    const connection = this.#ensureConnection();
+
+    if (initialization != Disposition.LeaveCard) {
+      // card reset, all logical channels are closed
+      this.invalidateChannels();
+    }
+
+    this.#atr = undefined;
+    try {
+      this.#protocol = connection.reconnect(preferredProtocols, initialization);
+    } catch (e) {
+      // If reconnect failed, connection is no longer valid
+      connection.disconnect(Disposition.LeaveCard);
+
+      this.#protocol = 0;
+      this.#connection = undefined;
+
+      throw e;
+    }
+
+    return await this.reader.waitForChange() as ReaderStatus;
+  }
+
+  async beginTransaction(options?: AbortOptions): Promise<void> {
+    const connection = this.#ensureConnection();
+
+    throwIfAborted(options?.signal);
+
+    const pending = connection.beginTransaction();
+
+    try {
+      await withAbort(() => pending, options);
+    } catch (e) {
+      if (e instanceof AbortError) {
+        pending
+          .then(() => connection.endTransaction(Disposition.LeaveCard))
+          .catch(() => {
+            // transaction not granted, or card disconnected
+          });
+      }
+
+      throw e;
+    }
+  }
+
+  endTransaction(disposition = Disposition.LeaveCard): Promise<void> {
+    try {
+      this.#ensureConnection().endTransaction(disposition);
+
+      return Promise.resolve();
+    } catch (e) {
+      return Promise.reject(e);
+    }
+  }
+
+  protected async release(disposition: Disposition): Promise<ReaderStatus> {
+    if (this.#connection) {
+      try {
+        this.#connection.disconnect(disposition);
+      } finally {
+        this.#protocol = 0;
+        this.#connection = undefined;
+        this.#atr = undefined;
+      }
+    }
+
+    return await this.reader.waitForChange() as ReaderStatus;
+  }
+
+  #ensureConnection(): VirtualConnection {
+    if (!this.#connection) {
+      throw new SmartCardException("SmartCard disconected");
+    }
+
+    return this.#connection;
+  }
+}
@@ -0,0 +1,163 @@
+import { INFINITE, Protocol, Reader, ShareMode } from '../pcsc/pcsc.ts';
+import { PCSCException, SCARD_ERROR_CANCELLED } from '../pcsc/errors.ts';
+import { BaseContext } from '../pcsc/base-context.ts';
+
+import { SmartCardException } from '../iso7816/iso7816.ts';
+
+import { MockReader } from './reader.ts';
+import { VirtualConnection } from './virtual-reader.ts';
+import type { MockContextProvider } from './provider.ts';
+
+/**
+ * Context over the virtual readers of a `MockContextProvider`, with the same
+ * `waitForChange`, `onStatusChange` and `events()` semantics as `FFIContext`
+ */
+export class MockContext extends BaseContext<MockReader> {
+  #provider: MockContextProvider;
+
+  #isValid = true;
+
+  // pending waits, rejected by cancel()
+  #waits = new Set<(error: Error) => void>();
+
+  constructor(provider: MockContextProvider) {
+    super();
+
+    this.#provider = provider;
+  }
+
+  protected async getStatusChange(readers: Reader[], timeout: number, includePNP: boolean): Promise<{ changed: MockReader[], mustRescan: boolean }> {
+    if (!this.isValid() || !MockReader.isValidReaders(readers)) {
+      return { changed: [], mustRescan: false };
+    }
+
+    const deadline = (timeout == INFINITE) ? undefined : Date.now() + timeout;
+
+    while (true) {
+      const changed = readers.filter((reader) => reader.hasChanged);
+      const mustRescan = includePNP && this.#hasReaderListChanged();
+
+      if (changed.length > 0 || mustRescan) {
+        changed.forEach((reader) => reader.updateState());
+
+        return { changed, mustRescan };
+      }
+
+      const remaining = (deadline !== undefined) ? deadline - Date.now() : undefined;
+
+      if (remaining !== undefined && remaining <= 0) {
+        return { changed: [], mustRescan: false };
+      }
+
+      await this.#nextChange(remaining);
+    }
+  }
+
+  /**
+   * Resolves on next change to a virtual reader, or after `timeout`. Rejects if cancelled.
+   */
+  #nextChange(timeout?: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const done = () => {
+        clearTimeout(timer);
+        unsubscribe();
+        this.#waits.delete(cancel);
+      };
+
+      const unsubscribe = this.#provider.onChange(() => {
+        done();
+        resolve();
+      });
+
+      const cancel = (error: Error) => {
+        done();
+        reject(error);
+      };
+
+      this.#waits.add(cancel);
+
+      if (timeout !== undefined) {
+        timer = setTimeout(() => {
+          done();
+          resolve();
+        }, timeout);
+      }
+    });
+  }
+
+  #hasReaderListChanged(): boolean {
+    const virtualReaders = this.#provider.readers;
+
+    return virtualReaders.length != this.readers.size ||
+      virtualReaders.some((virtualReader) => this.readers.get(virtualReader.name)?.virtualReader !== virtualReader);
+  }
+
+  protected updateReaderList() {
+    const virtualReaders = this.#provider.readers;
+    let removed = 0;
+
+    // identify and delete any recently "removed" readers
+    // ... notify
+    for (const [name, reader] of Array.from(this.readers)) {
+      // a reader unplugged and plugged in again is a new reader
+      if (!virtualReaders.includes(reader.virtualReader)) {
+        reader.shutdown();
+
+        this.readers.delete(name);
+        removed++;
+
+        this.readerStatusChanged(reader);
+      }
+    }
+
+    // identify and instantiate any newly inserted readers
+    const addedReaders = virtualReaders
+      .filter((virtualReader) => !this.readers.has(virtualReader.name))
+      .map((virtualReader) => {
+        const reader = new MockReader(this, virtualReader);
+
+        this.readers.set(virtualReader.name, reader);
+
+        return reader;
+      });
+
+    // monitor must wait on new list of readers
+    if (addedReaders.length > 0 || removed > 0) {
+      this.interruptMonitor();
+    }
+
+    // notify with "setup", then accept initial status
+    for (const reader of addedReaders) {
+      this.readerStatusChanged(reader);
+
+      reader.updateState(false);
+    }
+  }
+
+  protected releaseContext() {
+    this.#isValid = false;
+  }
+
+  isValid(): boolean {
+    return this.#isValid;
+  }
+
+  connect(reader: MockReader, shareMode: ShareMode, supportedProtocols: Protocol): VirtualConnection {
+    if (!this.isValid()) {
+      throw new SmartCardException("SmartCard context is shutdown");
+    }
+
+    return reader.virtualReader.connect(shareMode, supportedProtocols);
+  }
+
+  /**
+   * Cancel all pending `waitForChange` calls (`SCardCancel`)
+   */
+  cancel() {
+    for (const cancel of Array.from(this.#waits)) {
+      cancel(new PCSCException(SCARD_ERROR_CANCELLED, "SCardGetStatusChange"));
+    }
+  }
+}
@@ -0,0 +1,782 @@
+import { Protocol } from '../pcsc/pcsc.ts';
+
+import { BerTLV, BytesLike, CommandAPDU, HEX, INS, ResponseAPDU, SW } from '../iso7816/iso7816.ts';
+
+import { VirtualCard, VirtualCardOptions } from './virtual-card.ts';
+
+/**
+ * Condition for accessing a file: always, never, or once the PIN `{ pin: reference }` has been verified
+ */
+export type AccessCondition = "always" | "never" | { pin: number };
+
+export interface CardFileOptions {
+  /** Short EF identifier (1..30), for READ/UPDATE commands without a prior SELECT */
+  sfi?: number;
+
+  /** Condition for READ BINARY and READ RECORD, default "always" */
+  read?: AccessCondition;
+
+  /** Condition for UPDATE BINARY, UPDATE RECORD and APPEND RECORD, default "always" */
+  update?: AccessCondition;
+}
+
+function fidBytes(fid: number): number[] {
+  return [(fid >> 8) & 0xFF, fid & 0xFF];
+}
+
+/**
+ * A file of a `FileSystemCard` - MF, DF or EF
+ */
+export abstract class CardFile {
+  /** Enclosing DF, `undefined` for the MF (or a file not yet added to a DF) */
+  parent?: DedicatedFile;
+
+  readonly sfi?: number;
+
+  readonly read: AccessCondition;
+
+  readonly update: AccessCondition;
+
+  constructor(public readonly fid: number, options: CardFileOptions = {}) {
+    if (options.sfi !== undefined && (options.sfi < 1 || options.sfi > 30)) {
+      throw new Error(`Invalid SFI ${options.sfi} for file ${HEX.toString(fidBytes(fid))}`);
+    }
+
+    this.sfi = options.sfi;
+    this.read = options.read ?? "always";
+    this.update = options.update ?? "always";
+  }
+
+  /**
+   * File descriptor (tag 82)
+   */
+  protected abstract get descriptor(): number[];
+
+  /**
+   * Number of data bytes in file (tag 80), `undefined` for a DF
+   */
+  protected get size(): number | undefined {
+    return undefined;
+  }
+
+  /**
+   * Content of the FCP template - file size, descriptor, identifier, DF name, SFI and life cycle status
+   */
+  get fcpObjects(): Uint8Array {
+    const objects: BerTLV[] = [];
+    const size = this.size;
+
+    if (size !== undefined) {
+      objects.push(new BerTLV(0x80, [(size >> 8) & 0xFF, size & 0xFF]));
+    }
+
+    objects.push(new BerTLV(0x82, this.descriptor));
+    objects.push(new BerTLV(0x83, fidBytes(this.fid)));
+
+    if (this instanceof DedicatedFile && this.name !== undefined) {
+      objects.push(new BerTLV(0x84, this.name));
+    }
+
+    if (this.sfi !== undefined) {
+      objects.push(new BerTLV(0x88, [this.sfi << 3]));
+    }
+
+    // operational, activated
+    objects.push(new BerTLV(0x8A, [0x05]));
+
+    return new Uint8Array(objects.flatMap((object) => Array.from(object.bytes)));
+  }
+
+  /**
+   * File Control Parameters template (tag 62), as returned by SELECT
+   */
+  get fcp(): Uint8Array {
+    return new BerTLV(0x62, this.fcpObjects).bytes;
+  }
+}
+
+/**
+ * A dedicated file (or the MF), containing other files and optionally identified by a DF name (AID)
+ */
+export class DedicatedFile extends CardFile {
+  readonly children: CardFile[] = [];
+
+  readonly name?: Uint8Array;
+
+  constructor(fid: number, options: CardFileOptions & { name?: BytesLike } = {}) {
+    super(fid, options);
+
+    if (options.name !== undefined) {
+      this.name = BytesLike.toUint8Array(options.name).slice();
+    }
+  }
+
+  protected override get descriptor(): number[] {
+    return [0x38];
+  }
+
+  /**
+   * Add files to DF, returns the DF
+   */
+  add(...files: CardFile[]): this {
+    for (const file of files) {
+      if (this.getChild(file.fid) !== undefined) {
+        throw new Error(`File ${HEX.toString(fidBytes(file.fid))} already exists in DF ${HEX.toString(fidBytes(this.fid))}`);
+      }
+
+      if (file.sfi !== undefined && this.getChildBySFI(file.sfi) !== undefined) {
+        throw new Error(`SFI ${file.sfi} already used in DF ${HEX.toString(fidBytes(this.fid))}`);
+      }
+
+      file.parent = this;
+
+      this.children.push(file);
+    }
+
+    return this;
+  }
+
+  getChild(fid: number): CardFile | undefined {
+    return this.children.find((file) => file.fid == fid);
+  }
+
+  getChildBySFI(sfi: number): CardFile | undefined {
+    return this.children.find((file) => file.sfi == sfi);
+  }
+
+  /**
+   * This DF and all DFs below it, depth-first
+   */
+  *dedicatedFiles(): Generator<DedicatedFile> {
+    yield this;
+
+    for (const file of this.children) {
+      if (file instanceof DedicatedFile) {
+        yield* file.dedicatedFiles();
+      }
+    }
+  }
+}
+
+/**
+ * An EF with transparent structure, of fixed size
+ */
+export class TransparentFile extends CardFile {
+  readonly data: Uint8Array;
+
+  constructor(fid: number, data: BytesLike, options: CardFileOptions = {}) {
+    super(fid, options);
+
+    this.data = BytesLike.toUint8Array(data).slice();
+  }
+
+  protected override get descriptor(): number[] {
+    return [0x01];
+  }
+
+  protected override get size(): number {
+    return this.data.length;
+  }
+}
+
+export interface RecordFileOptions extends CardFileOptions {
+  /** Size of each record for a linear fixed EF, records of variable size when `undefined` */
+  recordSize?: number;
+
+  /** Maximum number of records, default 254 */
+  maxRecords?: number;
+}
+
+/**
+ * An EF with linear record structure, of fixed or variable size records
+ */
+export class RecordFile extends CardFile {
+  readonly records: Uint8Array[] = [];
+
+  readonly recordSize?: number;
+
+  readonly maxRecords: number;
+
+  constructor(fid: number, records: BytesLike[] = [], options: RecordFileOptions = {}) {
+    super(fid, options);
+
+    this.recordSize = options.recordSize;
+    this.maxRecords = options.maxRecords ?? 254;
+
+    for (const record of records) {
+      const bytes = BytesLike.toUint8Array(record).slice();
+
+      if (!this.isValidRecord(bytes) || this.records.length >= this.maxRecords) {
+        throw new Error(`Invalid record ${HEX.toString(bytes)} for file ${HEX.toString(fidBytes(fid))}`);
+      }
+
+      this.records.push(bytes);
+    }
+  }
+
+  /**
+   * Record has the correct size for this file
+   */
+  isValidRecord(record: Uint8Array): boolean {
+    return (this.recordSize !== undefined) ? record.length == this.recordSize : record.length <= 0xFF;
+  }
+
+  protected override get descriptor(): number[] {
+    // linear fixed: max record size and number of records; linear variable: data coding byte only
+    return (this.recordSize !== undefined)
+      ? [0x02, 0x21, 0x00, this.recordSize, this.records.length]
+      : [0x04, 0x21];
+  }
+
+  protected override get size(): number {
+    return this.records.reduce((size, record) => size + record.length, 0);
+  }
+}
+
+interface PIN {
+  value: Uint8Array;
+  maxRetries: number;
+  retries: number;
+}
+
+export interface FileSystemCardOptions extends VirtualCardOptions {
+  /** Master file, default an empty MF (3F00) */
+  mf?: DedicatedFile;
+}
+
+/**
+ * A `VirtualCard` simulating an ISO 7816-4 file system, with MF/DF/EF hierarchy, transparent and
+ * record EFs, and PINs with retry counters, protecting files by access condition.
+ *
+ * Supported commands: SELECT (by FID, child DF/EF, parent, DF name and path), READ/UPDATE BINARY,
+ * READ/UPDATE/APPEND RECORD, VERIFY and GET RESPONSE. Scripts added with `on` take precedence.
+ *
+ * ```typescript
+ * const card = new FileSystemCard(atr);
+ *
+ * card.mf.add(
+ *   new TransparentFile(0x2F00, HEX.parse("61 00")),
+ *   new DedicatedFile(0x7F10, { name: aid }).add(
+ *     new RecordFile(0x6F3A, [], { sfi: 1, recordSize: 16, update: { pin: 0x81 } }),
+ *   ),
+ * );
+ * card.addPIN(0x81, HEX.parse("31 32 33 34"));
+ * ```
+ */
+export class FileSystemCard extends VirtualCard {
+  #pins = new Map<number, PIN>();
+  #verified = new Set<number>();
+  #currentDF: DedicatedFile;
+  #currentEF?: CardFile;
+  #pendingResponse?: Uint8Array;
+
+  readonly mf: DedicatedFile;
+
+  constructor(atr: BytesLike, options: FileSystemCardOptions = {}) {
+    super(atr, options);
+
+    this.mf = options.mf ?? new DedicatedFile(0x3F00);
+    this.#currentDF = this.mf;
+  }
+
+  get currentDF(): DedicatedFile {
+    return this.#currentDF;
+  }
+
+  get currentEF(): CardFile | undefined {
+    return this.#currentEF;
+  }
+
+  /**
+   * Add a PIN, verified by VERIFY with P2 = `reference`
+   */
+  addPIN(reference: number, value: BytesLike, maxRetries = 3): this {
+    this.#pins.set(reference, { value: BytesLike.toUint8Array(value).slice(), maxRetries, retries: maxRetries });
+
+    return this;
+  }
+
+  /**
+   * Remaining tries for PIN `reference`, `undefined` for an unknown PIN
+   */
+  getRetries(reference: number): number | undefined {
+    return this.#pins.get(reference)?.retries;
+  }
+
+  isVerified(reference: number): boolean {
+    return this.#verified.has(reference);
+  }
+
+  /**
+   * Power-up: select MF, and clear security status
+   */
+  override reset() {
+    super.reset();
+
+    this.#currentDF = this.mf;
+    this.#currentEF = undefined;
+    this.#pendingResponse = undefined;
+    this.#verified.clear();
+  }
+
+  protected override handle(bytes: Uint8Array): Uint8Array {
+    let command: CommandAPDU;
+
+    try {
+      command = CommandAPDU.from(bytes);
+    } catch (_) {
+      return this.#reply(SW.WRONG_LENGTH);
+    }
+
+    // response data is available only to the following command
+    const pendingResponse = this.#pendingResponse;
+    this.#pendingResponse = undefined;
+
+    if (command.cla & 0x80) {
+      return this.#reply(SW.CLA_NOT_SUPPORTED);
+    }
+
+    switch (command.ins) {
+      case INS.SelectFile:
+        return this.#select(command);
+
+      case INS.ReadBinary:
+        return this.#readBinary(command);
+
+      case INS.UpdateBinary:
+        return this.#updateBinary(command);
+
+      case INS.ReadRecord:
+        return this.#readRecord(command);
+
+      case INS.UpdateRecord:
+        return this.#updateRecord(command);
+
+      case INS.AppendRecord:
+        return this.#appendRecord(command);
+
+      case INS.Verify:
+        return this.#verify(command);
+
+      case INS.GetResponse:
+        return this.#getResponse(command, pendingResponse);
+
+      default:
+        return this.defaultResponse;
+    }
+  }
+
+  #reply(sw: number, data?: BytesLike): Uint8Array {
+    return new ResponseAPDU(sw, data).toBytes();
+  }
+
+  /**
+   * Reply with `data` limited by Le, leaving any remaining data for GET RESPONSE (SW=61xx).
+   * Without Le, T=0 cards signal that data is available, T=1 cards return none.
+   */
+  #respond(command: CommandAPDU, data: Uint8Array): Uint8Array {
+    if (data.length == 0) {
+      return this.#reply(SW.SUCCESS);
+    }
+
+    if (command.le === undefined) {
+      if (this.protocol == Protocol.T0) {
+        this.#pendingResponse = data;
+
+        return this.#reply(0x6100 | (data.length & 0xFF));
+      }
+
+      return this.#reply(SW.SUCCESS);
+    }
+
+    const le = command.le || 256;
+
+    if (data.length > le) {
+      const remaining = data.slice(le);
+
+      this.#pendingResponse = remaining;
+
+      return this.#reply(0x6100 | (Math.min(remaining.length, 256) & 0xFF), data.slice(0, le));
+    }
+
+    return this.#reply(SW.SUCCESS, data);
+  }
+
+  #getResponse(command: CommandAPDU, pendingResponse?: Uint8Array): Uint8Array {
+    if (command.p1 != 0x00 || command.p2 != 0x00) {
+      return this.#reply(SW.INCORRECT_P1P2);
+    }
+
+    if (pendingResponse === undefined) {
+      return this.#reply(SW.CONDITIONS_NOT_SATISFIED);
+    }
+
+    return this.#respond(new CommandAPDU(command.cla, command.ins, 0, 0, undefined, command.le ?? 0), pendingResponse);
+  }
+
+  #select(command: CommandAPDU): Uint8Array {
+    const { p1, p2 } = command;
+    const data = command.data ?? new Uint8Array();
+
+    // first occurrence only; FCI, FCP or no response data (no FMD)
+    if ((p2 & 0xF3) != 0 || (p2 & 0x0C) == 0x08) {
+      return this.#reply(SW.FUNC_NOT_SUPPORTED);
+    }
+
+    const isPath = p1 == 0x01 || p1 == 0x02 || p1 == 0x08 || p1 == 0x09;
+
+    if ((p1 == 0x00 && data.length != 0 && data.length != 2) || (isPath && (data.length == 0 || data.length % 2 != 0))) {
+      return this.#reply(SW.LC_INCONSISTENT_WITH_P1P2);
+    }
+
+    let file: CardFile | undefined;
+
+    switch (p1) {
+      case 0x00:
+        file = (data.length == 0) ? this.mf : this.#findByFID((data[0] << 8) | data[1]);
+        break;
+
+      case 0x01:
+      case 0x02: {
+        const child = (data.length == 2) ? this.#currentDF.getChild((data[0] << 8) | data[1]) : undefined;
+
+        file = ((child instanceof DedicatedFile) == (p1 == 0x01)) ? child : undefined;
+        break;
+      }
+
+      case 0x03:
+        file = this.#currentDF.parent;
+        break;
+
+      case 0x04:
+        file = (data.length == 0) ? this.mf : this.#findByName(data);
+        break;
+
+      case 0x08:
+        file = this.#findByPath(this.mf, data);
+        break;
+
+      case 0x09:
+        file = this.#findByPath(this.#currentDF, data);
+        break;
+
+      default:
+        return this.#reply(SW.INCORRECT_P1P2);
+    }
+
+    if (file === undefined) {
+      return this.#reply(SW.FILE_NOT_FOUND);
+    }
+
+    if (file instanceof DedicatedFile) {
+      this.#currentDF = file;
+      this.#currentEF = undefined;
+    } else {
+      this.#currentDF = file.parent ?? this.mf;
+      this.#currentEF = file;
+    }
+
+    switch (p2 & 0x0C) {
+      case 0x00:
+        return this.#respond(command, new BerTLV(0x6F, file.fcpObjects).bytes);
+
+      case 0x04:
+        return this.#respond(command, file.fcp);
+
+      default:
+        return this.#reply(SW.SUCCESS);
+    }
+  }
+
+  /**
+   * Search the current DF, its children, its parent and its parent's children (siblings), or the MF
+   */
+  #findByFID(fid: number): CardFile | undefined {
+    const df = this.#currentDF;
+
+    if (fid == this.mf.fid) {
+      return this.mf;
+    }
+
+    return df.getChild(fid) ??
+      ((df.fid == fid) ? df : undefined) ??
+      ((df.parent?.fid == fid) ? df.parent : undefined) ??
+      df.parent?.getChild(fid);
+  }
+
+  /**
+   * First DF whose name starts with `name` (partial DF name)
+   */
+  #findByName(name: Uint8Array): DedicatedFile | undefined {
+    for (const df of this.mf.dedicatedFiles()) {
+      if (df.name !== undefined && df.name.length >= name.length && name.every((byte, index) => byte == df.name![index])) {
+        return df;
+      }
+    }
+
+    return undefined;
+  }
+
+  #findByPath(from: DedicatedFile, path: Uint8Array): CardFile | undefined {
+    let file: CardFile | undefined = from;
+
+    for (let offset = 0; offset < path.length; offset += 2) {
+      const fid = (path[offset] << 8) | path[offset + 1];
+
+      // tolerate a path from MF that includes the MF identifier
+      if (offset == 0 && from === this.mf && fid == this.mf.fid) {
+        continue;
+      }
+
+      file = (file instanceof DedicatedFile) ? file.getChild(fid) : undefined;
+    }
+
+    return file;
+  }
+
+  /**
+   * Target EF of a READ/UPDATE command - the EF referenced by `sfi` (which becomes the current EF),
+   * or the current EF
+   */
+  #targetEF(sfi?: number): CardFile | SW {
+    if (sfi !== undefined && sfi != 0) {
+      const file = this.#currentDF.getChildBySFI(sfi);
+
+      if (file === undefined) {
+        return SW.FILE_NOT_FOUND;
+      }
+
+      this.#currentEF = file;
+    }
+
+    // 6986: command not allowed (no current EF)
+    return this.#currentEF ?? SW.COMMAND_NOT_ALLOWED_AGAIN;
+  }
+
+  #isAllowed(condition: AccessCondition): boolean {
+    return condition == "always" || (condition != "never" && this.#verified.has(condition.pin));
+  }
+
+  /**
+   * Transparent EF and offset of a READ/UPDATE BINARY command
+   */
+  #binaryTarget(command: CommandAPDU, access: "read" | "update"): { file: TransparentFile; offset: number } | SW {
+    const { p1, p2 } = command;
+
+    if ((p1 & 0x80) && (p1 & 0x60)) {
+      return SW.INCORRECT_P1P2;
+    }
+
+    const [sfi, offset] = (p1 & 0x80) ? [p1 & 0x1F, p2] : [undefined, (p1 << 8) | p2];
+
+    const file = this.#targetEF(sfi);
+
+    if (typeof file == "number") {
+      return file;
+    }
+
+    if (!(file instanceof TransparentFile)) {
+      return SW.COMMAND_INCOMPATIBLE_WITH_FILE_STRUCTURE;
+    }
+
+    if (!this.#isAllowed(file[access])) {
+      return SW.SECURITY_STATUS_NOT_SATISFIED;
+    }
+
+    if (offset > file.data.length) {
+      return SW.WRONG_P1P2;
+    }
+
+    return { file, offset };
+  }
+
+  #readBinary(command: CommandAPDU): Uint8Array {
+    const target = this.#binaryTarget(command, "read");
+
+    if (typeof target == "number") {
+      return this.#reply(target);
+    }
+
+    const { file, offset } = target;
+
+    // Le=00: up to 256 bytes, as available
+    const data = file.data.slice(offset, offset + (command.le || 256));
+
+    return (command.le && data.length < command.le)
+      ? this.#reply(SW.END_FILE_REACHED_BEFORE_LE_BYTE, data)
+      : this.#reply(SW.SUCCESS, data);
+  }
+
+  #updateBinary(command: CommandAPDU): Uint8Array {
+    const data = command.data;
+
+    if (data === undefined || data.length == 0) {
+      return this.#reply(SW.WRONG_LENGTH);
+    }
+
+    const target = this.#binaryTarget(command, "update");
+
+    if (typeof target == "number") {
+      return this.#reply(target);
+    }
+
+    const { file, offset } = target;
+
+    if (offset + data.length > file.data.length) {
+      return this.#reply(SW.NOT_ENOUGH_SPACE_IN_FILE);
+    }
+
+    file.data.set(data, offset);
+
+    return this.#reply(SW.SUCCESS);
+  }
+
+  /**
+   * Record EF of a record command, with P2 = SFI (or 0, current EF) in bits 8-4
+   */
+  #recordTarget(command: CommandAPDU, access: "read" | "update"): RecordFile | SW {
+    const sfi = command.p2 >> 3;
+
+    if (sfi == 0x1F) {
+      return SW.INCORRECT_P1P2;
+    }
+
+    const file = this.#targetEF(sfi);
+
+    if (typeof file == "number") {
+      return file;
+    }
+
+    if (!(file instanceof RecordFile)) {
+      return SW.COMMAND_INCOMPATIBLE_WITH_FILE_STRUCTURE;
+    }
+
+    if (!this.#isAllowed(file[access])) {
+      return SW.SECURITY_STATUS_NOT_SATISFIED;
+    }
+
+    return file;
+  }
+
+  #readRecord(command: CommandAPDU): Uint8Array {
+    // record number in P1 only
+    if (command.p1 == 0x00 || (command.p2 & 0x07) != 0x04) {
+      return this.#reply(SW.INCORRECT_P1P2);
+    }
+
+    const file = this.#recordTarget(command, "read");
+
+    if (typeof file == "number") {
+      return this.#reply(file);
+    }
+
+    const record = file.records[command.p1 - 1];
+
+    if (record === undefined) {
+      return this.#reply(SW.RECORD_NOT_FOUND);
+    }
+
+    // wrong Le, with exact length
+    if (command.le && command.le != record.length) {
+      return this.#reply(0x6C00 | record.length);
+    }
+
+    return this.#reply(SW.SUCCESS, record);
+  }
+
+  #updateRecord(command: CommandAPDU): Uint8Array {
+    const data = command.data ?? new Uint8Array();
+
+    if (command.p1 == 0x00 || (command.p2 & 0x07) != 0x04) {
+      return this.#reply(SW.INCORRECT_P1P2);
+    }
+
+    const file = this.#recordTarget(command, "update");
+
+    if (typeof file == "number") {
+      return this.#reply(file);
+    }
+
+    if (command.p1 > file.records.length) {
+      return this.#reply(SW.RECORD_NOT_FOUND);
+    }
+
+    if (!file.isValidRecord(data)) {
+      return this.#reply(SW.WRONG_LENGTH);
+    }
+
+    file.records[command.p1 - 1] = data.slice();
+
+    return this.#reply(SW.SUCCESS);
+  }
+
+  #appendRecord(command: CommandAPDU): Uint8Array {
+    const data = command.data ?? new Uint8Array();
+
+    if (command.p1 != 0x00 || (command.p2 & 0x07) != 0x00) {
+      return this.#reply(SW.INCORRECT_P1P2);
+    }
+
+    const file = this.#recordTarget(command, "update");
+
+    if (typeof file == "number") {
+      return this.#reply(file);
+    }
+
+    if (!file.isValidRecord(data)) {
+      return this.#reply(SW.WRONG_LENGTH);
+    }
+
+    if (file.records.length >= file.maxRecords) {
+      return this.#reply(SW.NOT_ENOUGH_SPACE_IN_FILE);
+    }
+
+    file.records.push(data.slice());
+
+    return this.#reply(SW.SUCCESS);
+  }
+
+  #verify(command: CommandAPDU): Uint8Array {
+    const { p1, p2: reference } = command;
+    const data = command.data ?? new Uint8Array();
+
+    if (p1 != 0x00 && p1 != 0xFF) {
+      return this.#reply(SW.INCORRECT_P1P2);
+    }
+
+    const pin = this.#pins.get(reference);
+
+    if (pin === undefined) {
+      return this.#reply(SW.REFERENCED_DATA_NOT_FOUND);
+    }
+
+    // reset security status
+    if (p1 == 0xFF) {
+      this.#verified.delete(reference);
+
+      return this.#reply((data.length == 0) ? SW.SUCCESS : SW.WRONG_LENGTH);
+    }
+
+    // 6983: authentication method blocked
+    if (pin.retries == 0) {
+      return this.#reply(SW.FILE_INVALID);
+    }
+
+    // no data: query status
+    if (data.length == 0) {
+      return this.#reply(this.#verified.has(reference) ? SW.SUCCESS : 0x63C0 | pin.retries);
+    }
+
+    if (data.length == pin.value.length && data.every((byte, index) => byte == pin.value[index])) {
+      pin.retries = pin.maxRetries;
+      this.#verified.add(reference);
+
+      return this.#reply(SW.SUCCESS);
+    }
+
+    pin.retries--;
+    this.#verified.delete(reference);
+
+    return this.#reply((pin.retries == 0) ? SW.FILE_INVALID : 0x63C0 | pin.retries);
+  }
+}
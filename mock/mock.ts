@@ -0,0 +1,17 @@
+// Provider
+export { MockContextProvider } from './provider.ts';
+
+// Virtual hardware
+export { VirtualReader } from './virtual-reader.ts';
+export type { ControlHandler } from './virtual-reader.ts';
+export { VirtualCard } from './virtual-card.ts';
+export type { APDUResponder, VirtualCardOptions } from './virtual-card.ts';
+
+// Card simulators
+export { CardFile, DedicatedFile, FileSystemCard, RecordFile, TransparentFile } from './file-system-card.ts';
+export type { AccessCondition, CardFileOptions, FileSystemCardOptions, RecordFileOptions } from './file-system-card.ts';
+
+// Context
+export { MockContext } from './context.ts';
+export { MockReader } from './reader.ts';
+export { MockCard } from './card.ts';
@@ -0,0 +1,79 @@
+import { Scope } from '../pcsc/pcsc.ts';
+
+import { MockContext } from './context.ts';
+import { VirtualReader } from './virtual-reader.ts';
+import type { ContextProvider } from '../pcsc/context-provider.ts';
+
+/**
+ * In-memory PC/SC "daemon", managing virtual readers and cards, for tests without hardware.
+ *
+ * ```typescript
+ * const provider = new MockContextProvider();
+ * provider.addReader("Mock Reader 0").insertCard(new VirtualCard(atr).on(select, [0x90, 0x00]));
+ *
+ * ContextProvider.registerProvider(provider);
+ * ```
+ */
+export class MockContextProvider implements ContextProvider {
+  #readers: VirtualReader[] = [];
+  #listeners = new Set<() => void>();
+
+  readonly name: string = "Mock";
+
+  /**
+   * Plugged-in readers, in order of insertion
+   */
+  get readers(): VirtualReader[] {
+    return this.#readers.filter((reader) => reader.isPlugged);
+  }
+
+  getReader(name: string): VirtualReader | undefined {
+    return this.readers.find((reader) => reader.name == name);
+  }
+
+  /**
+   * Plug in a new reader
+   */
+  addReader(name: string): VirtualReader {
+    if (this.getReader(name)) {
+      throw new Error(`Reader ${name} already exists`);
+    }
+
+    const reader = new VirtualReader(name, () => this.#changed());
+
+    this.#readers = [...this.readers, reader];
+    this.#changed();
+
+    return reader;
+  }
+
+  /**
+   * Unplug a reader, equivalent to `VirtualReader.unplug`
+   */
+  removeReader(reader: VirtualReader | string) {
+    const virtualReader = (typeof reader == "string") ? this.getReader(reader) : reader;
+
+    virtualReader?.unplug();
+  }
+
+  establishContext(_scope?: Scope): MockContext {
+    return new MockContext(this);
+  }
+
+  /**
+   * Listen for changes to any reader, returns a function that removes the listener
+   */
+  onChange(listener: () => void): () => void {
+    this.#listeners.add(listener);
+
+    return () => {
+      this.#listeners.delete(listener);
+    };
+  }
+
+  #changed() {
+    for (const listener of Array.from(this.#listeners)) {
+      listener();
+    }
+  }
+}
@@ -0,0 +1,184 @@
+import { Disposition, DWORD, MAX_BUFFER_SIZE, Protocol, Reader, ShareMode, StateFlag, StateFlags } from '../pcsc/pcsc.ts';
+import { ReaderStatus, ReaderStatusChangeHandler } from '../pcsc/context.ts';
+import { StatusChangeHandlers } from '../pcsc/context-events.ts';
+import { AbortOptions, throwIfAborted, withAbort } from '../pcsc/abort.ts';
+
+import { ATR, BytesLike } from '../iso7816/iso7816.ts';
+
+import { MockContext } from './context.ts';
+import { MockCard } from './card.ts';
+import { VirtualReader } from './virtual-reader.ts';
+
+/**
+ * A `MockContext`'s view of a `VirtualReader`, with state as seen during most recent `waitForChange`
+ */
+export class MockReader implements Reader {
+  #state: StateFlags;
+  #atr: Uint8Array;
+  #status: ReaderStatus = "setup";
+  #handlers = new StatusChangeHandlers();
+
+  constructor(
+    public readonly context: MockContext,
+    public readonly virtualReader: VirtualReader,
+  ) {
+    this.#state = virtualReader.state;
+    this.#atr = virtualReader.card?.atr ?? new Uint8Array();
+  }
+
+  /**
+   * Reader state differs from that seen during most recent `waitForChange`
+   */
+  get hasChanged(): boolean {
+    return this.#status != "shutdown" && this.virtualReader.state != this.#state;
+  }
+
+  /**
+   * Accept current state of `VirtualReader`, and notify listeners of any change of status
+   */
+  updateState(notify = true) {
+    const event = this.virtualReader.state;
+    const status = this.#status;
+
+    this.#state = event;
+    this.#atr = this.virtualReader.card?.atr ?? new Uint8Array();
+
+    if (this.#status == "shutdown") {
+      // we're dead
+      return;
+    }
+
+    if (event & StateFlag.Present) {
+      if (event & StateFlag.Inuse) {
+        this.#status = "connected";
+      } else if (event & StateFlag.Mute) {
+        this.#status = "mute";
+      } else {
+        this.#status = "present";
+      }
+    } else if (event & StateFlag.Empty) {
+      this.#status = "empty";
+    }
+
+    if (notify && status != this.#status) {
+      try {
+        this.context.readerStatusChanged(this);
+      } finally {
+        this.#handlers.notify(this, this.status);
+      }
+    }
+  }
+
+  shutdown() {
+    this.#status = "shutdown";
+  }
+
+  get onStatusChange() {
+    return this.#handlers.primary;
+  }
+
+  set onStatusChange(handler: ReaderStatusChangeHandler | undefined) {
+    this.#handlers.primary = handler;
+
+    this.context.refreshMonitor();
+  }
+
+  addStatusChangeHandler(handler: ReaderStatusChangeHandler): () => void {
+    const remove = this.#handlers.add(handler);
+
+    this.context.refreshMonitor();
+
+    return () => {
+      remove();
+
+      this.context.refreshMonitor();
+    };
+  }
+
+  get hasStatusChangeHandlers(): boolean {
+    return this.#handlers.size > 0;
+  }
+
+  get name() {
+    return this.virtualReader.name;
+  }
+
+  get status(): ReaderStatus {
+    return this.#status;
+  }
+
+  async waitForChange(timeout: DWORD = 0, options?: AbortOptions): Promise<ReaderStatus | "no-change"> {
+    // Wait for a change on this reader ONLY.
+    const changed = await this.context.waitForChange([this], timeout, false, options);
+
+    return (changed.length == 1) ? this.status : "no-change";
+  }
+
+  get state(): StateFlags {
+    return this.#state;
+  }
+
+  get atr(): ATR | undefined {
+    return (this.isPresent && this.#atr.length > 0) ? ATR.from(this.#atr) : undefined;
+  }
+
+  get cardDescriptions(): string[] {
+    const atr = this.atr;
+
+    return (atr !== undefined) ? this.context.cardIdentifier.identify(atr) : [];
+  }
+
+  get isPresent(): boolean {
+    return (this.#state & StateFlag.Present) != 0;
+  }
+
+  get isConnected(): boolean {
+    return (this.#state & StateFlag.Inuse) != 0;
+  }
+
+  get isMute(): boolean {
+    return (this.#state & StateFlag.Mute) != 0;
+  }
+
+  connect(
+    shareMode = ShareMode.Shared,
+    supportedProtocols = Protocol.Any,
+    options?: AbortOptions,
+  ): Promise<MockCard> {
+    try {
+      throwIfAborted(options?.signal);
+
+      const connection = this.context.connect(this, shareMode, supportedProtocols);
+
+      this.#status = "connected";
+
+      return Promise.resolve(new MockCard(this, connection));
+    } catch (e) {
+      return Promise.reject(e);
+    }
+  }
+
+  /**
+   * Send a control command (IOCTL) to the reader, using a DIRECT connection.
+   * Does not require a card to be present.
+   */
+  control(ioctl: DWORD, data: BytesLike = [], expectedLen = MAX_BUFFER_SIZE, options?: AbortOptions): Promise<Uint8Array> {
+    return withAbort(async () => {
+      const connection = this.context.connect(this, ShareMode.Direct, Protocol.Undefined);
+
+      try {
+        return await connection.control(ioctl, BytesLike.toUint8Array(data), expectedLen);
+      } finally {
+        connection.disconnect(Disposition.LeaveCard);
+      }
+    }, options);
+  }
+
+  static isValidReader(reader: Reader): reader is MockReader {
+    return (reader instanceof MockReader);
+  }
+
+  static isValidReaders(readers: Reader[]): readers is MockReader[] {
+    return readers.every((reader) => MockReader.isValidReader(reader));
+  }
+}
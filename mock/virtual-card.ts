@@ -0,0 +1,138 @@
+import { Protocol } from '../pcsc/pcsc.ts';
+
+import { BytesLike, HEX } from '../iso7816/iso7816.ts';
+
+/**
+ * Scripted response to a command - a response APDU (DATA + SW), or `undefined` to let
+ * the following scripts (or `defaultResponse`) handle the command.
+ * A response that never resolves simulates a stuck card.
+ */
+export type APDUResponder = (
+  command: Uint8Array,
+  card: VirtualCard,
+) => BytesLike | undefined | Promise<BytesLike | undefined>;
+
+export interface VirtualCardOptions {
+  /** Protocol supported by card, default T=1 */
+  protocol?: Protocol;
+
+  /** Card does not answer to reset, default false */
+  isMute?: boolean;
+}
+
+interface APDUScript {
+  matches(command: Uint8Array): boolean;
+  responder: APDUResponder;
+}
+
+/**
+ * A virtual card, inserted into a `VirtualReader`.
+ *
+ * Commands are answered by scripts, in the order they were added, with `defaultResponse`
+ * (SW=6D00, INS not supported) when no script matches. Simulators override `handle` and `reset`.
+ */
+export class VirtualCard {
+  #scripts: APDUScript[] = [];
+  #resetCount = 0;
+
+  readonly atr: Uint8Array;
+
+  readonly protocol: Protocol;
+
+  readonly isMute: boolean;
+
+  /** Response to commands not handled by any script */
+  defaultResponse: Uint8Array = new Uint8Array([0x6D, 0x00]);
+
+  /** All commands received by card, in order */
+  readonly commands: Uint8Array[] = [];
+
+  constructor(atr: BytesLike, options: VirtualCardOptions = {}) {
+    this.atr = BytesLike.toUint8Array(atr).slice();
+    this.protocol = options.protocol ?? Protocol.T1;
+    this.isMute = options.isMute ?? false;
+  }
+
+  /**
+   * Number of times card has been reset (powered-up)
+   */
+  get resetCount(): number {
+    return this.#resetCount;
+  }
+
+  /**
+   * Respond to `command` - exact match, or when `mask` is supplied, any command whose first bytes
+   * match `command` once both are masked. eg. `00 A4 04 00` / `FF FF FF FF` matches any SELECT by DF name.
+   */
+  on(command: BytesLike, response: BytesLike | APDUResponder, mask?: BytesLike): this {
+    const expected = BytesLike.toUint8Array(command).slice();
+    const masks = (mask !== undefined) ? BytesLike.toUint8Array(mask).slice() : undefined;
+
+    if (masks !== undefined && masks.length != expected.length) {
+      throw new Error(`Mask length must match command: ${HEX.toString(expected)}`);
+    }
+
+    const matches = (masks === undefined)
+      ? (actual: Uint8Array) =>
+        actual.length == expected.length && actual.every((byte, index) => byte == expected[index])
+      : (actual: Uint8Array) =>
+        actual.length >= expected.length &&
+        expected.every((byte, index) => (byte & masks[index]) == (actual[index] & masks[index]));
+
+    this.#scripts.push({
+      matches,
+      responder: (typeof response == "function") ? response : () => response,
+    });
+
+    return this;
+  }
+
+  /**
+   * Respond to any command with `responder`, which may return `undefined` to pass the command on
+   */
+  onCommand(responder: APDUResponder): this {
+    this.#scripts.push({ matches: () => true, responder });
+
+    return this;
+  }
+
+  /**
+   * Remove all scripts
+   */
+  clearScripts() {
+    this.#scripts = [];
+  }
+
+  /**
+   * Process a command, returning the response APDU
+   */
+  async process(command: Uint8Array): Promise<Uint8Array> {
+    this.commands.push(command.slice());
+
+    for (const script of this.#scripts) {
+      if (script.matches(command)) {
+        const response = await script.responder(command, this);
+
+        if (response !== undefined) {
+          return BytesLike.toUint8Array(response);
+        }
+      }
+    }
+
+    return this.handle(command);
+  }
+
+  /**
+   * Handle a command not answered by any script, by default with `defaultResponse`
+   */
+  protected handle(_command: Uint8Array): Uint8Array | Promise<Uint8Array> {
+    return this.defaultResponse;
+  }
+
+  /**
+   * Power-up or warm reset. Connections made before the reset must reconnect.
+   */
+  reset() {
+    this.#resetCount++;
+  }
+}
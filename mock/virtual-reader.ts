@@ -0,0 +1,408 @@
+import {
+  Attribute,
+  CM_IOCTL_GET_FEATURE_REQUEST,
+  Disposition,
+  DWORD,
+  PCSCException,
+  Protocol,
+  SCARD_E_INSUFFICIENT_BUFFER,
+  SCARD_E_INVALID_HANDLE,
+  SCARD_E_NO_SMARTCARD,
+  SCARD_E_NOT_TRANSACTED,
+  SCARD_E_PROTO_MISMATCH,
+  SCARD_E_READER_UNAVAILABLE,
+  SCARD_E_SHARING_VIOLATION,
+  SCARD_E_UNSUPPORTED_FEATURE,
+  SCARD_W_REMOVED_CARD,
+  SCARD_W_RESET_CARD,
+  SCARD_W_UNRESPONSIVE_CARD,
+  ShareMode,
+  StateFlag,
+  StateFlags,
+} from '../pcsc/pcsc.ts';
+
+import { BytesLike } from '../iso7816/iso7816.ts';
+
+import { VirtualCard } from './virtual-card.ts';
+
+/**
+ * Handles reader control commands (IOCTL)
+ */
+export type ControlHandler = (ioctl: DWORD, data: Uint8Array) => BytesLike;
+
+/**
+ * A virtual reader, shared by all `MockContext`s of a `MockContextProvider` - the equivalent of
+ * a reader managed by the PC/SC daemon. Cards are inserted and removed, and the reader unplugged,
+ * by test code.
+ */
+export class VirtualReader {
+  #card?: VirtualCard;
+  #isPlugged = true;
+  #eventCount = 0;
+  #connections = new Set<VirtualConnection>();
+  #transaction?: VirtualConnection;
+  #transactionWaiters: (() => void)[] = [];
+  #onChange: () => void;
+
+  /** Attributes returned by `Card.getAttribute`, in addition to `Attribute.AtrString` */
+  readonly attributes = new Map<Attribute, Uint8Array>();
+
+  /** Reader control commands (IOCTL), by default a reader without PC/SC Part 10 features */
+  onControl: ControlHandler = (ioctl) => {
+    if (ioctl == CM_IOCTL_GET_FEATURE_REQUEST) {
+      return [];
+    }
+
+    throw new PCSCException(SCARD_E_UNSUPPORTED_FEATURE, "SCardControl");
+  };
+
+  constructor(public readonly name: string, onChange: () => void) {
+    this.#onChange = onChange;
+  }
+
+  get card(): VirtualCard | undefined {
+    return this.#card;
+  }
+
+  get isPlugged(): boolean {
+    return this.#isPlugged;
+  }
+
+  /**
+   * PC/SC reader state, with a count of card insertions/removals in the high word (as pcsc-lite)
+   */
+  get state(): StateFlags {
+    if (!this.#isPlugged) {
+      return StateFlag.Unknown | StateFlag.Unavailable;
+    }
+
+    let state: number = StateFlag.Empty;
+
+    if (this.#card) {
+      state = StateFlag.Present;
+
+      if (this.#card.isMute) {
+        state |= StateFlag.Mute;
+      }
+
+      const connections = Array.from(this.#connections).filter((connection) => connection.shareMode != ShareMode.Direct);
+
+      if (connections.length > 0) {
+        state |= StateFlag.Inuse;
+      }
+
+      if (connections.some((connection) => connection.shareMode == ShareMode.Exclusive)) {
+        state |= StateFlag.Exclusive;
+      }
+    }
+
+    return (state | (this.#eventCount << 16)) >>> 0;
+  }
+
+  /**
+   * Insert a card, which is powered-up unless mute
+   */
+  insertCard(card: VirtualCard): this {
+    this.#checkPlugged("insertCard");
+
+    if (this.#card) {
+      throw new Error(`Reader ${this.name} already has a card`);
+    }
+
+    this.#card = card;
+
+    if (!card.isMute) {
+      card.reset();
+    }
+
+    this.#eventCount++;
+    this.changed();
+
+    return this;
+  }
+
+  /**
+   * Remove card, if any. Connections to the card fail with `SCARD_W_REMOVED_CARD`.
+   */
+  removeCard(): VirtualCard | undefined {
+    const card = this.#card;
+
+    if (card) {
+      this.#card = undefined;
+
+      this.#releaseTransaction();
+
+      this.#eventCount++;
+      this.changed();
+    }
+
+    return card;
+  }
+
+  /**
+   * Unplug reader. Connections fail with `SCARD_E_READER_UNAVAILABLE`.
+   */
+  unplug() {
+    if (this.#isPlugged) {
+      this.#isPlugged = false;
+      this.#card = undefined;
+      this.#connections.clear();
+
+      this.#releaseTransaction();
+
+      this.changed();
+    }
+  }
+
+  /**
+   * Connect to card, or directly to reader (`ShareMode.Direct`)
+   */
+  connect(shareMode: ShareMode, protocols: Protocol): VirtualConnection {
+    this.#checkPlugged("SCardConnect");
+
+    const connections = Array.from(this.#connections);
+
+    if (shareMode != ShareMode.Direct) {
+      const card = this.#card;
+
+      if (!card) {
+        throw new PCSCException(SCARD_E_NO_SMARTCARD, "SCardConnect");
+      }
+
+      if (card.isMute) {
+        throw new PCSCException(SCARD_W_UNRESPONSIVE_CARD, "SCardConnect");
+      }
+
+      if ((card.protocol & protocols) == 0) {
+        throw new PCSCException(SCARD_E_PROTO_MISMATCH, "SCardConnect");
+      }
+
+      if (
+        connections.some((connection) => connection.shareMode == ShareMode.Exclusive) ||
+        (shareMode == ShareMode.Exclusive && connections.some((connection) => connection.shareMode != ShareMode.Direct))
+      ) {
+        throw new PCSCException(SCARD_E_SHARING_VIOLATION, "SCardConnect");
+      }
+    }
+
+    const connection = new VirtualConnection(this, shareMode);
+
+    this.#connections.add(connection);
+    this.changed();
+
+    return connection;
+  }
+
+  /**
+   * Called by `VirtualConnection` on disconnect
+   */
+  release(connection: VirtualConnection) {
+    if (this.#connections.delete(connection)) {
+      if (this.#transaction === connection) {
+        this.#releaseTransaction();
+      }
+
+      this.changed();
+    }
+  }
+
+  /**
+   * Wait until no other connection holds a transaction
+   */
+  async beginTransaction(connection: VirtualConnection): Promise<void> {
+    while (this.#transaction !== undefined && this.#transaction !== connection) {
+      await new Promise<void>((resolve) => this.#transactionWaiters.push(resolve));
+    }
+
+    // card may have been removed while waiting
+    connection.check("SCardBeginTransaction");
+
+    this.#transaction = connection;
+  }
+
+  endTransaction(connection: VirtualConnection) {
+    if (this.#transaction !== connection) {
+      throw new PCSCException(SCARD_E_NOT_TRANSACTED, "SCardEndTransaction");
+    }
+
+    this.#releaseTransaction();
+  }
+
+  /**
+   * Notify contexts of a change in reader state
+   */
+  changed() {
+    this.#onChange();
+  }
+
+  #releaseTransaction() {
+    this.#transaction = undefined;
+
+    this.#transactionWaiters.splice(0).forEach((resolve) => resolve());
+  }
+
+  #checkPlugged(func: string) {
+    if (!this.#isPlugged) {
+      throw new PCSCException(SCARD_E_READER_UNAVAILABLE, func);
+    }
+  }
+}
+
+/**
+ * A connection to a `VirtualReader` - the equivalent of a PC/SC `SCARDHANDLE`
+ */
+export class VirtualConnection {
+  #card?: VirtualCard;
+  #resetCount = 0;
+  #isOpen = true;
+
+  readonly protocol: Protocol;
+
+  constructor(public readonly reader: VirtualReader, public readonly shareMode: ShareMode) {
+    this.#card = reader.card;
+    this.#resetCount = this.#card?.resetCount ?? 0;
+
+    this.protocol = (shareMode == ShareMode.Direct) ? Protocol.Undefined : (this.#card?.protocol ?? Protocol.Undefined);
+  }
+
+  get isOpen(): boolean {
+    return this.#isOpen;
+  }
+
+  /**
+   * Check connection to card is still valid, returning card
+   */
+  check(func: string): VirtualCard {
+    if (!this.#isOpen) {
+      throw new PCSCException(SCARD_E_INVALID_HANDLE, func);
+    }
+
+    if (!this.reader.isPlugged) {
+      throw new PCSCException(SCARD_E_READER_UNAVAILABLE, func);
+    }
+
+    const card = this.reader.card;
+
+    if (!card || card !== this.#card) {
+      throw new PCSCException(SCARD_W_REMOVED_CARD, func);
+    }
+
+    if (card.resetCount != this.#resetCount) {
+      throw new PCSCException(SCARD_W_RESET_CARD, func);
+    }
+
+    return card;
+  }
+
+  async transmit(command: Uint8Array, maxResponseLen: number): Promise<Uint8Array> {
+    const card = this.check("SCardTransmit");
+
+    const response = await card.process(command);
+
+    if (response.length > maxResponseLen) {
+      throw new PCSCException(SCARD_E_INSUFFICIENT_BUFFER, "SCardTransmit");
+    }
+
+    return response;
+  }
+
+  control(ioctl: DWORD, data: Uint8Array, maxResponseLen: number): Uint8Array {
+    if (!this.#isOpen) {
+      throw new PCSCException(SCARD_E_INVALID_HANDLE, "SCardControl");
+    }
+
+    if (!this.reader.isPlugged) {
+      throw new PCSCException(SCARD_E_READER_UNAVAILABLE, "SCardControl");
+    }
+
+    const response = BytesLike.toUint8Array(this.reader.onControl(ioctl, data));
+
+    if (response.length > maxResponseLen) {
+      throw new PCSCException(SCARD_E_INSUFFICIENT_BUFFER, "SCardControl");
+    }
+
+    return response;
+  }
+
+  getAttribute(attr: Attribute): Uint8Array {
+    const card = this.check("SCardGetAttrib");
+
+    const value = (attr == Attribute.AtrString) ? card.atr : this.reader.attributes.get(attr);
+
+    if (value === undefined) {
+      throw new PCSCException(SCARD_E_UNSUPPORTED_FEATURE, "SCardGetAttrib");
+    }
+
+    return value.slice();
+  }
+
+  setAttribute(attr: Attribute, value: Uint8Array) {
+    this.check("SCardSetAttrib");
+
+    this.reader.attributes.set(attr, value.slice());
+  }
+
+  /**
+   * Reconnect, resetting card according to `initialization`. Also acknowledges
+   * a reset by another connection.
+   */
+  reconnect(protocols: Protocol, initialization: Disposition): Protocol {
+    if (!this.#isOpen) {
+      throw new PCSCException(SCARD_E_INVALID_HANDLE, "SCardReconnect");
+    }
+
+    const card = this.reader.card;
+
+    if (!card || card !== this.#card) {
+      throw new PCSCException(SCARD_W_REMOVED_CARD, "SCardReconnect");
+    }
+
+    if ((card.protocol & protocols) == 0) {
+      throw new PCSCException(SCARD_E_PROTO_MISMATCH, "SCardReconnect");
+    }
+
+    if (initialization != Disposition.LeaveCard) {
+      card.reset();
+    }
+
+    this.#resetCount = card.resetCount;
+
+    this.reader.changed();
+
+    return card.protocol;
+  }
+
+  disconnect(disposition: Disposition) {
+    if (!this.#isOpen) {
+      return;
+    }
+
+    this.#isOpen = false;
+
+    if (disposition != Disposition.LeaveCard && this.reader.card === this.#card) {
+      this.#card?.reset();
+    }
+
+    this.reader.release(this);
+  }
+
+  beginTransaction(): Promise<void> {
+    this.check("SCardBeginTransaction");
+
+    return this.reader.beginTransaction(this);
+  }
+
+  endTransaction(disposition: Disposition) {
+    if (!this.#isOpen) {
+      throw new PCSCException(SCARD_E_INVALID_HANDLE, "SCardEndTransaction");
+    }
+
+    this.reader.endTransaction(this);
+
+    if (disposition != Disposition.LeaveCard) {
+      this.check("SCardEndTransaction").reset();
+
+      this.#resetCount = this.#card?.resetCount ?? 0;
+    }
+  }
+}
@@ -0,0 +1,490 @@
+import { BerTLV, BytesLike, ClassByte, CommandAPDU, HEX, INS, ResponseAPDU, SmartCardException, SW } from '../iso7816/iso7816.ts';
+
+/**
+ * Access to a Secure Element applet denied by GlobalPlatform SE Access Control rules
+ */
+export class SecurityError extends Error {
+}
+
+/**
+ * APDU filter: command is allowed when `(header & mask) == (filter.header & mask)`,
+ * where header is CLA (channel bits cleared), INS, P1 and P2
+ */
+export interface APDUFilter {
+  header: Uint8Array;
+  mask: Uint8Array;
+}
+
+/**
+ * APDU access: `true` (always), `false` (never) or a list of allowed APDU filters
+ */
+export type APDUAccess = boolean | APDUFilter[];
+
+/**
+ * Access rule, as read from ARA-M (REF-AR-DO) or ARF (ACRF + ACCF)
+ */
+export interface AccessRule {
+  /** Target applet: AID, `default` (implicitly selected applet) or `all` applets */
+  applet: Uint8Array | "default" | "all";
+
+  /** Certificate hash (SHA-1 or SHA-256) of device application, or `undefined` for all device applications */
+  certificateHash?: Uint8Array;
+
+  apdu: APDUAccess;
+}
+
+/**
+ * Transmit function, used to read rules from the Secure Element
+ */
+export type RuleTransmit = (command: CommandAPDU) => Promise<ResponseAPDU>;
+
+/** GlobalPlatform Access Rule Application Master */
+export const ARA_M_AID = HEX.parse("A0 00 00 01 51 41 43 4C 00");
+
+/** PKCS#15 application, containing ARF */
+export const PKCS15_AID = HEX.parse("A0 00 00 00 63 50 4B 43 53 2D 31 35");
+
+/** OID 1.2.840.114283.200.1.1, identifying ACMF in DODF */
+const ACMF_OID = HEX.parse("2A 86 48 86 FC 6B 81 48 01 01");
+
+enum AccessRuleTag {
+  ResponseAllRefArDo = 0xFF40,
+  RefArDo = 0xE2,
+  RefDo = 0xE1,
+  ArDo = 0xE3,
+  AidRefDo = 0x4F,
+  ImplicitAidRefDo = 0xC0,
+  DeviceAppIdRefDo = 0xC1,
+  ApduArDo = 0xD0,
+}
+
+/**
+ * GlobalPlatform Secure Element Access Control rules, read from ARA-M or, failing that, from ARF (PKCS#15)
+ */
+export class AccessRules {
+  constructor(
+    public readonly rules: AccessRule[],
+    public readonly source: "ARA-M" | "ARF" | "none",
+  ) {
+  }
+
+  /**
+   * Read rules from ARA-M or, if absent, from ARF. If neither is present, all access is denied.
+   */
+  static async read(transmit: RuleTransmit): Promise<AccessRules> {
+    const araRules = await readARAMRules(transmit);
+
+    if (araRules !== undefined) {
+      return new AccessRules(araRules, "ARA-M");
+    }
+
+    const arfRules = await readARFRules(transmit);
+
+    if (arfRules !== undefined) {
+      return new AccessRules(arfRules, "ARF");
+    }
+
+    return new AccessRules([], "none");
+  }
+
+  /**
+   * Parse response to ARA-M GET DATA (ALL): Response-ALL-REF-AR-DO (FF40) containing REF-AR-DOs
+   */
+  static parseARAM(data: BytesLike): AccessRule[] {
+    const all = parseTLVs(data).find((tlv) => tlv.tag == AccessRuleTag.ResponseAllRefArDo);
+
+    if (!all) {
+      throw new SmartCardException("ARA-M: Invalid Response-ALL-REF-AR-DO");
+    }
+
+    return parseTLVs(all.value)
+      .filter((tlv) => tlv.tag == AccessRuleTag.RefArDo)
+      .map((refArDo) => {
+        const refDo = parseTLVs(findTLV(refArDo.value, AccessRuleTag.RefDo) ?? []);
+        const apdu = findTLV(refArDo.value, AccessRuleTag.ArDo, AccessRuleTag.ApduArDo);
+
+        const aid = refDo.find((tlv) => tlv.tag == AccessRuleTag.AidRefDo);
+        const hash = refDo.find((tlv) => tlv.tag == AccessRuleTag.DeviceAppIdRefDo);
+
+        let applet: AccessRule["applet"] = "all";
+        if (refDo.some((tlv) => tlv.tag == AccessRuleTag.ImplicitAidRefDo)) {
+          applet = "default";
+        } else if (aid && aid.len > 0) {
+          applet = aid.value;
+        }
+
+        return {
+          applet,
+          certificateHash: (hash && hash.len > 0) ? hash.value : undefined,
+          apdu: (apdu === undefined) ? false : parseAPDUAccess(apdu),
+        };
+      });
+  }
+
+  /**
+   * Parse ARF Access Control Conditions File (ACCF) for `applet`. Each condition is a SEQUENCE of an optional
+   * certificate hash (04) and optional access rules (A0). An empty ACCF denies all access to `applet`.
+   */
+  static parseACCF(accf: BytesLike, applet: AccessRule["applet"]): AccessRule[] {
+    const conditions = parseTLVs(accf).filter((tlv) => tlv.tag == 0x30);
+
+    if (conditions.length == 0) {
+      return [{ applet, apdu: false }];
+    }
+
+    return conditions.map((condition) => {
+      const hash = findTLV(condition.value, 0x04);
+      const apduRule = findTLV(condition.value, 0xA0, 0xA0);
+
+      // no access rules: full APDU access
+      let apdu: APDUAccess = true;
+
+      if (apduRule !== undefined) {
+        const permission = findTLV(apduRule, 0x80);
+        const filters = findTLV(apduRule, 0xA1);
+
+        if (permission !== undefined) {
+          apdu = permission[0] != 0x00;
+        } else if (filters !== undefined) {
+          apdu = parseTLVs(filters)
+            .filter((tlv) => tlv.tag == 0x04)
+            .flatMap((tlv) => parseAPDUFilters(tlv.value));
+        }
+      }
+
+      return {
+        applet,
+        certificateHash: (hash && hash.length > 0) ? hash : undefined,
+        apdu,
+      };
+    });
+  }
+
+  /**
+   * Resolve APDU access of device application identified by `certificateHash` to applet `aid`
+   * (empty for default applet). Rules for a specific applet take precedence over rules for all applets,
+   * and rules for a specific certificate hash over rules for all device applications. NEVER takes
+   * precedence over ALWAYS, which takes precedence over APDU filters.
+   */
+  apduAccess(aid: Uint8Array, certificateHash: Uint8Array): APDUAccess {
+    const appletRules = this.rules.filter((rule) =>
+      (aid.length == 0) ? rule.applet == "default" : (rule.applet instanceof Uint8Array && equals(rule.applet, aid))
+    );
+
+    const rules = (appletRules.length > 0) ? appletRules : this.rules.filter((rule) => rule.applet == "all");
+
+    const hashRules = rules.filter((rule) => rule.certificateHash && equals(rule.certificateHash, certificateHash));
+    const matching = (hashRules.length > 0) ? hashRules : rules.filter((rule) => rule.certificateHash === undefined);
+
+    if (matching.length == 0 || matching.some((rule) => rule.apdu === false)) {
+      return false;
+    }
+
+    if (matching.some((rule) => rule.apdu === true)) {
+      return true;
+    }
+
+    return matching.flatMap((rule) => rule.apdu as APDUFilter[]);
+  }
+
+  /**
+   * Returns APDU access to applet `aid`, or throws `SecurityError` if device application may not open a channel
+   */
+  checkOpen(aid: Uint8Array, certificateHash: Uint8Array): APDUAccess {
+    const access = this.apduAccess(aid, certificateHash);
+
+    if (access === false || (Array.isArray(access) && access.length == 0)) {
+      throw new SecurityError(`Access denied to applet ${aid.length ? HEX.toString(aid) : "(default)"}`);
+    }
+
+    return access;
+  }
+
+  /**
+   * Returns true if `command` is allowed by `access`
+   */
+  static isAllowed(access: APDUAccess, command: CommandAPDU): boolean {
+    if (typeof access == "boolean") {
+      return access;
+    }
+
+    const header = [ClassByte.withChannel(command.cla, 0), command.ins, command.p1, command.p2];
+
+    return access.some((filter) =>
+      header.every((byte, index) => (byte & filter.mask[index]) == (filter.header[index] & filter.mask[index]))
+    );
+  }
+}
+
+/**
+ * AID of the applet selected by SELECT by DF name: the DF name (84) of the FCI (6F) returned
+ * by the applet, or the `aid` requested if the FCI does not include it
+ */
+export function selectedAID(selectResponse: BytesLike, aid: Uint8Array): Uint8Array {
+  return findTLV(selectResponse, 0x6F, 0x84) ?? aid;
+}
+
+/**
+ * Read ARA-M rules, or `undefined` if ARA-M is not present
+ */
+export async function readARAMRules(transmit: RuleTransmit): Promise<AccessRule[] | undefined> {
+  const select = await transmit(new CommandAPDU(0x00, INS.SelectFile, 0x04, 0x00, ARA_M_AID, 256, {
+    description: "SELECT ARA-M",
+  }));
+
+  if (select.SW != SW.SUCCESS) {
+    return undefined;
+  }
+
+  let response = await transmit(new CommandAPDU(0x80, INS.GetData, 0xFF, 0x40, undefined, 256, {
+    description: "GET DATA (ALL)",
+  }));
+
+  if (response.SW == SW.REFERENCED_DATA_NOT_FOUND) {
+    return [];
+  }
+
+  if (response.SW != SW.SUCCESS) {
+    throw new SmartCardException(`ARA-M: GET DATA (ALL) failed, SW=${response.SW.toString(16)}`);
+  }
+
+  let data = response.data;
+  const header = BerTLV.parse(data, "tag-len");
+
+  if (header?.valueOffset === undefined || header.len === undefined) {
+    throw new SmartCardException("ARA-M: Invalid Response-ALL-REF-AR-DO");
+  }
+
+  const total = header.valueOffset + header.len;
+
+  // rules larger than a single response are retrieved with GET DATA (NEXT)
+  while (data.length < total) {
+    response = await transmit(new CommandAPDU(0x80, INS.GetData, 0xFF, 0x60, undefined, 256, {
+      description: "GET DATA (NEXT)",
+    }));
+
+    if (response.SW != SW.SUCCESS || response.La == 0) {
+      throw new SmartCardException(`ARA-M: GET DATA (NEXT) failed, SW=${response.SW.toString(16)}`);
+    }
+
+    data = concat(data, response.data);
+  }
+
+  return AccessRules.parseARAM(data);
+}
+
+/**
+ * Read ARF rules from PKCS#15 application: ODF -> DODF -> ACMF -> ACRF -> ACCF.
+ * Returns `undefined` if PKCS#15 application or ACMF is not present.
+ */
+export async function readARFRules(transmit: RuleTransmit): Promise<AccessRule[] | undefined> {
+  const select = await transmit(new CommandAPDU(0x00, INS.SelectFile, 0x04, 0x00, PKCS15_AID, 256, {
+    description: "SELECT PKCS#15",
+  }));
+
+  if (select.SW != SW.SUCCESS) {
+    return undefined;
+  }
+
+  // ODF: paths to DODF(s), tag A7
+  const odf = await readFile(transmit, new Uint8Array([0x50, 0x31]));
+  const dodfPaths = parseTLVs(odf ?? [])
+    .filter((tlv) => tlv.tag == 0xA7)
+    .flatMap((tlv) => findTLV(tlv.value, 0x30, 0x04) ?? []);
+
+  for (const dodfPath of dodfPaths) {
+    const dodf = await readFile(transmit, dodfPath);
+    const acmfPath = dodf && findACMFPath(parseTLVs(dodf));
+
+    if (acmfPath) {
+      // ACMF: SEQUENCE { refresh tag, SEQUENCE { path to ACRF } }
+      const acmf = await readFile(transmit, acmfPath);
+      const acrfPath = acmf && findTLV(acmf, 0x30, 0x30, 0x04);
+
+      if (!acrfPath) {
+        throw new SmartCardException("ARF: Invalid ACMF");
+      }
+
+      // ACRF: SEQUENCE { target applet, SEQUENCE { path to ACCF } } per rule
+      const acrf = await readFile(transmit, acrfPath) ?? new Uint8Array();
+      const rules: AccessRule[] = [];
+
+      for (const entry of parseTLVs(acrf).filter((tlv) => tlv.tag == 0x30)) {
+        const [target] = parseTLVs(entry.value);
+        const accfPath = findTLV(entry.value, 0x30, 0x04);
+
+        let applet: AccessRule["applet"] = "all";
+        if (target?.tag == 0xA0) {
+          applet = findTLV(target.value, 0x04) ?? new Uint8Array();
+        } else if (target?.tag == 0x81) {
+          applet = "default";
+        }
+
+        const accf = accfPath && await readFile(transmit, accfPath);
+
+        rules.push(...AccessRules.parseACCF(accf ?? new Uint8Array(), applet));
+      }
+
+      return rules;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * APDU-AR-DO: `00` = never, `01` = always, otherwise list of 8-byte filters (header + mask)
+ */
+function parseAPDUAccess(value: Uint8Array): APDUAccess {
+  if (value.length == 1) {
+    return value[0] == 0x01;
+  }
+
+  return parseAPDUFilters(value);
+}
+
+function parseAPDUFilters(value: Uint8Array): APDUFilter[] {
+  const filters: APDUFilter[] = [];
+
+  for (let off = 0; off + 8 <= value.length; off += 8) {
+    filters.push({ header: value.slice(off, off + 4), mask: value.slice(off + 4, off + 8) });
+  }
+
+  return filters;
+}
+
+/**
+ * Find path to ACMF in DODF: an OidDO containing ACMF OID (06) followed by a path (30 { 04 })
+ */
+function findACMFPath(tlvs: BerTLV[]): Uint8Array | undefined {
+  for (const tlv of tlvs) {
+    if (isConstructed(tlv.tag)) {
+      const children = parseTLVs(tlv.value);
+      const oid = children.find((child) => child.tag == 0x06);
+
+      if (oid && equals(oid.value, ACMF_OID)) {
+        return findTLV(tlv.value, 0x30, 0x04);
+      }
+
+      const path = findACMFPath(children);
+
+      if (path) {
+        return path;
+      }
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Select file by path (absolute from MF 3F00, or relative to current DF) and read it's content
+ * with READ BINARY. Returns `undefined` if file is not found.
+ */
+async function readFile(transmit: RuleTransmit, path: Uint8Array): Promise<Uint8Array | undefined> {
+  let select: ResponseAPDU | undefined;
+
+  if (path.length > 2 && path[0] == 0x3F && path[1] == 0x00) {
+    select = await transmit(new CommandAPDU(0x00, INS.SelectFile, 0x08, 0x04, path.slice(2), 256, {
+      description: "SELECT (path)",
+    }));
+  } else {
+    for (let off = 0; off + 2 <= path.length; off += 2) {
+      select = await transmit(new CommandAPDU(0x00, INS.SelectFile, 0x00, 0x04, path.slice(off, off + 2), 256, {
+        description: "SELECT (FID)",
+      }));
+
+      if (select.SW != SW.SUCCESS) {
+        break;
+      }
+    }
+  }
+
+  if (select?.SW != SW.SUCCESS) {
+    return undefined;
+  }
+
+  // file size from FCP, if present
+  const size = findTLV(select.data, 0x62, 0x80);
+  const fileSize = (size?.length) ? size.reduce((acc, byte) => (acc << 8) | byte, 0) : undefined;
+
+  let content: Uint8Array = new Uint8Array();
+
+  while (fileSize === undefined || content.length < fileSize) {
+    const chunk = Math.min((fileSize ?? 0x7FFF) - content.length, 256);
+    const response = await transmit(
+      new CommandAPDU(0x00, INS.ReadBinary, (content.length >> 8) & 0x7F, content.length & 0xFF, undefined, chunk, {
+        description: "READ BINARY",
+      }),
+    );
+
+    if (response.SW != SW.SUCCESS || response.La == 0) {
+      break;
+    }
+
+    content = concat(content, response.data);
+
+    if (response.La < chunk) {
+      break;
+    }
+  }
+
+  return content;
+}
+
+/**
+ * Parse a list of BER-TLVs, ignoring any trailing padding
+ */
+function parseTLVs(data: BytesLike): BerTLV[] {
+  const buffer = BytesLike.toUint8Array(data);
+  const tlvs: BerTLV[] = [];
+  let off = 0;
+
+  while (off < buffer.length && !(buffer[off] == 0xFF && buffer[off + 1] == 0xFF)) {
+    const tlv = BerTLV.parse(buffer.subarray(off));
+
+    if (tlv?.tag === undefined || tlv.value === undefined) {
+      break;
+    }
+
+    tlvs.push(new BerTLV(tlv.tag, tlv.value));
+
+    off += tlv.valueOffset! + tlv.len!;
+  }
+
+  return tlvs;
+}
+
+/**
+ * Value of first TLV matching `tags`, descending into constructed TLVs
+ */
+function findTLV(data: BytesLike, ...tags: number[]): Uint8Array | undefined {
+  let value: Uint8Array | undefined = BytesLike.toUint8Array(data);
+
+  for (const tag of tags) {
+    value = parseTLVs(value).find((tlv) => tlv.tag == tag)?.value;
+
+    if (value === undefined) {
+      break;
+    }
+  }
+
+  return value;
+}
+
+function isConstructed(tag: number): boolean {
+  return (((tag > 0xFF) ? (tag >> 8) : tag) & 0x20) != 0;
+}
+
+function equals(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length == b.length && a.every((byte, index) => byte == b[index]);
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const buffer = new Uint8Array(a.length + b.length);
+
+  buffer.set(a, 0);
+  buffer.set(b, a.length);
+
+  return buffer;
+}
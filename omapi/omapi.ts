@@ -1,4 +1,4 @@
-enum EventType {
+export enum EventType {
   Error = 0x1001,
 
   CardInserted = 0x2001,
@@ -1,21 +1,51 @@
 import * as OMAPI from '../omapi/omapi.ts';
 
-import { CommandAPDU, ResponseAPDU } from '../iso7816/apdu.ts';
+import { BytesLike, CLA, ClassByte, CommandAPDU, HEX, INS, ResponseAPDU, SmartCardException, SW } from '../iso7816/iso7816.ts';
 import { Card, Context, Reader as PCSCReader } from '../pcsc/context.ts';
+import { ContextEvent } from '../pcsc/context-events.ts';
+import { Disposition } from '../pcsc/scard.ts';
+import { LogicalChannel } from '../pcsc/logical-channel.ts';
+import { AccessRules, APDUAccess, SecurityError, selectedAID } from './access-control.ts';
+import { ContextProvider } from '../pcsc/context-provider.ts';
+
+export interface SEServiceOptions {
+  /**
+   * Certificate hash (SHA-1 or SHA-256) identifying the calling application. When set,
+   * GlobalPlatform SE Access Control rules are enforced on all channels.
+   */
+  certificateHash?: BytesLike;
+}
 
+/**
+ * OMAPI `SEService`, exposing the readers of one or more PC/SC `Context`s.
+ *
+ * When no context is supplied, a context is established using the registered `ContextProvider`
+ * and released on `shutdown`.
+ *
+ * Untrusted callers must be identified with `options.certificateHash`, so that access to applets is
+ * restricted according to the Secure Element's access control rules (ARA-M or ARF).
+ */
 export class SEService implements OMAPI.SEService {
   #contexts: Context[] = [];
-  #readers: Reader[] = [];
+  #ownsContexts: boolean;
+  #readers = new Map<PCSCReader, Reader>();
+  #handlers = new Set<(event: OMAPI.ReaderEvent) => void>();
+  #eventStreams: AsyncIterator<ContextEvent>[] = [];
+  #monitors: Promise<void>[] = [];
+
+  readonly certificateHash?: Uint8Array;
 
   isConnected = true;
 
-  constructor(contexts?: Context[]) {
-    if (contexts === undefined) {
-      contexts = [];
+  constructor(contexts?: Context[], options: SEServiceOptions = {}) {
+    if (options.certificateHash !== undefined) {
+      this.certificateHash = BytesLike.toUint8Array(options.certificateHash);
+    }
 
-      if (typeof Deno !== "undefined") {
-        //
-      }
+    this.#ownsContexts = (contexts === undefined);
+
+    if (contexts === undefined) {
+      contexts = [ContextProvider.establishContext()];
     }
 
     this.#contexts = contexts;
@@ -23,39 +53,164 @@ export class SEService implements OMAPI.SEService {
     this.#setup();
   }
 
-  onReaderEvent(_handler: (event: OMAPI.ReaderEvent) => void): () => void {
+  onReaderEvent(handler: (event: OMAPI.ReaderEvent) => void): () => void {
+    this.#handlers.add(handler);
+
     return () => {
+      this.#handlers.delete(handler);
     };
   }
 
   getReaders(): Promise<OMAPI.Reader[]> {
-    throw new Error("Method not implemented.");
+    if (!this.isConnected) {
+      return Promise.reject(new SmartCardException("SEService is not connected"));
+    }
+
+    for (const context of this.#contexts) {
+      this.#addReaders(context.listReaders());
+    }
+
+    return Promise.resolve(Array.from(this.#readers.values()));
   }
 
-  shutdown(): Promise<void> {
-    this.#teardown;
+  async shutdown(): Promise<void> {
+    if (!this.isConnected) {
+      return;
+    }
+
+    this.isConnected = false;
+
+    for (const reader of this.#readers.values()) {
+      await reader.closeAllSessions().catch(() => {});
+    }
+
+    for (const events of this.#eventStreams) {
+      await events.return?.();
+    }
 
-    return Promise.resolve();
+    await Promise.all(this.#monitors);
+
+    await this.#teardown();
+  }
+
+  /**
+   * Dispatch event to service handlers, then to handlers of the event's reader
+   */
+  emit(event: OMAPI.ReaderEvent) {
+    for (const handler of this.#handlers) {
+      handler(event);
+    }
+
+    (event.reader as Reader).emit(event);
   }
 
   #setup() {
+    for (const context of this.#contexts) {
+      // readers present at startup are not "inserted"
+      this.#addReaders(context.listReaders());
+
+      const events = context.events()[Symbol.asyncIterator]();
+
+      this.#eventStreams.push(events);
+      this.#monitors.push(this.#monitor(events));
+    }
   }
 
-  #handleReaderInserted() {
-    this.#readers.push(new Reader(this, null as any as PCSCReader));
+  /**
+   * Map context events to OMAPI reader events, until shutdown
+   */
+  async #monitor(events: AsyncIterator<ContextEvent>) {
+    try {
+      while (this.isConnected) {
+        const { value: event, done } = await events.next();
+
+        if (done) {
+          break;
+        }
+
+        this.#handleEvent(event);
+      }
+    } catch (_) {
+      // context shutdown, or PC/SC failure: no more events
+    }
   }
 
-  #handleReaderRemoved() {
+  #handleEvent(event: ContextEvent) {
+    switch (event.type) {
+      case "reader-added":
+        for (const reader of this.#addReaders([event.reader])) {
+          this.emit(new OMAPI.ReaderEvent(reader, OMAPI.EventType.ReaderInserted));
+        }
+        break;
+
+      case "reader-removed":
+        this.#handleReaderRemoved(event.reader);
+        break;
+
+      case "card-inserted":
+      case "card-removed": {
+        const reader = this.#readers.get(event.reader);
+        const isInserted = (event.type == "card-inserted");
+
+        if (reader) {
+          reader.cardChanged(isInserted);
+
+          this.emit(new OMAPI.ReaderEvent(reader, isInserted ? OMAPI.EventType.CardInserted : OMAPI.EventType.CardRemoval));
+        }
+        break;
+      }
+    }
   }
-  #teardown() {
+
+  #addReaders(readers: PCSCReader[]): Reader[] {
+    return readers
+      .filter((reader) => !this.#readers.has(reader) && reader.status != "shutdown")
+      .map((pcscReader) => {
+        const reader = new Reader(this, pcscReader);
+
+        this.#readers.set(pcscReader, reader);
+
+        return reader;
+      });
+  }
+
+  #handleReaderRemoved(pcscReader: PCSCReader) {
+    const reader = this.#readers.get(pcscReader);
+
+    if (reader) {
+      this.#readers.delete(pcscReader);
+
+      reader.detach();
+
+      this.emit(new OMAPI.ReaderEvent(reader, OMAPI.EventType.ReaderRemoval));
+    }
+  }
+
+  async #teardown() {
+    for (const reader of this.#readers.values()) {
+      reader.detach();
+    }
+
+    this.#readers.clear();
+    this.#handlers.clear();
+
+    if (this.#ownsContexts) {
+      for (const context of this.#contexts) {
+        await context.shutdown();
+      }
+    }
+
+    this.#contexts = [];
   }
 }
 
 class Reader implements OMAPI.Reader {
   #reader: PCSCReader;
-  #sessions: OMAPI.Session[];
+  #sessions: Session[];
+  #handlers = new Set<(event: OMAPI.ReaderEvent) => void>();
+  #accessRules?: Promise<AccessRules>;
 
-  constructor(public readonly service: OMAPI.SEService, reader: PCSCReader) {
+  constructor(public readonly service: SEService, reader: PCSCReader) {
     this.#reader = reader;
     this.#sessions = [];
   }
@@ -65,117 +220,465 @@ class Reader implements OMAPI.Reader {
   }
 
   get isPresent(): boolean {
-    return false;
+    return this.#reader.isPresent;
+  }
+
+  onReaderEvent(handler: (event: OMAPI.ReaderEvent) => void): () => void {
+    this.#handlers.add(handler);
+
+    return () => {
+      this.#handlers.delete(handler);
+    };
+  }
+
+  async openSession(): Promise<OMAPI.Session> {
+    if (!this.service.isConnected) {
+      throw new SmartCardException("SEService is not connected");
+    }
+
+    if (!this.isPresent) {
+      throw new SmartCardException(`Secure Element not present in reader ${this.name}`);
+    }
+
+    const card = await this.#reader.connect();
+    const session = new Session(this, card);
+
+    this.#sessions.push(session);
+
+    return session;
+  }
+
+  async closeAllSessions(): Promise<void> {
+    // Session.close() removes session from this.#sessions
+    for (const session of [...this.#sessions]) {
+      await session.close();
+    }
   }
 
-  onReaderEvent(_handler: (event: OMAPI.ReaderEvent) => void): () => void {
-    throw new Error("Method not implemented.");
+  /**
+   * Close all sessions, then reset the Secure Element
+   */
+  async reset(): Promise<void> {
+    await this.closeAllSessions();
+
+    this.#accessRules = undefined;
+
+    const card = await this.#reader.connect();
+
+    await card.disconnect(Disposition.ResetCard);
+  }
+
+  emit(event: OMAPI.ReaderEvent) {
+    for (const handler of this.#handlers) {
+      handler(event);
+    }
   }
 
-  openSession(): Promise<OMAPI.Session> {
-    return Promise.resolve(new Session(this));
+  /**
+   * Access control rules of Secure Element, read using `card` and cached until card is removed or reset
+   */
+  accessRules(card: Card): Promise<AccessRules> {
+    if (this.#accessRules === undefined) {
+      const rules = readAccessRules(card);
+
+      // retry on next call, if rules could not be read
+      rules.catch(() => {
+        if (this.#accessRules === rules) {
+          this.#accessRules = undefined;
+        }
+      });
+
+      this.#accessRules = rules;
+    }
+
+    return this.#accessRules;
   }
 
-  closeAllSessions(): Promise<void> {
-    throw new Error("Method not implemented.");
+  removeSession(session: Session) {
+    this.#sessions = this.#sessions.filter((s) => s !== session);
   }
 
-  reset(): Promise<void> {
-    throw new Error("Method not implemented.");
+  /**
+   * Reader removed or service shutdown: sessions can no longer be used
+   */
+  detach() {
+    this.#closeSessionsQuietly();
+  }
+
+  /**
+   * Card inserted or removed: cached access rules no longer apply
+   */
+  cardChanged(isInserted: boolean) {
+    this.#accessRules = undefined;
+
+    if (!isInserted) {
+      this.#closeSessionsQuietly();
+    }
+  }
+
+  #closeSessionsQuietly() {
+    this.closeAllSessions().catch(() => {});
   }
 }
 
 class Session implements OMAPI.Session {
   #channels: Channel[] = [];
-  readonly reader: OMAPI.Reader;
+  #card?: Card;
+  readonly reader: Reader;
+  readonly historicalBytes?: Uint8Array;
 
-  constructor(reader: Reader) {
+  constructor(reader: Reader, card: Card) {
     this.reader = reader;
+    this.#card = card;
+    this.historicalBytes = card.atr?.historicalBytes;
   }
 
   closeChannels(): Promise<void> {
-    return Promise.all(this.#channels.map((channel) => channel.close()))
+    // Channel.close() removes channel from this.#channels
+    return Promise.all([...this.#channels].map((channel) => channel.close()))
       .then(() => {
         this.#channels = [];
       });
   }
 
   get isClosed(): boolean {
-    return false;
+    return !this.#card?.isConnected;
   }
 
-  historicalBytes?: Uint8Array;
+  /**
+   * Open basic channel (0), selecting applet `aid` or, if `aid` is empty, the default applet.
+   */
+  async openBasicChannel(aid: Uint8Array, p2 = 0x00): Promise<OMAPI.Channel> {
+    const card = this.#checkOpen();
 
-  openBasicChannel(_aid: Uint8Array, _p2?: number): Promise<OMAPI.Channel> {
-    const select = Promise.resolve(new Uint8Array());
+    checkSelectP2(p2);
 
-    return select.then((selectResult) => {
-      const channel = new Channel(
-        this,
-        null as any as Card,
-        true,
-        selectResult,
-      );
+    let access = await this.checkAccess(card, aid);
+
+    if (this.#channels.some((channel) => channel.isBasicChannel && !channel.isClosed)) {
+      throw new SmartCardException("Basic channel is in use");
+    }
+
+    let selectResponse: Uint8Array = new Uint8Array();
+
+    if (aid.length > 0) {
+      const response = await card.transmitAPDU(selectCommand(aid, p2));
+
+      checkSelectResponse(response);
 
-      this.#channels.push(channel);
+      // a partial AID may have selected an applet with other access rules
+      access = await this.checkAccess(card, selectedAID(response.data, aid));
 
-      return channel;
-    });
+      selectResponse = response.toBytes();
+    }
+
+    const channel = new Channel(this, card, undefined, aid, p2, selectResponse, access);
+
+    this.#channels.push(channel);
+
+    return channel;
   }
 
-  openLogicalChannel(
-    _aid: Uint8Array,
-    _p2?: number,
-  ): Promise<OMAPI.Channel> {
-    throw new Error("Method not implemented.");
+  /**
+   * Open a logical channel with MANAGE CHANNEL, selecting applet `aid` or, if `aid` is empty, the default applet.
+   */
+  async openLogicalChannel(aid: Uint8Array, p2 = 0x00): Promise<OMAPI.Channel> {
+    const card = this.#checkOpen();
+
+    checkSelectP2(p2);
+
+    let access = await this.checkAccess(card, aid);
+
+    const logicalChannel = await card.openLogicalChannel();
+
+    let selectResponse: Uint8Array = new Uint8Array();
+
+    if (aid.length > 0) {
+      try {
+        const response = await logicalChannel.transmitAPDU(selectCommand(aid, p2));
+
+        checkSelectResponse(response);
+
+        // a partial AID may have selected an applet with other access rules
+        access = await this.checkAccess(card, selectedAID(response.data, aid));
+
+        selectResponse = response.toBytes();
+      } catch (e) {
+        await logicalChannel.close().catch(() => {});
+
+        throw e;
+      }
+    }
+
+    const channel = new Channel(this, card, logicalChannel, aid, p2, selectResponse, access);
+
+    this.#channels.push(channel);
+
+    return channel;
   }
 
-  close(): Promise<void> {
-    throw new Error("Method not implemented.");
+  removeChannel(channel: Channel) {
+    this.#channels = this.#channels.filter((c) => c !== channel);
+  }
+
+  async close(): Promise<void> {
+    const card = this.#card;
+
+    if (card === undefined) {
+      return;
+    }
+
+    try {
+      await this.closeChannels();
+    } finally {
+      this.#card = undefined;
+      this.reader.removeSession(this);
+
+      if (card.isConnected) {
+        await card.disconnect(Disposition.LeaveCard);
+      }
+    }
+  }
+
+  #checkOpen(): Card {
+    if (this.#card === undefined || this.isClosed) {
+      throw new SmartCardException("Session is closed");
+    }
+
+    return this.#card;
+  }
+
+  /**
+   * Returns APDU access to applet `aid`, or `undefined` if access control is not enforced.
+   * Throws `SecurityError` if access is denied.
+   */
+  async checkAccess(card: Card, aid: Uint8Array): Promise<APDUAccess | undefined> {
+    const certificateHash = this.reader.service.certificateHash;
+
+    if (certificateHash === undefined) {
+      return undefined;
+    }
+
+    const rules = await this.reader.accessRules(card);
+
+    return rules.checkOpen(aid, certificateHash);
   }
 }
 
 class Channel implements OMAPI.Channel {
+  #card: Card;
+  #logicalChannel?: LogicalChannel;
+  #aid: Uint8Array;
+  #p2: number;
+  #selectResponse: Uint8Array;
+  #isClosed = false;
+  #expectDataWithWarningSW = false;
+  #access?: APDUAccess;
+
   constructor(
-    public readonly session: OMAPI.Session,
-    protected readonly card: Card,
-    public readonly isBasicChannel: boolean,
-    public readonly selectResponse: Uint8Array,
+    public readonly session: Session,
+    card: Card,
+    logicalChannel: LogicalChannel | undefined,
+    aid: Uint8Array,
+    p2: number,
+    selectResponse: Uint8Array,
+    access?: APDUAccess,
   ) {
+    this.#card = card;
+    this.#logicalChannel = logicalChannel;
+    this.#aid = aid;
+    this.#p2 = p2;
+    this.#selectResponse = selectResponse;
+    this.#access = access;
   }
 
-  get isClosed(): boolean {
-    return this.card != null;
+  get isBasicChannel(): boolean {
+    return this.#logicalChannel === undefined;
   }
 
-  setTransmitBehaviour(_expectDataWithWarningSW: boolean): void {
-    throw new Error("Method not implemented.");
-  }
+  get isClosed(): boolean {
+    return this.#isClosed || this.session.isClosed || (this.#logicalChannel?.isOpen === false);
+  }
+
+  /**
+   * Response to most recent SELECT (including SW), or empty if default applet selected
+   */
+  get selectResponse(): Uint8Array {
+    return this.#selectResponse;
+  }
+
+  /**
+   * When `true`, a GET RESPONSE is issued to retrieve data when a case 4 command
+   * returns a warning SW (62xx/63xx) without data
+   */
+  setTransmitBehaviour(expectDataWithWarningSW: boolean): void {
+    this.#expectDataWithWarningSW = expectDataWithWarningSW;
+  }
+
+  /**
+   * Select next applet matching (partial) AID, using SELECT with P2=02 (next occurrence).
+   * Returns false when no further applet matches.
+   *
+   * Access control rules are applied to the newly selected applet: if access is denied,
+   * the channel is closed and `SecurityError` is thrown.
+   */
+  async selectNext(): Promise<boolean> {
+    if (this.#aid.length == 0) {
+      throw new SmartCardException("selectNext: no AID selected on channel");
+    }
+
+    const response = await this.#transmitAPDU(selectCommand(this.#aid, (this.#p2 & 0x0C) | 0x02));
+
+    if (response.SW == SW.FILE_NOT_FOUND) {
+      return false;
+    }
+
+    checkSelectResponse(response);
+
+    this.#selectResponse = response.toBytes();
 
-  selectNext(): Promise<boolean> {
-    throw new Error("Method not implemented.");
+    try {
+      this.#access = await this.session.checkAccess(this.#card, selectedAID(response.data, this.#aid));
+    } catch (e) {
+      await this.close().catch(() => {});
+
+      throw e;
+    }
+
+    return true;
   }
 
   transmit(cmd: SECommand): Promise<SEResponse>;
   transmit(cmd: Uint8Array): Promise<Uint8Array>;
-  transmit(
+  async transmit(
     cmd: SECommand | Uint8Array,
-  ): Promise<Uint8Array> | Promise<SEResponse> {
+  ): Promise<Uint8Array | SEResponse> {
     if (cmd instanceof Uint8Array) {
-      return this.card.transmit(cmd);
+      const response = await this.#transmit(CommandAPDU.from(cmd));
+
+      return response.toBytes();
     } else {
-      const resp = this.card.transmitAPDU(cmd);
-      const resp2 = resp
-        .then((response) => {
-          return new SEResponse(this, response.toBytes());
-        });
+      const response = await this.#transmit(cmd);
+
+      return new SEResponse(this, response.toBytes());
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.#isClosed) {
+      return;
+    }
+
+    this.#isClosed = true;
+    this.session.removeChannel(this);
+
+    if (this.#logicalChannel?.isOpen) {
+      await this.#logicalChannel.close();
+    }
+  }
+
+  async #transmit(command: CommandAPDU): Promise<ResponseAPDU> {
+    if (command.ins == INS.ManageChannel) {
+      throw new SmartCardException("MANAGE CHANNEL command not allowed");
+    }
+
+    if (command.ins == INS.SelectFile && command.p1 == 0x04) {
+      throw new SmartCardException("SELECT by DF name command not allowed");
+    }
+
+    if (this.#access !== undefined && !AccessRules.isAllowed(this.#access, command)) {
+      throw new SecurityError(`Command ${HEX.toString(command.header)} not allowed by access control rules`);
+    }
+
+    const response = await this.#transmitAPDU(command);
+    const sw1 = response.SW >> 8;
+
+    if (
+      this.#expectDataWithWarningSW && (sw1 == 0x62 || sw1 == 0x63) &&
+      response.La == 0 && command.Lc > 0 && command.le !== undefined
+    ) {
+      const getResponse = await this.#transmitAPDU(
+        new CommandAPDU(CLA.ISO, INS.GetResponse, 0x00, 0x00, undefined, 256, { description: "GET RESPONSE" }),
+      );
+
+      if (getResponse.La > 0) {
+        return new ResponseAPDU(response.SW, getResponse.data);
+      }
+    }
+
+    return response;
+  }
+
+  #transmitAPDU(command: CommandAPDU): Promise<ResponseAPDU> {
+    if (this.isClosed) {
+      return Promise.reject(new SmartCardException("Channel is closed"));
+    }
 
-      return resp2;
+    if (this.#logicalChannel) {
+      return this.#logicalChannel.transmitAPDU(command);
     }
+
+    return this.#card.transmitAPDU(
+      new CommandAPDU(
+        ClassByte.withChannel(command.cla, 0),
+        command.ins,
+        command.p1,
+        command.p2,
+        command.data,
+        command.le,
+        { isExtended: command.isExtended, description: command.description, sensitivity: command.sensitivity },
+      ),
+    );
+  }
+}
+
+/**
+ * Read access control rules on a logical channel, or on the basic channel if no logical channel is available
+ */
+async function readAccessRules(card: Card): Promise<AccessRules> {
+  let channel: LogicalChannel | undefined;
+
+  try {
+    channel = await card.openLogicalChannel();
+  } catch (_) {
+    // use basic channel
+  }
+
+  try {
+    return await AccessRules.read((command) => channel ? channel.transmitAPDU(command) : card.transmitAPDU(command));
+  } finally {
+    await channel?.close().catch(() => {});
+  }
+}
+
+/**
+ * SELECT by DF name, P2 = response options (00, 04, 08 or 0C) | occurrence (00 first, 02 next)
+ */
+function selectCommand(aid: Uint8Array, p2: number): CommandAPDU {
+  // P2=0C: no response data expected
+  const le = ((p2 & 0x0C) == 0x0C) ? undefined : 256;
+
+  return new CommandAPDU(CLA.ISO, INS.SelectFile, 0x04, p2, aid, le, { description: "SELECT" });
+}
+
+function checkSelectP2(p2: number) {
+  if (![0x00, 0x04, 0x08, 0x0C].includes(p2)) {
+    throw new SmartCardException(`Unsupported SELECT P2=0x${p2.toString(16)}`);
+  }
+}
+
+/**
+ * SELECT succeeds with 9000 or a warning (62xx/63xx)
+ */
+function checkSelectResponse(response: ResponseAPDU) {
+  const sw1 = response.SW >> 8;
+
+  if (response.SW == SW.FILE_NOT_FOUND) {
+    throw new SmartCardException("SELECT: applet not found");
   }
 
-  close(): Promise<void> {
-    throw new Error("Method not implemented.");
+  if (response.SW != SW.SUCCESS && sw1 != 0x62 && sw1 != 0x63) {
+    throw new SmartCardException(`SELECT failed, SW=${response.SW.toString(16)}`);
   }
 }
 
@@ -208,8 +711,7 @@ export class SEResponse extends ResponseAPDU implements OMAPI.SEResponse {
   }
 
   isStatus(sw1?: number, sw2?: number): boolean {
-    return (sw1 == undefined) || sw1 == this.sw1 &&
-      (sw2 == undefined) ||
-      sw2 == this.sw2;
+    return (sw1 === undefined || sw1 == this.sw1) &&
+      (sw2 === undefined || sw2 == this.sw2);
   }
 }
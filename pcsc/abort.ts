@@ -0,0 +1,115 @@
+import { AbortError, TimeoutError } from './errors.ts';
+
+/**
+ * Options to abort an asynchronous `Context`, `Reader` or `Card` operation
+ */
+export interface AbortOptions {
+  /** Abort operation, which rejects with `AbortError` */
+  signal?: AbortSignal;
+
+  /** Abort operation after `timeout` ms, which rejects with `TimeoutError` */
+  timeout?: number;
+}
+
+/**
+ * Throw an `AbortError` (or the `TimeoutError` it was aborted with) if `signal` has been aborted
+ */
+export function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw abortError(signal);
+  }
+}
+
+/**
+ * Error for an aborted `signal`: its reason, if an `AbortError`, otherwise a new `AbortError`
+ */
+function abortError(signal: AbortSignal): AbortError {
+  return (signal.reason instanceof AbortError) ? signal.reason : new AbortError();
+}
+
+/**
+ * Run `operation`, rejecting with `AbortError` (or the `AbortError` it was aborted with) when `options.signal`
+ * is aborted, or with `TimeoutError` once `options.timeout` expires.
+ *
+ * `operation` receives a signal that is aborted in both cases, so that multi-step operations can stop
+ * between steps. `cancel` interrupts the pending step (eg. `SCardCancel`) - otherwise that step runs to
+ * completion in the background, and it's result is discarded.
+ */
+export function withAbort<T>(
+  operation: (signal?: AbortSignal) => Promise<T>,
+  options: AbortOptions = {},
+  cancel?: () => void,
+): Promise<T> {
+  const { signal, timeout } = options;
+
+  if (signal === undefined && timeout === undefined) {
+    return operation();
+  }
+
+  try {
+    throwIfAborted(signal);
+  } catch (e) {
+    return Promise.reject(e);
+  }
+
+  const controller = new AbortController();
+
+  return new Promise<T>((resolve, reject) => {
+    let isSettled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const settle = () => {
+      isSettled = true;
+
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+    };
+
+    const abort = (error: AbortError) => {
+      if (isSettled) {
+        return;
+      }
+
+      settle();
+      controller.abort(error);
+
+      reject(error);
+
+      try {
+        cancel?.();
+      } catch (_) {
+        // already aborted
+      }
+    };
+
+    const onAbort = () => abort(abortError(signal!));
+
+    signal?.addEventListener("abort", onAbort);
+
+    if (timeout !== undefined) {
+      timer = setTimeout(() => abort(new TimeoutError(timeout)), timeout);
+    }
+
+    let pending: Promise<T>;
+    try {
+      pending = operation(controller.signal);
+    } catch (e) {
+      pending = Promise.reject(e);
+    }
+
+    pending.then(
+      (result) => {
+        if (!isSettled) {
+          settle();
+          resolve(result);
+        }
+      },
+      (error) => {
+        if (!isSettled) {
+          settle();
+          reject(error);
+        }
+      },
+    );
+  });
+}
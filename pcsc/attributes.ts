@@ -0,0 +1,145 @@
+import { Protocol } from './scard.ts';
+import { BytesLike } from '../iso7816/buffer-utils.ts';
+
+/**
+ * Reader/Card attributes, for use with `SCardGetAttrib` and `SCardSetAttrib`
+ *
+ * SCARD_ATTR_VALUE(class, tag) = (class << 16) | tag
+ */
+export enum Attribute {
+  VendorName = 0x00010100, /**< SCARD_ATTR_VENDOR_NAME - Vendor name */
+  VendorIfdType = 0x00010101, /**< SCARD_ATTR_VENDOR_IFD_TYPE - Vendor-supplied interface device type */
+  VendorIfdVersion = 0x00010102, /**< SCARD_ATTR_VENDOR_IFD_VERSION - Vendor-supplied interface device version */
+  VendorIfdSerialNo = 0x00010103, /**< SCARD_ATTR_VENDOR_IFD_SERIAL_NO - Vendor-supplied interface device serial number */
+  ChannelId = 0x00020110, /**< SCARD_ATTR_CHANNEL_ID - DWORD 0xDDDDCCCC, DDDD = data channel type, CCCC = channel number */
+  AsyncProtocolTypes = 0x00030120, /**< SCARD_ATTR_ASYNC_PROTOCOL_TYPES */
+  DefaultClk = 0x00030121, /**< SCARD_ATTR_DEFAULT_CLK - Default clock rate, in kHz */
+  MaxClk = 0x00030122, /**< SCARD_ATTR_MAX_CLK - Maximum clock rate, in kHz */
+  DefaultDataRate = 0x00030123, /**< SCARD_ATTR_DEFAULT_DATA_RATE - Default data rate, in bps */
+  MaxDataRate = 0x00030124, /**< SCARD_ATTR_MAX_DATA_RATE - Maximum data rate, in bps */
+  MaxIfsd = 0x00030125, /**< SCARD_ATTR_MAX_IFSD - Maximum bytes for information file size device */
+  SyncProtocolTypes = 0x00030126, /**< SCARD_ATTR_SYNC_PROTOCOL_TYPES */
+  PowerMgmtSupport = 0x00040131, /**< SCARD_ATTR_POWER_MGMT_SUPPORT - Zero if device does not support power down */
+  UserToCardAuthDevice = 0x00050140, /**< SCARD_ATTR_USER_TO_CARD_AUTH_DEVICE */
+  UserAuthInputDevice = 0x00050142, /**< SCARD_ATTR_USER_AUTH_INPUT_DEVICE */
+  Characteristics = 0x00060150, /**< SCARD_ATTR_CHARACTERISTICS - Mechanical characteristics */
+  CurrentProtocolType = 0x00080201, /**< SCARD_ATTR_CURRENT_PROTOCOL_TYPE - Current protocol */
+  CurrentClk = 0x00080202, /**< SCARD_ATTR_CURRENT_CLK - Current clock rate, in kHz */
+  CurrentF = 0x00080203, /**< SCARD_ATTR_CURRENT_F - Clock conversion factor */
+  CurrentD = 0x00080204, /**< SCARD_ATTR_CURRENT_D - Bit rate conversion factor */
+  CurrentN = 0x00080205, /**< SCARD_ATTR_CURRENT_N - Current guard time */
+  CurrentW = 0x00080206, /**< SCARD_ATTR_CURRENT_W - Current work waiting time */
+  CurrentIfsc = 0x00080207, /**< SCARD_ATTR_CURRENT_IFSC - Current byte size for information field size card */
+  CurrentIfsd = 0x00080208, /**< SCARD_ATTR_CURRENT_IFSD - Current byte size for information field size device */
+  CurrentBwt = 0x00080209, /**< SCARD_ATTR_CURRENT_BWT - Current block waiting time */
+  CurrentCwt = 0x0008020A, /**< SCARD_ATTR_CURRENT_CWT - Current character waiting time */
+  CurrentEbcEncoding = 0x0008020B, /**< SCARD_ATTR_CURRENT_EBC_ENCODING - Current error block control encoding */
+  ExtendedBwt = 0x0008020C, /**< SCARD_ATTR_EXTENDED_BWT */
+  IccPresence = 0x00090300, /**< SCARD_ATTR_ICC_PRESENCE - 0 = not present, 1 = present not swallowed, 2 = swallowed */
+  IccInterfaceStatus = 0x00090301, /**< SCARD_ATTR_ICC_INTERFACE_STATUS - Contacts active (1) or inactive (0) */
+  CurrentIoState = 0x00090302, /**< SCARD_ATTR_CURRENT_IO_STATE */
+  AtrString = 0x00090303, /**< SCARD_ATTR_ATR_STRING - Answer to reset (ATR) */
+  IccTypePerAtr = 0x00090304, /**< SCARD_ATTR_ICC_TYPE_PER_ATR - ICC type, based on ATR */
+  EscReset = 0x0007A000, /**< SCARD_ATTR_ESC_RESET */
+  EscCancel = 0x0007A003, /**< SCARD_ATTR_ESC_CANCEL */
+  EscAuthRequest = 0x0007A005, /**< SCARD_ATTR_ESC_AUTHREQUEST */
+  MaxInput = 0x0007A007, /**< SCARD_ATTR_MAXINPUT */
+  DeviceUnit = 0x7FFF0001, /**< SCARD_ATTR_DEVICE_UNIT - Instance of this vendor's reader attached to the computer */
+  DeviceInUse = 0x7FFF0002, /**< SCARD_ATTR_DEVICE_IN_USE - Reserved for future use */
+  DeviceFriendlyName = 0x7FFF0003, /**< SCARD_ATTR_DEVICE_FRIENDLY_NAME_A - Reader's display name */
+  DeviceSystemName = 0x7FFF0004, /**< SCARD_ATTR_DEVICE_SYSTEM_NAME_A - Reader's system name */
+  DeviceFriendlyNameW = 0x7FFF0005, /**< SCARD_ATTR_DEVICE_FRIENDLY_NAME_W - Reader's display name (UTF-16) */
+  DeviceSystemNameW = 0x7FFF0006, /**< SCARD_ATTR_DEVICE_SYSTEM_NAME_W - Reader's system name (UTF-16) */
+  SupressT1IfsRequest = 0x7FFF0007, /**< SCARD_ATTR_SUPRESS_T1_IFS_REQUEST - Suppress sending of T=1 IFSD packet */
+}
+
+export type AttributeType = "string" | "wstring" | "dword" | "protocol" | "bytes";
+
+export type AttributeValue = string | number | Protocol | Uint8Array;
+
+/**
+ * Attributes that are not decoded as DWORD
+ */
+const attributeTypes: Partial<Record<Attribute, AttributeType>> = {
+  [Attribute.VendorName]: "string",
+  [Attribute.VendorIfdType]: "string",
+  [Attribute.VendorIfdSerialNo]: "string",
+  [Attribute.CurrentProtocolType]: "protocol",
+  [Attribute.CurrentIoState]: "bytes",
+  [Attribute.AtrString]: "bytes",
+  [Attribute.EscReset]: "bytes",
+  [Attribute.EscCancel]: "bytes",
+  [Attribute.EscAuthRequest]: "bytes",
+  [Attribute.MaxInput]: "bytes",
+  [Attribute.DeviceFriendlyName]: "string",
+  [Attribute.DeviceSystemName]: "string",
+  [Attribute.DeviceFriendlyNameW]: "wstring",
+  [Attribute.DeviceSystemNameW]: "wstring",
+};
+
+export const AttributeCodec = {
+  typeOf(attr: Attribute): AttributeType {
+    return attributeTypes[attr] ?? "dword";
+  },
+
+  /**
+   * Decode raw attribute bytes, according to attribute type:
+   *   strings are null-terminated, DWORDs are little-endian (1 to 8 bytes)
+   */
+  decode(attr: Attribute, bytes: BytesLike): AttributeValue {
+    const buffer = BytesLike.toUint8Array(bytes);
+
+    switch (AttributeCodec.typeOf(attr)) {
+      case "string": {
+        const end = buffer.indexOf(0);
+
+        return new TextDecoder().decode(buffer.subarray(0, (end < 0) ? buffer.length : end));
+      }
+
+      case "wstring": {
+        const str = new TextDecoder("utf-16le").decode(buffer);
+        const end = str.indexOf("\0");
+
+        return (end < 0) ? str : str.slice(0, end);
+      }
+
+      case "dword":
+      case "protocol":
+        return buffer.reduceRight((acc, byte) => (acc * 256) + byte, 0);
+
+      case "bytes":
+        return buffer.slice();
+    }
+  },
+
+  /**
+   * Encode attribute value to bytes, for `SCardSetAttrib`
+   */
+  encode(attr: Attribute, value: AttributeValue | BytesLike): Uint8Array {
+    if (typeof value == "string") {
+      if (AttributeCodec.typeOf(attr) == "wstring") {
+        const buffer = new Uint8Array((value.length + 1) * 2);
+        const view = new DataView(buffer.buffer);
+
+        for (let i = 0; i < value.length; i++) {
+          view.setUint16(i * 2, value.charCodeAt(i), true);
+        }
+
+        return buffer;
+      }
+
+      const bytes = new TextEncoder().encode(value);
+      const buffer = new Uint8Array(bytes.length + 1);
+      buffer.set(bytes);
+
+      return buffer;
+    } else if (typeof value == "number") {
+      const buffer = new Uint8Array(4);
+      new DataView(buffer.buffer).setUint32(0, value, true);
+
+      return buffer;
+    }
+
+    return BytesLike.toUint8Array(value);
+  },
+};
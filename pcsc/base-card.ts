@@ -0,0 +1,250 @@
+import { Card, CardStatusInfo, ReaderStatus, TransmitChainedOptions, TransmitOptions } from './context.ts';
+import { Disposition, DWORD, Protocol, ShareMode } from './scard.ts';
+import { Attribute, AttributeValue } from './attributes.ts';
+import { ReaderFeatures } from './reader-features.ts';
+import { ResponsePolicy, transmitWithPolicy } from './response-policy.ts';
+import { transmitChained } from './command-chaining.ts';
+import { LogicalChannel, manageChannelClose, manageChannelOpen } from './logical-channel.ts';
+import { modifyPinOnReader, PinModifyOptions, PinVerifyOptions, verifyPinOnReader } from './secure-pin-entry.ts';
+import { AbortOptions, throwIfAborted, withAbort } from './abort.ts';
+
+import { ATR, BytesLike, CardCapabilities, CommandAPDU, ResponseAPDU } from '../iso7816/iso7816.ts';
+
+/**
+ * Behaviour common to all `Card` implementations, built on `transmit`, `control` and `release`:
+ * APDU encoding and response handling, command chaining, reader features, PIN entry on reader,
+ * logical channels and transactions.
+ */
+export abstract class BaseCard implements Card {
+  #features?: ReaderFeatures;
+  #channels = new Map<number, LogicalChannel>();
+
+  abstract responsePolicy: ResponsePolicy;
+
+  abstract readonly isConnected: boolean;
+
+  abstract readonly protocol: number;
+
+  abstract readonly atr?: ATR;
+
+  get capabilities(): CardCapabilities | undefined {
+    return this.atr?.capabilities;
+  }
+
+  get logicalChannels(): LogicalChannel[] {
+    return Array.from(this.#channels.values());
+  }
+
+  abstract status(): Promise<CardStatusInfo>;
+
+  abstract transmit(command: BytesLike, expectedLen?: number, options?: AbortOptions): Promise<Uint8Array>;
+
+  abstract control(ioctl: DWORD, data?: BytesLike, expectedLen?: number, options?: AbortOptions): Promise<Uint8Array>;
+
+  abstract getAttribute(attr: Attribute): Promise<AttributeValue>;
+
+  abstract setAttribute(attr: Attribute, value: AttributeValue | BytesLike): Promise<void>;
+
+  abstract reconnect(
+    shareMode?: ShareMode,
+    preferredProtocols?: Protocol,
+    initialization?: Disposition,
+  ): Promise<ReaderStatus>;
+
+  abstract beginTransaction(options?: AbortOptions): Promise<void>;
+
+  abstract endTransaction(disposition?: Disposition): Promise<void>;
+
+  /**
+   * Disconnect from card, once logical channels have been closed
+   */
+  protected abstract release(disposition: Disposition): Promise<ReaderStatus>;
+
+  /**
+   * Transmit a command, handling 61xx/6Cxx according to `responsePolicy`.
+   *
+   * Commands too long for a short APDU are automatically sent as extended-length
+   * or chained commands, according to card capabilities.
+   */
+  transmitAPDU(commandAPDU: CommandAPDU, options?: TransmitOptions): Promise<ResponseAPDU> {
+    const encoding = this.encodingFor(commandAPDU);
+
+    if (encoding == "chained") {
+      return this.transmitChained(commandAPDU, options);
+    }
+
+    return this.sendAPDU(commandAPDU, encoding == "extended", options);
+  }
+
+  /**
+   * Transmit a command using ISO7816-4 command chaining, for DATA longer than `maxChunk`.
+   * Each command of the chain is sent as a short APDU.
+   */
+  transmitChained(commandAPDU: CommandAPDU, options?: TransmitChainedOptions): Promise<ResponseAPDU> {
+    return withAbort(
+      (signal) => {
+        // abort applies to whole chain
+        const commandOptions = { ...options, signal, timeout: undefined };
+
+        return transmitChained(
+          (command, isLast) =>
+            this.sendAPDU(
+              command,
+              false,
+              isLast ? commandOptions : { ...commandOptions, responsePolicy: ResponsePolicy.Raw },
+            ),
+          commandAPDU,
+          options?.maxChunk,
+        );
+      },
+      options,
+    );
+  }
+
+  /**
+   * Send a single command, short or extended, handling 61xx/6Cxx according to `responsePolicy`.
+   *
+   * On abort, no further commands (eg. GET RESPONSE) are sent.
+   */
+  protected sendAPDU(commandAPDU: CommandAPDU, isExtended: boolean, options?: TransmitOptions): Promise<ResponseAPDU> {
+    return withAbort(
+      (signal) =>
+        transmitWithPolicy(
+          async (command) => {
+            throwIfAborted(signal);
+
+            return ResponseAPDU.from(await this.transmit(this.encode(command, isExtended), command.le || 256));
+          },
+          commandAPDU,
+          options?.responsePolicy ?? this.responsePolicy,
+        ),
+      options,
+    );
+  }
+
+  /**
+   * How a command is sent: commands too long for a short APDU are sent as extended-length
+   * or chained commands, according to card capabilities
+   */
+  protected encodingFor(commandAPDU: CommandAPDU): "short" | "extended" | "chained" {
+    return (commandAPDU.Lc > 255 || (commandAPDU.le ?? 0) > 256)
+      ? this.capabilities?.encodingFor(commandAPDU) ?? "short"
+      : "short";
+  }
+
+  /**
+   * Encode a command for the current protocol
+   */
+  protected encode(commandAPDU: CommandAPDU, isExtended = false): Uint8Array {
+    return commandAPDU.toBytes({
+      isT0: this.protocol == Protocol.T0,
+      isExtended: isExtended || commandAPDU.isExtended,
+    });
+  }
+
+  /**
+   * Get PC/SC Part 10 features supported by reader (cached)
+   */
+  async getFeatures(): Promise<ReaderFeatures> {
+    if (!this.#features) {
+      this.#features = await ReaderFeatures.read(this);
+    }
+
+    return this.#features;
+  }
+
+  /**
+   * Verify PIN using reader's pinpad (FEATURE_VERIFY_PIN_DIRECT). PIN never reaches host.
+   */
+  async verifyPinOnReader(options: PinVerifyOptions): Promise<ResponseAPDU> {
+    return verifyPinOnReader(await this.getFeatures(), options);
+  }
+
+  /**
+   * Modify PIN using reader's pinpad (FEATURE_MODIFY_PIN_DIRECT). PINs never reach host.
+   */
+  async modifyPinOnReader(options: PinModifyOptions): Promise<ResponseAPDU> {
+    return modifyPinOnReader(await this.getFeatures(), options);
+  }
+
+  /**
+   * Open a logical channel (MANAGE CHANNEL), with channel number assigned by card
+   */
+  async openLogicalChannel(): Promise<LogicalChannel> {
+    const channel = new LogicalChannel(this, await manageChannelOpen(this));
+
+    this.#channels.set(channel.channel, channel);
+
+    return channel;
+  }
+
+  async closeLogicalChannel(channel: number): Promise<void> {
+    const logicalChannel = this.#channels.get(channel);
+
+    this.#channels.delete(channel);
+    logicalChannel?.invalidate();
+
+    await manageChannelClose(this, channel);
+  }
+
+  /**
+   * Mark all logical channels as closed, without MANAGE CHANNEL (eg. after card reset)
+   */
+  protected invalidateChannels() {
+    this.#channels.forEach((channel) => channel.invalidate());
+    this.#channels.clear();
+  }
+
+  /**
+   * Run `action` within a transaction. The transaction is always ended,
+   * even if `action` throws, in which case `action`'s error is reported.
+   */
+  async withTransaction<T>(
+    action: (card: this) => Promise<T>,
+    disposition = Disposition.LeaveCard,
+  ): Promise<T> {
+    await this.beginTransaction();
+
+    let result: T;
+
+    try {
+      result = await action(this);
+    } catch (e) {
+      // card may have been disconnected by action
+      if (this.isConnected) {
+        try {
+          await this.endTransaction(disposition);
+        } catch (_) {
+          // report action's error
+        }
+      }
+
+      throw e;
+    }
+
+    if (this.isConnected) {
+      await this.endTransaction(disposition);
+    }
+
+    return result;
+  }
+
+  /**
+   * Disconnect, first closing any open logical channels
+   */
+  async disconnect(disposition = Disposition.LeaveCard): Promise<ReaderStatus> {
+    if (this.isConnected && disposition == Disposition.LeaveCard) {
+      for (const channel of this.#channels.keys()) {
+        try {
+          await this.closeLogicalChannel(channel);
+        } catch (_) {
+          // continue closing and disconnect
+        }
+      }
+    }
+
+    this.invalidateChannels();
+
+    return await this.release(disposition);
+  }
+}
@@ -0,0 +1,256 @@
+import { Context, Reader, ReaderStatusChangeHandler } from './context.ts';
+import { INFINITE } from './scard.ts';
+import { PCSCException, SCARD_ERROR_CANCELLED } from './errors.ts';
+import { ContextEvents, ContextEventStream, StatusChangeHandlers } from './context-events.ts';
+import { AbortOptions, withAbort } from './abort.ts';
+
+import { CardIdentifier } from '../iso7816/iso7816.ts';
+
+// pause before waiting again, after an error thrown by a status change handler
+const MONITOR_RETRY_DELAY = 100;
+
+/**
+ * Reader managed by a `BaseContext`
+ */
+export interface ContextReader extends Reader {
+  readonly hasStatusChangeHandlers: boolean;
+
+  shutdown(): void;
+}
+
+/**
+ * Behaviour common to `Context` implementations that poll for reader changes:
+ * reader list, status change handlers, `events()` and the background monitor.
+ */
+export abstract class BaseContext<R extends ContextReader> implements Context {
+  #handlers = new StatusChangeHandlers();
+
+  #updating = false;
+
+  #events = new ContextEvents();
+
+  #monitor?: Promise<void>;
+
+  #isMonitorWaiting = false;
+
+  /**
+   * Current readers, by name. Maintained by `updateReaderList`.
+   */
+  protected readers = new Map<string, R>();
+
+  /**
+   * Identifies cards by ATR, for `Reader.cardDescriptions`
+   */
+  cardIdentifier: CardIdentifier = CardIdentifier.default;
+
+  abstract isValid(): boolean;
+
+  /**
+   * Cancel all pending waits on this context (`SCardCancel`)
+   */
+  abstract cancel(): void;
+
+  /**
+   * Wait for a change on `readers`, and, if `includePNP`, to the list of readers.
+   * Readers that have changed are updated.
+   */
+  protected abstract getStatusChange(
+    readers: Reader[],
+    timeout: number,
+    includePNP: boolean,
+  ): Promise<{ changed: R[], mustRescan: boolean }>;
+
+  /**
+   * Add and remove readers, notifying listeners. Called with re-entrance guarded.
+   */
+  protected abstract updateReaderList(): void;
+
+  /**
+   * Release underlying context, once monitor has stopped
+   */
+  protected abstract releaseContext(): void;
+
+  protected rescan() {
+    if (!this.#updating && this.isValid()) {
+      this.#updating = true;
+      try {
+        this.updateReaderList();
+      } finally {
+        this.#updating = false;
+      }
+    }
+  }
+
+  #hasSubscribers(): boolean {
+    return this.#events.hasSubscribers ||
+      this.#handlers.size > 0 ||
+      Array.from(this.readers.values()).some((reader) => reader.hasStatusChangeHandlers);
+  }
+
+  /**
+   * Wait for changes, on all readers and on the list of readers, while there are subscribers.
+   * Each wait is INFINITE, and is cancelled when the list of readers changes,
+   * when the last subscriber leaves, or on shutdown.
+   */
+  async #runMonitor() {
+    while (this.#hasSubscribers() && this.isValid()) {
+      try {
+        const readers = this.listReaders();
+
+        let mustRescan = false;
+
+        this.#isMonitorWaiting = true;
+        try {
+          ({ mustRescan } = await this.getStatusChange(readers, INFINITE, true));
+        } finally {
+          this.#isMonitorWaiting = false;
+        }
+
+        if (mustRescan) {
+          this.rescan();
+        }
+      } catch (e) {
+        if (!(e instanceof PCSCException)) {
+          // error thrown by a handler: keep monitoring, pausing so that a failing handler can't spin
+          await new Promise((resolve) => setTimeout(resolve, MONITOR_RETRY_DELAY));
+        } else if (e.rc != SCARD_ERROR_CANCELLED) {
+          // PC/SC failure (eg. service stopped) .. stop monitoring
+          this.#events.close(e);
+
+          break;
+        }
+
+        // else, cancelled: wait again, on new list of readers
+      }
+    }
+  }
+
+  /**
+   * Cancel the monitor's wait, so that it waits again on the new list of readers (or stops)
+   */
+  protected interruptMonitor() {
+    if (this.#isMonitorWaiting) {
+      this.cancel();
+    }
+  }
+
+  /**
+   * Start background monitor when first subscriber (event stream, context or reader handler) is added,
+   * and stop it once all have left
+   */
+  refreshMonitor() {
+    if (this.#hasSubscribers()) {
+      if (this.#monitor === undefined && this.isValid()) {
+        this.#monitor = this.#runMonitor()
+          .finally(() => {
+            this.#monitor = undefined;
+          });
+      }
+    } else {
+      this.interruptMonitor();
+    }
+  }
+
+  /**
+   * Called by readers, on each change of reader status
+   */
+  readerStatusChanged(reader: R) {
+    this.#events.statusChanged(reader, reader.status);
+
+    this.#handlers.notify(reader, reader.status);
+  }
+
+  listReaders(rescan = false): R[] {
+    if (rescan || this.readers.size == 0) {
+      this.rescan();
+    }
+
+    return Array.from(this.readers.values());
+  }
+
+  /**
+   * Wait for a change on `readers`, for up to `timeout` ms. An abort (`options.signal` or `options.timeout`)
+   * interrupts the wait with `cancel()` - which also interrupts any other wait on this context.
+   */
+  async waitForChange(
+    readers?: Reader[],
+    timeout = 0,
+    rescan = true,
+    options?: AbortOptions,
+  ): Promise<R[]> {
+    const waitReaders = readers ?? this.listReaders();
+
+    const { changed, mustRescan: newReader } = await withAbort(
+      () => this.getStatusChange(waitReaders, timeout, rescan),
+      options,
+      () => this.cancel(),
+    );
+
+    if (newReader) {
+      this.rescan();
+    }
+
+    return changed;
+  }
+
+  /**
+   * Stream of reader and card events. A background monitor runs while at least one stream
+   * is consumed, so readers plugged in later are reported.
+   */
+  events(): ContextEventStream {
+    // readers already present are not reported as added
+    this.listReaders();
+
+    const stream = this.#events.subscribe(() => this.refreshMonitor());
+
+    this.refreshMonitor();
+
+    return stream;
+  }
+
+  get onStatusChange() {
+    return this.#handlers.primary;
+  }
+
+  set onStatusChange(
+    handler: ReaderStatusChangeHandler | undefined,
+  ) {
+    this.#handlers.primary = handler;
+
+    this.refreshMonitor();
+  }
+
+  addStatusChangeHandler(handler: ReaderStatusChangeHandler): () => void {
+    const remove = this.#handlers.add(handler);
+
+    this.refreshMonitor();
+
+    return () => {
+      remove();
+
+      this.refreshMonitor();
+    };
+  }
+
+  async shutdown(): Promise<void> {
+    this.readers.forEach((reader) => {
+      reader.shutdown();
+    });
+
+    this.readers = new Map();
+    this.#handlers.clear();
+
+    this.#events.close();
+
+    try {
+      this.cancel();
+
+      // wait for monitor to be cancelled, before releasing context
+      await this.#monitor;
+
+      this.releaseContext();
+    } catch (_) {
+      // fail silently .. we're shutting down
+    }
+  }
+}
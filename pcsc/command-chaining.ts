@@ -0,0 +1,29 @@
+import { CommandAPDU, ResponseAPDU } from '../iso7816/apdu.ts';
+import { SW } from '../iso7816/enums.ts';
+
+/**
+ * Transmit a command as a sequence of ISO7816-4 chained commands (CLA b5 set).
+ *
+ * Stops at the first intermediate response that is not 9000, returning that response,
+ * otherwise returns response to the last command in chain.
+ */
+export async function transmitChained(
+  transmit: (command: CommandAPDU, isLast: boolean) => Promise<ResponseAPDU>,
+  command: CommandAPDU,
+  maxChunk = 255,
+): Promise<ResponseAPDU> {
+  const commands = command.split(maxChunk);
+
+  for (const [index, segment] of commands.entries()) {
+    const isLast = (index == commands.length - 1);
+
+    const response = await transmit(segment, isLast);
+
+    if (isLast || response.SW != SW.SUCCESS) {
+      return response;
+    }
+  }
+
+  // never reached, split() always returns at least one command
+  throw new Error("transmitChained: empty command chain");
+}
@@ -0,0 +1,264 @@
+import { Reader, ReaderStatus, ReaderStatusChangeHandler } from './context.ts';
+
+export type ContextEventType =
+  | "reader-added"
+  | "reader-removed"
+  | "card-inserted"
+  | "card-removed"
+  | "card-mute";
+
+/**
+ * Hardware change, as reported by `Context.events()`
+ */
+export interface ContextEvent {
+  type: ContextEventType;
+  reader: Reader;
+}
+
+type CardPresence = "empty" | "present" | "mute";
+
+type EventWaiter = {
+  resolve: (result: IteratorResult<ContextEvent>) => void;
+  reject: (error: Error) => void;
+};
+
+/**
+ * AsyncIterable stream of `ContextEvent`s. Events are queued until consumed, and concurrent
+ * calls to `next()` receive events in call order.
+ * The stream ends when the consumer breaks out of `for await`, or when the context is shutdown.
+ */
+export class ContextEventStream implements AsyncIterableIterator<ContextEvent> {
+  #queue: ContextEvent[] = [];
+  #waiting: EventWaiter[] = [];
+  #error?: Error;
+  #isClosed = false;
+  #onClose?: () => void;
+
+  constructor(onClose?: () => void) {
+    this.#onClose = onClose;
+  }
+
+  get isClosed(): boolean {
+    return this.#isClosed;
+  }
+
+  push(event: ContextEvent) {
+    if (this.#isClosed) {
+      return;
+    }
+
+    const waiter = this.#waiting.shift();
+
+    if (waiter) {
+      waiter.resolve({ value: event, done: false });
+    } else {
+      this.#queue.push(event);
+    }
+  }
+
+  next(): Promise<IteratorResult<ContextEvent>> {
+    const event = this.#queue.shift();
+
+    if (event !== undefined) {
+      return Promise.resolve({ value: event, done: false });
+    }
+
+    if (this.#error !== undefined) {
+      return Promise.reject(this.#error);
+    }
+
+    if (this.#isClosed) {
+      return Promise.resolve({ value: undefined, done: true });
+    }
+
+    return new Promise((resolve, reject) => {
+      this.#waiting.push({ resolve, reject });
+    });
+  }
+
+  return(): Promise<IteratorResult<ContextEvent>> {
+    this.close();
+
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  /**
+   * End stream, after any queued events have been consumed
+   */
+  close() {
+    if (this.#isClosed) {
+      return;
+    }
+
+    this.#isClosed = true;
+
+    for (const waiter of this.#waiting.splice(0)) {
+      waiter.resolve({ value: undefined, done: true });
+    }
+
+    this.#onClose?.();
+  }
+
+  /**
+   * End stream with an error, thrown to consumer once queued events have been consumed
+   */
+  fail(error: Error) {
+    if (this.#isClosed) {
+      return;
+    }
+
+    this.#error = error;
+
+    for (const waiter of this.#waiting.splice(0)) {
+      waiter.reject(error);
+    }
+
+    this.close();
+  }
+
+  [Symbol.asyncIterator](): AsyncIterableIterator<ContextEvent> {
+    return this;
+  }
+}
+
+/**
+ * Derives `ContextEvent`s from reader status changes, and dispatches them to all subscribed streams.
+ *
+ * Card presence is tracked for each reader, so that each insertion or removal is reported once,
+ * whatever the sequence of intermediate reader status (eg. `present` -> `connected` -> `present`).
+ */
+export class ContextEvents {
+  #streams = new Set<ContextEventStream>();
+  #presence = new Map<Reader, CardPresence>();
+
+  get hasSubscribers(): boolean {
+    return this.#streams.size > 0;
+  }
+
+  /**
+   * New stream of events. `onClose` is called when the stream ends.
+   */
+  subscribe(onClose?: () => void): ContextEventStream {
+    const stream = new ContextEventStream(() => {
+      this.#streams.delete(stream);
+
+      onClose?.();
+    });
+
+    this.#streams.add(stream);
+
+    return stream;
+  }
+
+  /**
+   * Notify a change in reader status. `setup` and `shutdown` indicate a reader added or removed.
+   */
+  statusChanged(reader: Reader, status: ReaderStatus) {
+    if (status == "shutdown") {
+      if (this.#presence.delete(reader)) {
+        this.#dispatch({ type: "reader-removed", reader });
+      }
+
+      return;
+    }
+
+    const presence: CardPresence = (status == "setup")
+      ? (reader.isMute ? "mute" : reader.isPresent ? "present" : "empty")
+      : (status == "mute") ? "mute" : (status == "empty") ? "empty" : "present";
+
+    const previous = this.#presence.get(reader);
+
+    this.#presence.set(reader, presence);
+
+    if (previous === undefined) {
+      this.#dispatch({ type: "reader-added", reader });
+    }
+
+    if (presence != (previous ?? "empty")) {
+      switch (presence) {
+        case "present": this.#dispatch({ type: "card-inserted", reader }); break;
+        case "mute": this.#dispatch({ type: "card-mute", reader }); break;
+        case "empty": this.#dispatch({ type: "card-removed", reader }); break;
+      }
+    }
+  }
+
+  /**
+   * End all streams, with an optional error
+   */
+  close(error?: Error) {
+    for (const stream of [...this.#streams]) {
+      if (error) {
+        stream.fail(error);
+      } else {
+        stream.close();
+      }
+    }
+
+    this.#presence.clear();
+  }
+
+  #dispatch(event: ContextEvent) {
+    for (const stream of this.#streams) {
+      stream.push(event);
+    }
+  }
+}
+
+/**
+ * Subscribers to reader status changes. `primary` backs the `onStatusChange` property,
+ * other handlers are added with `add`, which returns a function to remove the handler.
+ */
+export class StatusChangeHandlers {
+  #primary?: ReaderStatusChangeHandler;
+  #handlers = new Set<ReaderStatusChangeHandler>();
+
+  get primary(): ReaderStatusChangeHandler | undefined {
+    return this.#primary;
+  }
+
+  set primary(handler: ReaderStatusChangeHandler | undefined) {
+    this.#primary = handler;
+  }
+
+  get size(): number {
+    return this.#handlers.size + ((this.#primary !== undefined) ? 1 : 0);
+  }
+
+  add(handler: ReaderStatusChangeHandler): () => void {
+    this.#handlers.add(handler);
+
+    return () => {
+      this.#handlers.delete(handler);
+    };
+  }
+
+  clear() {
+    this.#primary = undefined;
+    this.#handlers.clear();
+  }
+
+  /**
+   * Notify all handlers. A handler that throws does not prevent others from being notified,
+   * the first error is re-thrown once all have been called.
+   */
+  notify(reader: Reader, status: ReaderStatus) {
+    let error: unknown;
+    let failed = false;
+
+    for (const handler of [...(this.#primary ? [this.#primary] : []), ...this.#handlers]) {
+      try {
+        handler(reader, status);
+      } catch (e) {
+        if (!failed) {
+          error = e;
+          failed = true;
+        }
+      }
+    }
+
+    if (failed) {
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,52 @@
+import { Context } from './context.ts';
+import { Scope } from './scard.ts';
+
+export interface ContextProvider {
+  establishContext: (scope?: Scope) => Context;
+  readonly name: string;
+}
+
+let contextProvider: ContextProvider | undefined;
+
+let defaultProvider: (() => ContextProvider | undefined) | undefined;
+
+/**
+ * Singleton to instantiate a ContextProvider
+ *
+ * Falls back to the default provider (Deno `FFIContext`, registered by `mod.ts`)
+ * if a provider has not already been registered.
+ */
+function getContextProvider() {
+  if (!contextProvider) {
+    contextProvider = defaultProvider?.();
+  }
+
+  if (contextProvider)
+    return contextProvider;
+
+  throw new Error("No PCSC ContextProvider registered");
+}
+
+/**
+ * ContextProvider
+ */
+export const ContextProvider = {
+  registerProvider(provider: ContextProvider) {
+    contextProvider = provider;
+  },
+
+  /**
+   * Register the provider used when none has been registered, created on first use
+   */
+  registerDefaultProvider(factory: () => ContextProvider | undefined) {
+    defaultProvider = factory;
+  },
+
+  get provider(): ContextProvider {
+    return getContextProvider();
+  },
+
+  establishContext(scope?: Scope): Context {
+    return getContextProvider().establishContext(scope);
+  },
+}
@@ -1,6 +1,13 @@
-import { Disposition, Protocol, ShareMode, DWORD, StateFlags } from './pcsc.ts';
+import { CardStatus, Disposition, Protocol, ShareMode, DWORD, StateFlags } from './pcsc.ts';
 import { CommandAPDU, ResponseAPDU } from '../iso7816/apdu.ts';
-import { BytesLike } from "../iso7816/iso7816.ts";
+import { ATR, BytesLike, CardCapabilities } from "../iso7816/iso7816.ts";
+import { Attribute, AttributeValue } from './attributes.ts';
+import { ReaderFeatures } from './reader-features.ts';
+import { PinModifyOptions, PinVerifyOptions } from './secure-pin-entry.ts';
+import { ResponsePolicy } from './response-policy.ts';
+import { LogicalChannel } from './logical-channel.ts';
+import { ContextEvent } from './context-events.ts';
+import { AbortOptions } from './abort.ts';
 
 export type ReaderStatus =
   | "setup"
@@ -16,14 +23,24 @@ export type ReaderStatusChangeHandler = (reader: Reader, status: ReaderStatus) =
 export interface Context { //<Card extends Card = Card, Reader extends Reader<Card> = Reader<Card>> {
   listReaders(rescan?: boolean): Reader[];
 
+  /** Notified of all reader and card changes, detected by a background monitor */
   onStatusChange?: ReaderStatusChangeHandler;
 
+  /** Add a status change handler, returns a function that removes it */
+  addStatusChangeHandler(handler: ReaderStatusChangeHandler): () => void;
+
   waitForChange(
     readers: Reader[],
     timeout?: DWORD,
     rescan?: boolean,
+    options?: AbortOptions,
   ): Promise<Reader[]>;
 
+  /**
+   * Stream of reader and card events, driven by a background monitor while the stream is consumed
+   */
+  events(): AsyncIterable<ContextEvent>;
+
   shutdown(): Promise<void>;
 }
 
@@ -40,11 +57,50 @@ export interface Reader {
 
   readonly state: StateFlags;
 
-  connect(shareMode?: ShareMode, preferredProtocols?: Protocol): Promise<Card>;
+  /** ATR of card present in reader, as seen during most recent `waitForChange` */
+  readonly atr?: ATR;
+
+  /** Descriptions of card present in reader, identified by ATR, or [] if unknown */
+  readonly cardDescriptions: string[];
 
+  connect(shareMode?: ShareMode, preferredProtocols?: Protocol, options?: AbortOptions): Promise<Card>;
+
+  /** Notified of changes to this reader, detected by a background monitor */
   onStatusChange?: ReaderStatusChangeHandler;
 
-  waitForChange(timeout?: DWORD): Promise<ReaderStatus | "no-change">;
+  /** Add a status change handler, returns a function that removes it */
+  addStatusChangeHandler(handler: ReaderStatusChangeHandler): () => void;
+
+  waitForChange(timeout?: DWORD, options?: AbortOptions): Promise<ReaderStatus | "no-change">;
+
+  control(ioctl: DWORD, data?: BytesLike, expectedLen?: number, options?: AbortOptions): Promise<Uint8Array>;
+}
+
+export interface CardStatusInfo {
+  /** Reader name(s), including aliases, for the card's connection */
+  readerNames: string[];
+
+  /** Card state, as returned by PC/SC */
+  state: DWORD;
+
+  /** Card state, decoded into `CardStatus` values */
+  status: CardStatus[];
+
+  /** Active protocol */
+  protocol: Protocol;
+
+  /** Current ATR */
+  atr: Uint8Array;
+}
+
+export interface TransmitOptions extends AbortOptions {
+  /** Override card's `responsePolicy` for this command */
+  responsePolicy?: ResponsePolicy;
+}
+
+export interface TransmitChainedOptions extends TransmitOptions {
+  /** Maximum DATA length of each command in chain, default 255 */
+  maxChunk?: number;
 }
 
 export interface Card {
@@ -52,9 +108,24 @@ export interface Card {
 
   readonly protocol: number;
 
-  transmit(commandAPDU: BytesLike, expectedLen?: number): Promise<Uint8Array>;
+  /** ATR of connected card */
+  readonly atr?: ATR;
+
+  /** Capabilities of connected card, from ATR historical bytes */
+  readonly capabilities?: CardCapabilities;
 
-  transmitAPDU(commandAPDU: CommandAPDU): Promise<ResponseAPDU>;
+  responsePolicy: ResponsePolicy;
+
+  /** Logical channels currently open on card */
+  readonly logicalChannels: LogicalChannel[];
+
+  status(): Promise<CardStatusInfo>;
+
+  transmit(commandAPDU: BytesLike, expectedLen?: number, options?: AbortOptions): Promise<Uint8Array>;
+
+  transmitAPDU(commandAPDU: CommandAPDU, options?: TransmitOptions): Promise<ResponseAPDU>;
+
+  transmitChained(commandAPDU: CommandAPDU, options?: TransmitChainedOptions): Promise<ResponseAPDU>;
 
   reconnect(
     shareMode?: ShareMode,
@@ -63,5 +134,30 @@ export interface Card {
   ): Promise<ReaderStatus>;
 
   disconnect(disposition: Disposition): Promise<ReaderStatus>;
+
+  control(ioctl: DWORD, data?: BytesLike, expectedLen?: number, options?: AbortOptions): Promise<Uint8Array>;
+
+  getFeatures(): Promise<ReaderFeatures>;
+
+  getAttribute(attr: Attribute): Promise<AttributeValue>;
+
+  setAttribute(attr: Attribute, value: AttributeValue | BytesLike): Promise<void>;
+
+  verifyPinOnReader(options: PinVerifyOptions): Promise<ResponseAPDU>;
+
+  modifyPinOnReader(options: PinModifyOptions): Promise<ResponseAPDU>;
+
+  openLogicalChannel(): Promise<LogicalChannel>;
+
+  closeLogicalChannel(channel: number): Promise<void>;
+
+  beginTransaction(options?: AbortOptions): Promise<void>;
+
+  endTransaction(disposition?: Disposition): Promise<void>;
+
+  withTransaction<T>(
+    action: (card: this) => Promise<T>,
+    disposition?: Disposition,
+  ): Promise<T>;
 }
 
@@ -2,6 +2,18 @@ export const SCARD_SUCCESS = 0;
 export const SCARD_ERROR_TIMEOUT = 0x8010000a;
 export const SCARD_ERROR_CANCELLED = 0x80100002;
 export const SCARD_E_NO_SERVICE = 0x8010001d;
+export const SCARD_E_NO_READERS_AVAILABLE = 0x8010002e;
+export const SCARD_E_INVALID_HANDLE = 0x80100003;
+export const SCARD_E_INSUFFICIENT_BUFFER = 0x80100008;
+export const SCARD_E_SHARING_VIOLATION = 0x8010000b;
+export const SCARD_E_NO_SMARTCARD = 0x8010000c;
+export const SCARD_E_PROTO_MISMATCH = 0x8010000f;
+export const SCARD_E_NOT_TRANSACTED = 0x80100016;
+export const SCARD_E_READER_UNAVAILABLE = 0x80100017;
+export const SCARD_E_UNSUPPORTED_FEATURE = 0x80100022;
+export const SCARD_W_UNRESPONSIVE_CARD = 0x80100066;
+export const SCARD_W_RESET_CARD = 0x80100068;
+export const SCARD_W_REMOVED_CARD = 0x80100069;
 
 export class PCSCException extends Error {
   constructor(public rc: number, public func: string, detail?: string) {
@@ -12,3 +24,25 @@ export class PCSCException extends Error {
     );
   }
 }
+
+/**
+ * Operation aborted by an `AbortSignal`
+ */
+export class AbortError extends Error {
+  constructor(message = "Operation aborted") {
+    super(message);
+
+    this.name = "AbortError";
+  }
+}
+
+/**
+ * Operation aborted because it's `timeout` expired
+ */
+export class TimeoutError extends AbortError {
+  constructor(public timeout: number) {
+    super(`Operation timed out after ${timeout}ms`);
+
+    this.name = "TimeoutError";
+  }
+}
@@ -0,0 +1,103 @@
+import { Card, TransmitChainedOptions, TransmitOptions } from './context.ts';
+import { AbortOptions } from './abort.ts';
+import { BytesLike, ClassByte, CommandAPDU, INS, ResponseAPDU, SmartCardException, SW } from '../iso7816/iso7816.ts';
+
+/**
+ * An ISO7816-4 logical channel, opened with `Card.openLogicalChannel`.
+ *
+ * Commands transmitted on a channel have their CLA rewritten to encode the channel number.
+ */
+export class LogicalChannel {
+  #isOpen = true;
+
+  constructor(public readonly card: Card, public readonly channel: number) {
+  }
+
+  get isOpen(): boolean {
+    return this.#isOpen && this.card.isConnected;
+  }
+
+  async transmit(command: BytesLike, expectedLen?: number, options?: AbortOptions): Promise<Uint8Array> {
+    this.#checkOpen();
+
+    const commandBytes = BytesLike.toUint8Array(command).slice();
+
+    if (commandBytes.length > 0) {
+      commandBytes[0] = ClassByte.withChannel(commandBytes[0], this.channel);
+    }
+
+    return await this.card.transmit(commandBytes, expectedLen, options);
+  }
+
+  async transmitAPDU(commandAPDU: CommandAPDU, options?: TransmitOptions): Promise<ResponseAPDU> {
+    return await this.card.transmitAPDU(this.#onChannel(commandAPDU), options);
+  }
+
+  async transmitChained(commandAPDU: CommandAPDU, options?: TransmitChainedOptions): Promise<ResponseAPDU> {
+    return await this.card.transmitChained(this.#onChannel(commandAPDU), options);
+  }
+
+  close(): Promise<void> {
+    return this.card.closeLogicalChannel(this.channel);
+  }
+
+  /**
+   * Mark channel as closed, without sending MANAGE CHANNEL (eg. after card reset)
+   */
+  invalidate() {
+    this.#isOpen = false;
+  }
+
+  #checkOpen() {
+    // channel number may since have been assigned to another channel
+    if (!this.isOpen) {
+      throw new SmartCardException(`Logical channel ${this.channel} is closed`);
+    }
+  }
+
+  #onChannel(commandAPDU: CommandAPDU): CommandAPDU {
+    this.#checkOpen();
+
+    return new CommandAPDU(
+      ClassByte.withChannel(commandAPDU.cla, this.channel),
+      commandAPDU.ins,
+      commandAPDU.p1,
+      commandAPDU.p2,
+      commandAPDU.data,
+      commandAPDU.le,
+      { isExtended: commandAPDU.isExtended, description: commandAPDU.description, sensitivity: commandAPDU.sensitivity },
+    );
+  }
+}
+
+/**
+ * Send MANAGE CHANNEL (open), letting card assign the channel number
+ */
+export async function manageChannelOpen(card: Card): Promise<number> {
+  const response = await card.transmitAPDU(
+    new CommandAPDU(0x00, INS.ManageChannel, 0x00, 0x00, undefined, 0x01, {
+      description: "MANAGE CHANNEL (open)",
+    }),
+  );
+
+  if (response.SW != SW.SUCCESS || response.La != 1) {
+    throw new SmartCardException(`MANAGE CHANNEL (open) failed, SW=${response.SW.toString(16)}`);
+  }
+
+  return response.data[0];
+}
+
+/**
+ * Send MANAGE CHANNEL (close) for `channel`
+ */
+export async function manageChannelClose(card: Card, channel: number): Promise<void> {
+  const response = await card.transmitAPDU(
+    new CommandAPDU(0x00, INS.ManageChannel, 0x80, channel, undefined, undefined, {
+      description: "MANAGE CHANNEL (close)",
+    }),
+  );
+
+  if (response.SW != SW.SUCCESS) {
+    throw new SmartCardException(`MANAGE CHANNEL (close) failed, SW=${response.SW.toString(16)}`);
+  }
+}
@@ -2,6 +2,26 @@ export { SCARDREADERSTATE } from './reader-state.ts';
 
 export * from './errors.ts';
 
+export * from './abort.ts';
+
 export * from './scard.ts';
 
-export type { Context, Reader, Card } from './context.ts';
+export * from './attributes.ts';
+
+export * from './reader-features.ts';
+
+export * from './secure-pin-entry.ts';
+
+export * from './response-policy.ts';
+
+export * from './command-chaining.ts';
+
+export * from './logical-channel.ts';
+
+export * from './context-events.ts';
+
+export * from './base-card.ts';
+
+export * from './base-context.ts';
+
+export type { Context, Reader, Card, CardStatusInfo, TransmitOptions, TransmitChainedOptions } from './context.ts';
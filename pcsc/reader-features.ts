@@ -0,0 +1,192 @@
+import { CM_IOCTL_GET_FEATURE_REQUEST, DWORD } from './scard.ts';
+import { BytesLike } from '../iso7816/buffer-utils.ts';
+import { SmartCardException } from '../iso7816/apdu.ts';
+
+/**
+ * PC/SC Part 10 - reader features, as reported by CM_IOCTL_GET_FEATURE_REQUEST
+ */
+export enum Feature {
+  VerifyPinStart = 0x01, /**< FEATURE_VERIFY_PIN_START */
+  VerifyPinFinish = 0x02, /**< FEATURE_VERIFY_PIN_FINISH */
+  ModifyPinStart = 0x03, /**< FEATURE_MODIFY_PIN_START */
+  ModifyPinFinish = 0x04, /**< FEATURE_MODIFY_PIN_FINISH */
+  GetKeyPressed = 0x05, /**< FEATURE_GET_KEY_PRESSED */
+  VerifyPinDirect = 0x06, /**< FEATURE_VERIFY_PIN_DIRECT */
+  ModifyPinDirect = 0x07, /**< FEATURE_MODIFY_PIN_DIRECT */
+  MctReaderDirect = 0x08, /**< FEATURE_MCT_READER_DIRECT */
+  MctUniversal = 0x09, /**< FEATURE_MCT_UNIVERSAL */
+  IfdPinProperties = 0x0A, /**< FEATURE_IFD_PIN_PROPERTIES */
+  Abort = 0x0B, /**< FEATURE_ABORT */
+  SetSpeMessage = 0x0C, /**< FEATURE_SET_SPE_MESSAGE */
+  VerifyPinDirectAppId = 0x0D, /**< FEATURE_VERIFY_PIN_DIRECT_APP_ID */
+  ModifyPinDirectAppId = 0x0E, /**< FEATURE_MODIFY_PIN_DIRECT_APP_ID */
+  WriteDisplay = 0x0F, /**< FEATURE_WRITE_DISPLAY */
+  GetKey = 0x10, /**< FEATURE_GET_KEY */
+  IfdDisplayProperties = 0x11, /**< FEATURE_IFD_DISPLAY_PROPERTIES */
+  GetTlvProperties = 0x12, /**< FEATURE_GET_TLV_PROPERTIES */
+  CcidEscCommand = 0x13, /**< FEATURE_CCID_ESC_COMMAND */
+  ExecutePace = 0x20, /**< FEATURE_EXECUTE_PACE */
+}
+
+/**
+ * PC/SC Part 10 - tags returned by FEATURE_GET_TLV_PROPERTIES
+ */
+export enum TLVProperty {
+  wLcdLayout = 0x01,
+  bEntryValidationCondition = 0x02,
+  bTimeOut2 = 0x03,
+  wLcdMaxCharacters = 0x04,
+  wLcdMaxLines = 0x05,
+  bMinPINSize = 0x06,
+  bMaxPINSize = 0x07,
+  sFirmwareID = 0x08,
+  bPPDUSupport = 0x09,
+  dwMaxAPDUDataSize = 0x0A,
+  wIdVendor = 0x0B,
+  wIdProduct = 0x0C,
+}
+
+/**
+ * Decoded FEATURE_GET_TLV_PROPERTIES. Only properties reported by the reader are present.
+ */
+export interface TLVProperties {
+  wLcdLayout?: number;
+  bEntryValidationCondition?: number;
+  bTimeOut2?: number;
+  wLcdMaxCharacters?: number;
+  wLcdMaxLines?: number;
+  bMinPINSize?: number;
+  bMaxPINSize?: number;
+  sFirmwareID?: string;
+  bPPDUSupport?: number;
+  dwMaxAPDUDataSize?: number;
+  wIdVendor?: number;
+  wIdProduct?: number;
+}
+
+/**
+ * Anything that can send a control code to a reader - a connected `Card` or a `Reader`
+ */
+export interface ControlTarget {
+  control(ioctl: DWORD, data?: BytesLike, expectedLen?: number): Promise<Uint8Array>;
+}
+
+/**
+ * Features supported by a reader, mapping each `Feature` to it's IOCTL control code
+ */
+export class ReaderFeatures {
+  #target: ControlTarget;
+  #features: Map<Feature, DWORD>;
+
+  constructor(target: ControlTarget, features: Map<Feature, DWORD>) {
+    this.#target = target;
+    this.#features = features;
+  }
+
+  /**
+   * Issue CM_IOCTL_GET_FEATURE_REQUEST and parse list of features supported by reader
+   */
+  static async read(target: ControlTarget): Promise<ReaderFeatures> {
+    const response = await target.control(CM_IOCTL_GET_FEATURE_REQUEST);
+
+    return new ReaderFeatures(target, ReaderFeatures.parseFeatureList(response));
+  }
+
+  /**
+   * Parse a PCSC_TLV_STRUCTURE[] list - 1 byte tag, 1 byte length (4) and
+   * a big-endian IOCTL value
+   */
+  static parseFeatureList(bytes: BytesLike): Map<Feature, DWORD> {
+    const buffer = BytesLike.toUint8Array(bytes);
+    const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+    const features = new Map<Feature, DWORD>();
+
+    let off = 0;
+    while (off + 2 <= buffer.length) {
+      const tag = buffer[off];
+      const len = buffer[off + 1];
+      off += 2;
+
+      if (off + len > buffer.length) {
+        break;
+      }
+
+      if (len == 4) {
+        features.set(tag, view.getUint32(off, false));
+      }
+
+      off += len;
+    }
+
+    return features;
+  }
+
+  /**
+   * Parse a FEATURE_GET_TLV_PROPERTIES response. Values are little-endian.
+   */
+  static parseTLVProperties(bytes: BytesLike): TLVProperties {
+    const buffer = BytesLike.toUint8Array(bytes);
+    const props: Record<string, number | string> = {};
+
+    let off = 0;
+    while (off + 2 <= buffer.length) {
+      const tag = buffer[off];
+      const len = buffer[off + 1];
+      off += 2;
+
+      if (off + len > buffer.length) {
+        break;
+      }
+
+      const value = buffer.subarray(off, off + len);
+      off += len;
+
+      const name = TLVProperty[tag];
+      if (name === undefined) {
+        // unknown property
+        continue;
+      }
+
+      if (tag == TLVProperty.sFirmwareID) {
+        props[name] = new TextDecoder().decode(value);
+      } else {
+        props[name] = value.reduceRight((acc, byte) => (acc * 256) + byte, 0);
+      }
+    }
+
+    return props as TLVProperties;
+  }
+
+  get features(): Feature[] {
+    return Array.from(this.#features.keys());
+  }
+
+  has(feature: Feature): boolean {
+    return this.#features.has(feature);
+  }
+
+  ioctl(feature: Feature): DWORD | undefined {
+    return this.#features.get(feature);
+  }
+
+  /**
+   * Send a control command to the reader, using the IOCTL of a `feature`
+   */
+  control(feature: Feature, data?: BytesLike, expectedLen?: number): Promise<Uint8Array> {
+    const ioctl = this.#features.get(feature);
+
+    if (ioctl === undefined) {
+      return Promise.reject(
+        new SmartCardException(`Reader does not support feature ${Feature[feature] ?? feature}`),
+      );
+    }
+
+    return this.#target.control(ioctl, data, expectedLen);
+  }
+
+  async getTLVProperties(): Promise<TLVProperties> {
+    return ReaderFeatures.parseTLVProperties(
+      await this.control(Feature.GetTlvProperties),
+    );
+  }
+}
@@ -101,7 +101,7 @@ export abstract class SCARDREADERSTATE<TNAME = any, TUSERDATA = any> {
     );
 
     const atr = new Uint8Array(atrLen);
-    atr.set(this.#buffer.slice(ATR_OFFSET + PLATFORM.DWORD_SIZE, atrLen));
+    atr.set(this.#buffer.slice(ATR_OFFSET + PLATFORM.DWORD_SIZE, ATR_OFFSET + PLATFORM.DWORD_SIZE + atrLen));
 
     return atr;
   }
@@ -141,7 +141,7 @@ export abstract class SCARDREADERSTATE<TNAME = any, TUSERDATA = any> {
       if (state.handleChange(
         stateBuffer.slice(
           index * alignedStateSize,
-          SCARDREADERSTATE_SIZE,
+          index * alignedStateSize + SCARDREADERSTATE_SIZE,
         ),
       )) {
         changed.push(index);
@@ -0,0 +1,86 @@
+import { CommandAPDU, ResponseAPDU, SmartCardException } from '../iso7816/apdu.ts';
+import { INS } from '../iso7816/enums.ts';
+
+/**
+ * How `Card.transmitAPDU` handles ISO7816 "procedure" status words
+ */
+export interface ResponsePolicy {
+  /** On SW=61xx, issue GET RESPONSE (00 C0 00 00 xx) and concatenate data from all responses */
+  getResponse: boolean;
+
+  /** On SW=6Cxx, re-send command with corrected Le=xx */
+  correctLe: boolean;
+}
+
+export const ResponsePolicy = {
+  /** Return responses unchanged - for diagnostic tools */
+  Raw: { getResponse: false, correctLe: false } as ResponsePolicy,
+
+  /** Transparently handle 61xx and 6Cxx */
+  Auto: { getResponse: true, correctLe: true } as ResponsePolicy,
+};
+
+/**
+ * Most GET RESPONSE commands sent for a single command: 256 x 256 bytes covers the largest
+ * (extended) response
+ */
+export const MAX_GET_RESPONSE = 256;
+
+/**
+ * Transmit a command using a `ResponsePolicy`, handling 6Cxx (wrong Le) and
+ * 61xx (more data available) status words
+ */
+export async function transmitWithPolicy(
+  transmit: (command: CommandAPDU) => Promise<ResponseAPDU>,
+  command: CommandAPDU,
+  policy: ResponsePolicy,
+): Promise<ResponseAPDU> {
+  let response = await transmit(command);
+
+  if (policy.correctLe && (response.SW & 0xFF00) == 0x6C00) {
+    // Wrong Le - re-send with Le = SW2
+    const corrected = new CommandAPDU(
+      command.cla,
+      command.ins,
+      command.p1,
+      command.p2,
+      command.data,
+      (response.SW & 0xFF) || 256,
+      { isExtended: command.isExtended, description: command.description, sensitivity: command.sensitivity },
+    );
+
+    response = await transmit(corrected);
+  }
+
+  if (policy.getResponse && (response.SW & 0xFF00) == 0x6100) {
+    const chunks = [response.data];
+
+    // GET RESPONSE on same logical channel
+    const cla = (command.cla & 0x40) ? (command.cla & 0x4F) : (command.cla & 0x03);
+
+    while ((response.SW & 0xFF00) == 0x6100) {
+      if (chunks.length > MAX_GET_RESPONSE) {
+        throw new SmartCardException(`Card still has data after ${MAX_GET_RESPONSE} GET RESPONSE commands`);
+      }
+
+      response = await transmit(
+        new CommandAPDU(cla, INS.GetResponse, 0x00, 0x00, undefined, (response.SW & 0xFF) || 256, {
+          description: "GET RESPONSE",
+        }),
+      );
+
+      chunks.push(response.data);
+    }
+
+    const data = new Uint8Array(chunks.reduce((len, chunk) => len + chunk.length, 0));
+    chunks.reduce((off, chunk) => {
+      data.set(chunk, off);
+
+      return off + chunk.length;
+    }, 0);
+
+    response = new ResponseAPDU(response.SW, data, { description: response.description });
+  }
+
+  return response;
+}
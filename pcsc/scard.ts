@@ -2,6 +2,8 @@ import { PLATFORM } from "./platform.ts";
 
 export const INFINITE = 0xFFFFFFFF;
 
+export const MAX_BUFFER_SIZE = 264; /**< Maximum Tx/Rx Buffer for short APDU */
+
 export type DWORD = number;
 
 export type SCARDCONTEXT = DWORD|bigint;
@@ -61,3 +63,32 @@ export enum CardStatus {
   Negotiable = (PLATFORM.isWin) ? 5 : 0x0020, /**< SCARD_NEGOTIABLE - Ready for PTS */
   Specific = (PLATFORM.isWin) ? 6 : 0x0040, /**< SCARD_SPECIFIC - PTS has been set */
 }
+
+/**
+ * Decode a `SCardStatus` state into a list of `CardStatus` values.
+ *
+ * Windows returns a single value, pcsc-lite returns a bitmask of flags
+ */
+export function decodeCardStatus(state: DWORD): CardStatus[] {
+  if (PLATFORM.isWin) {
+    return [state];
+  }
+
+  return Object.values(CardStatus)
+    .filter((flag): flag is CardStatus => (typeof flag == "number") && (state & flag) != 0);
+}
+
+
+/**
+ * Build a reader IOCTL control code, for use with `SCardControl`
+ *
+ * Windows uses the CTL_CODE(FILE_DEVICE_SMARTCARD, code, METHOD_BUFFERED, FILE_ANY_ACCESS)
+ * encoding, whilst pcsc-lite (linux and MacOS) uses 0x42000000 + code
+ */
+export function SCARD_CTL_CODE(code: number): DWORD {
+  return (PLATFORM.isWin)
+    ? ((0x31 << 16) | (code << 2)) >>> 0
+    : 0x42000000 + code;
+}
+
+export const CM_IOCTL_GET_FEATURE_REQUEST = SCARD_CTL_CODE(3400);
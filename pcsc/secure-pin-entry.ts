@@ -0,0 +1,212 @@
+import { Feature, ReaderFeatures } from './reader-features.ts';
+import { CommandAPDU, ResponseAPDU, SmartCardException } from '../iso7816/apdu.ts';
+
+/**
+ * Encoding of PIN digits within the PIN block
+ */
+export enum PinFormat {
+  Binary = 0x00,
+  BCD = 0x01,
+  ASCII = 0x02,
+}
+
+/**
+ * Entry validation conditions (bEntryValidationCondition), may be combined
+ */
+export enum PinEntryValidation {
+  MaxSizeReached = 0x01,
+  ValidationKeyPressed = 0x02,
+  Timeout = 0x04,
+}
+
+/**
+ * Options common to PIN verification and modification on a pinpad reader
+ */
+export interface SecurePinOptions {
+  /** Command APDU template, with DATA containing the (blank) PIN block(s) */
+  command: CommandAPDU;
+
+  /** PIN encoding, default ASCII */
+  format?: PinFormat;
+
+  /** Offset of PIN within command DATA, in bytes, default 0 */
+  pinPosition?: number;
+
+  /** Right-justify PIN within PIN block, default false (left-justify) */
+  rightJustify?: boolean;
+
+  /**
+   * Size of PIN block in bytes, default: full length of command DATA to verify,
+   * half of command DATA to modify (current then new PIN blocks)
+   */
+  pinBlockSize?: number;
+
+  /** Size (in bits) of PIN length field, when present in PIN block, default 0 */
+  pinLengthSize?: number;
+
+  /** Offset (in bits) of PIN length field within command DATA, default 0 */
+  pinLengthPosition?: number;
+
+  /** Minimum PIN length in digits, default 4 */
+  minLength?: number;
+
+  /** Maximum PIN length in digits, default 8 */
+  maxLength?: number;
+
+  /** Entry validation condition, default `PinEntryValidation.ValidationKeyPressed` */
+  entryValidation?: number;
+
+  /** Timeout in seconds for first key stroke, default 0 (reader default) */
+  timeout?: number;
+
+  /** Timeout in seconds after first key stroke, default 0 (reader default) */
+  timeout2?: number;
+
+  /** Number of messages to display (bNumberMessage), default 0x01 */
+  messageCount?: number;
+
+  /** Language of messages, default 0x0409 (English US) */
+  langId?: number;
+}
+
+export interface PinVerifyOptions extends SecurePinOptions {
+  /** Index of message to display, default 0 */
+  messageIndex?: number;
+}
+
+export interface PinModifyOptions extends SecurePinOptions {
+  /** Offset of current PIN within command DATA, in bytes, default 0 */
+  insertionOffsetOld?: number;
+
+  /** Offset of new PIN within command DATA, in bytes, default `pinBlockSize` */
+  insertionOffsetNew?: number;
+
+  /** Request confirmation of new PIN, default true */
+  confirmPin?: boolean;
+
+  /** Request entry of current PIN, default true */
+  enterCurrentPin?: boolean;
+
+  /** Indexes of messages to display, default [0, 1, 2] */
+  messageIndexes?: [number, number, number];
+}
+
+function encodePinFormat(options: SecurePinOptions, commandData: Uint8Array, pinBlockSize: number) {
+  const format = options.format ?? PinFormat.ASCII;
+  const pinPosition = options.pinPosition ?? 0;
+  const pinLengthSize = options.pinLengthSize ?? 0;
+  const pinLengthPosition = options.pinLengthPosition ?? 0;
+
+  if (pinPosition > 0x0F || pinBlockSize > 0x0F || pinPosition + pinBlockSize > commandData.length) {
+    throw new SmartCardException("Secure PIN: PIN block must lie within command DATA");
+  }
+
+  return {
+    // bmFormatString: system units = bytes, PIN position, justification, format
+    bmFormatString: 0x80 | (pinPosition << 3) | (options.rightJustify ? 0x04 : 0x00) | format,
+    // bmPINBlockString: PIN length size (bits), PIN block size (bytes)
+    bmPINBlockString: ((pinLengthSize & 0x0F) << 4) | pinBlockSize,
+    // bmPINLengthFormat: system units = bits, PIN length position
+    bmPINLengthFormat: pinLengthPosition & 0x0F,
+    // wPINMaxExtraDigit: XXYY = min/max PIN length
+    wPINMaxExtraDigit: ((options.minLength ?? 4) << 8) | (options.maxLength ?? 8),
+  };
+}
+
+function getCommandData(command: CommandAPDU) {
+  if (!command.data || command.data.length == 0) {
+    throw new SmartCardException("Secure PIN: command template must contain a PIN block");
+  }
+
+  // send as short APDU, with no Le
+  return command.toBytes({ isT0: true });
+}
+
+/**
+ * Build a PC/SC Part 10 PIN_VERIFY_STRUCTURE from a `CommandAPDU` template
+ */
+export function buildPinVerifyStructure(options: PinVerifyOptions): Uint8Array {
+  const apdu = getCommandData(options.command);
+  const fmt = encodePinFormat(options, options.command.data!, options.pinBlockSize ?? options.command.Lc);
+
+  const struct = new Uint8Array(19 + apdu.length);
+  const view = new DataView(struct.buffer);
+
+  struct[0] = options.timeout ?? 0x00; // bTimerOut
+  struct[1] = options.timeout2 ?? 0x00; // bTimerOut2
+  struct[2] = fmt.bmFormatString;
+  struct[3] = fmt.bmPINBlockString;
+  struct[4] = fmt.bmPINLengthFormat;
+  view.setUint16(5, fmt.wPINMaxExtraDigit, true);
+  struct[7] = options.entryValidation ?? PinEntryValidation.ValidationKeyPressed;
+  struct[8] = options.messageCount ?? 0x01; // bNumberMessage
+  view.setUint16(9, options.langId ?? 0x0409, true); // wLangId
+  struct[11] = options.messageIndex ?? 0x00; // bMsgIndex
+  // bTeoPrologue[3] = 00 00 00
+  view.setUint32(15, apdu.length, true); // ulDataLength
+  struct.set(apdu, 19);
+
+  return struct;
+}
+
+/**
+ * Build a PC/SC Part 10 PIN_MODIFY_STRUCTURE from a `CommandAPDU` template
+ */
+export function buildPinModifyStructure(options: PinModifyOptions): Uint8Array {
+  const apdu = getCommandData(options.command);
+  // default: DATA holds current then new PIN blocks
+  const pinBlockSize = options.pinBlockSize ?? Math.floor(options.command.Lc / 2);
+  const fmt = encodePinFormat(options, options.command.data!, pinBlockSize);
+  const [msg1, msg2, msg3] = options.messageIndexes ?? [0x00, 0x01, 0x02];
+
+  const struct = new Uint8Array(24 + apdu.length);
+  const view = new DataView(struct.buffer);
+
+  struct[0] = options.timeout ?? 0x00; // bTimerOut
+  struct[1] = options.timeout2 ?? 0x00; // bTimerOut2
+  struct[2] = fmt.bmFormatString;
+  struct[3] = fmt.bmPINBlockString;
+  struct[4] = fmt.bmPINLengthFormat;
+  struct[5] = options.insertionOffsetOld ?? 0x00; // bInsertionOffsetOld
+  struct[6] = options.insertionOffsetNew ?? pinBlockSize; // bInsertionOffsetNew
+  view.setUint16(7, fmt.wPINMaxExtraDigit, true);
+  struct[9] = ((options.confirmPin ?? true) ? 0x01 : 0x00) |
+    ((options.enterCurrentPin ?? true) ? 0x02 : 0x00); // bConfirmPIN
+  struct[10] = options.entryValidation ?? PinEntryValidation.ValidationKeyPressed;
+  struct[11] = options.messageCount ?? 0x03; // bNumberMessage
+  view.setUint16(12, options.langId ?? 0x0409, true); // wLangId
+  struct[14] = msg1; // bMsgIndex1
+  struct[15] = msg2; // bMsgIndex2
+  struct[16] = msg3; // bMsgIndex3
+  // bTeoPrologue[3] = 00 00 00
+  view.setUint32(20, apdu.length, true); // ulDataLength
+  struct.set(apdu, 24);
+
+  return struct;
+}
+
+async function securePinEntry(features: ReaderFeatures, feature: Feature, struct: Uint8Array) {
+  if (!features.has(feature)) {
+    throw new SmartCardException(
+      `Secure PIN: reader does not support FEATURE_${feature == Feature.VerifyPinDirect ? "VERIFY" : "MODIFY"}_PIN_DIRECT`,
+    );
+  }
+
+  const response = await features.control(feature, struct);
+
+  return ResponseAPDU.from(response);
+}
+
+/**
+ * Verify PIN, entered on the reader's pinpad, using FEATURE_VERIFY_PIN_DIRECT
+ */
+export async function verifyPinOnReader(features: ReaderFeatures, options: PinVerifyOptions): Promise<ResponseAPDU> {
+  return await securePinEntry(features, Feature.VerifyPinDirect, buildPinVerifyStructure(options));
+}
+
+/**
+ * Modify PIN, entered on the reader's pinpad, using FEATURE_MODIFY_PIN_DIRECT
+ */
+export async function modifyPinOnReader(features: ReaderFeatures, options: PinModifyOptions): Promise<ResponseAPDU> {
+  return await securePinEntry(features, Feature.ModifyPinDirect, buildPinModifyStructure(options));
+}
@@ -0,0 +1,190 @@
+import { decodeCardStatus, Disposition, DWORD, MAX_BUFFER_SIZE, Protocol, ShareMode } from '../pcsc/pcsc.ts';
+import { CardStatusInfo, ReaderStatus } from '../pcsc/context.ts';
+import { BaseCard } from '../pcsc/base-card.ts';
+import { Attribute, AttributeCodec, AttributeValue } from '../pcsc/attributes.ts';
+import { ResponsePolicy } from '../pcsc/response-policy.ts';
+import { AbortOptions, throwIfAborted, withAbort } from '../pcsc/abort.ts';
+import { AbortError } from '../pcsc/errors.ts';
+
+import { ATR, BytesLike, HEX, SmartCardException } from '../iso7816/iso7816.ts';
+
+import { RemoteReader } from './reader.ts';
+import { ConnectResult, DataResult, DisconnectResult, ReconnectResult, StatusResult } from './protocol.ts';
+import { RemoteContextProvider } from './provider.ts';
+
+/**
+ * Card connected on a `RemoteServer`
+ */
+export class RemoteCard extends BaseCard {
+  #handle?: number;
+  #protocol: number;
+  #atr?: ATR;
+
+  /**
+   * Handling of 61xx/6Cxx status words by `transmitAPDU`, default `ResponsePolicy.Auto`
+   */
+  responsePolicy: ResponsePolicy = ResponsePolicy.Auto;
+
+  constructor(
+    public readonly reader: RemoteReader,
+    connection: ConnectResult,
+  ) {
+    super();
+
+    this.#handle = connection.card;
+    this.#protocol = connection.protocol;
+    this.#atr = (connection.atr != "") ? ATR.from(HEX.parse(connection.atr)) : undefined;
+  }
+
+  get #provider(): RemoteContextProvider {
+    return this.reader.context.provider;
+  }
+
+  get isConnected(): boolean {
+    return this.#handle !== undefined;
+  }
+
+  get protocol() {
+    return this.#protocol;
+  }
+
+  get atr(): ATR | undefined {
+    return this.#atr;
+  }
+
+  async status(): Promise<CardStatusInfo> {
+    const status = await this.#provider.request<StatusResult>({ method: "status", card: this.#ensureHandle() });
+
+    return {
+      readerNames: status.readerNames,
+      state: status.state,
+      status: decodeCardStatus(status.state),
+      protocol: status.protocol,
+      atr: HEX.parse(status.atr),
+    };
+  }
+
+  transmit(command: BytesLike, expectedLen?: number, options?: AbortOptions): Promise<Uint8Array> {
+    return withAbort(
+      async () => await this.#provider.transmit(this.#ensureHandle(), BytesLike.toUint8Array(command), expectedLen),
+      options,
+    );
+  }
+
+  control(ioctl: DWORD, data: BytesLike = [], expectedLen = MAX_BUFFER_SIZE, options?: AbortOptions): Promise<Uint8Array> {
+    return withAbort(async () => {
+      const result = await this.#provider.request<DataResult>({
+        method: "control",
+        reader: this.reader.name,
+        card: this.#ensureHandle(),
+        ioctl,
+        data: HEX.toString(BytesLike.toUint8Array(data)),
+        expectedLen,
+      });
+
+      return HEX.parse(result.data);
+    }, options);
+  }
+
+  async getAttribute(attr: Attribute): Promise<AttributeValue> {
+    const result = await this.#provider.request<DataResult>({ method: "getAttribute", card: this.#ensureHandle(), attr });
+
+    return AttributeCodec.decode(attr, HEX.parse(result.data));
+  }
+
+  async setAttribute(attr: Attribute, value: AttributeValue | BytesLike): Promise<void> {
+    await this.#provider.request({
+      method: "setAttribute",
+      card: this.#ensureHandle(),
+      attr,
+      value: HEX.toString(AttributeCodec.encode(attr, value)),
+    });
+  }
+
+  async reconnect(
+    shareMode = ShareMode.Shared,
+    preferredProtocols = Protocol.Any,
+    initialization = Disposition.LeaveCard,
+  ): Promise<ReaderStatus> {
+    const card = this.#ensureHandle();
+
+    if (initialization != Disposition.LeaveCard) {
+      // card reset, all logical channels are closed
+      this.invalidateChannels();
+    }
+
+    try {
+      const result = await this.#provider.request<ReconnectResult>({
+        method: "reconnect",
+        card,
+        shareMode,
+        preferredProtocols,
+        initialization,
+      });
+
+      this.#protocol = result.protocol;
+      this.#atr = (result.atr != "") ? ATR.from(HEX.parse(result.atr)) : undefined;
+
+      return result.status;
+    } catch (e) {
+      // If reconnect failed, connection is no longer valid
+      this.#provider.request({ method: "disconnect", card, disposition: Disposition.LeaveCard }).catch(() => {});
+
+      this.#protocol = 0;
+      this.#handle = undefined;
+      this.#atr = undefined;
+
+      throw e;
+    }
+  }
+
+  async beginTransaction(options?: AbortOptions): Promise<void> {
+    const card = this.#ensureHandle();
+
+    throwIfAborted(options?.signal);
+
+    const pending = this.#provider.request({ method: "beginTransaction", card });
+
+    try {
+      await withAbort(() => pending, options);
+    } catch (e) {
+      if (e instanceof AbortError) {
+        pending
+          .then(() => this.#provider.request({ method: "endTransaction", card, disposition: Disposition.LeaveCard }))
+          .catch(() => {
+            // transaction not granted, or card disconnected
+          });
+      }
+
+      throw e;
+    }
+  }
+
+  async endTransaction(disposition = Disposition.LeaveCard): Promise<void> {
+    await this.#provider.request({ method: "endTransaction", card: this.#ensureHandle(), disposition });
+  }
+
+  protected async release(disposition: Disposition): Promise<ReaderStatus> {
+    const card = this.#handle;
+
+    this.#protocol = 0;
+    this.#handle = undefined;
+    this.#atr = undefined;
+
+    if (card === undefined) {
+      return this.reader.status;
+    }
+
+    const result = await this.#provider.request<DisconnectResult>({ method: "disconnect", card, disposition });
+
+    return result.status;
+  }
+
+  #ensureHandle(): number {
+    if (this.#handle === undefined) {
+      throw new SmartCardException("SmartCard disconected");
+    }
+
+    return this.#handle;
+  }
+}
@@ -0,0 +1,215 @@
+import { Context, INFINITE, Reader } from '../pcsc/pcsc.ts';
+import { PCSCException, SCARD_ERROR_CANCELLED } from '../pcsc/errors.ts';
+import { ReaderStatusChangeHandler } from '../pcsc/context.ts';
+import { ContextEvents, ContextEventStream, StatusChangeHandlers } from '../pcsc/context-events.ts';
+import { AbortOptions, withAbort } from '../pcsc/abort.ts';
+
+import { CardIdentifier } from '../iso7816/iso7816.ts';
+
+import { RemoteReader } from './reader.ts';
+import type { RemoteContextProvider } from './provider.ts';
+
+/**
+ * Context over the readers of a `RemoteServer`. Reader changes are pushed by the server, so
+ * no background monitor is needed: status change handlers and `events()` are notified as
+ * changes are received.
+ */
+export class RemoteContext implements Context {
+  #readers = new Map<string, RemoteReader>();
+
+  #handlers = new StatusChangeHandlers();
+
+  #events = new ContextEvents();
+
+  // incremented when a reader is added or removed
+  #readerListVersion = 0;
+
+  #isValid = true;
+
+  // pending waits, rejected by cancel()
+  #waits = new Set<(error: Error) => void>();
+
+  #unsubscribe: () => void;
+
+  /**
+   * Identifies cards by ATR, for `Reader.cardDescriptions`
+   */
+  cardIdentifier: CardIdentifier = CardIdentifier.default;
+
+  constructor(public readonly provider: RemoteContextProvider) {
+    // readers already present are not reported as added
+    provider.readers.forEach((info) => this.#readerChanged(info.name));
+
+    this.#unsubscribe = provider.onChange((name) => this.#readerChanged(name));
+  }
+
+  #readerChanged(name: string) {
+    const info = this.provider.getReader(name);
+    const reader = this.#readers.get(name);
+
+    if (info === undefined) {
+      if (reader !== undefined) {
+        reader.shutdown();
+
+        this.#readers.delete(name);
+        this.#readerListVersion++;
+
+        this.readerStatusChanged(reader);
+      }
+    } else if (reader === undefined) {
+      const reader = new RemoteReader(this, info);
+
+      this.#readers.set(name, reader);
+      this.#readerListVersion++;
+
+      // notify with "setup", then accept initial status
+      this.readerStatusChanged(reader);
+
+      reader.update(info, false);
+    } else {
+      reader.update(info);
+    }
+  }
+
+  async #waitForChange(readers: Reader[], timeout: number, includePNP = false): Promise<RemoteReader[]> {
+    if (!this.isValid() || !readers.every((reader) => reader instanceof RemoteReader)) {
+      return [];
+    }
+
+    const remoteReaders = readers as RemoteReader[];
+    const readerListVersion = this.#readerListVersion;
+    const deadline = (timeout == INFINITE) ? undefined : Date.now() + timeout;
+
+    while (true) {
+      const changed = remoteReaders.filter((reader) => reader.hasChanged);
+
+      if (changed.length > 0) {
+        changed.forEach((reader) => reader.acceptState());
+
+        return changed;
+      }
+
+      if (includePNP && readerListVersion != this.#readerListVersion) {
+        return [];
+      }
+
+      const remaining = (deadline !== undefined) ? deadline - Date.now() : undefined;
+
+      if (remaining !== undefined && remaining <= 0) {
+        return [];
+      }
+
+      await this.#nextChange(remaining);
+    }
+  }
+
+  /**
+   * Resolves on next change to a remote reader, or after `timeout`. Rejects if cancelled.
+   */
+  #nextChange(timeout?: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+
+      const done = () => {
+        clearTimeout(timer);
+        unsubscribe();
+        this.#waits.delete(cancel);
+      };
+
+      const unsubscribe = this.provider.onChange(() => {
+        done();
+        resolve();
+      });
+
+      const cancel = (error: Error) => {
+        done();
+        reject(error);
+      };
+
+      this.#waits.add(cancel);
+
+      if (timeout !== undefined) {
+        timer = setTimeout(() => {
+          done();
+          resolve();
+        }, timeout);
+      }
+    });
+  }
+
+  /**
+   * Called by `RemoteReader`, on each change of reader status
+   */
+  readerStatusChanged(reader: RemoteReader) {
+    this.#events.statusChanged(reader, reader.status);
+
+    this.#handlers.notify(reader, reader.status);
+  }
+
+  listReaders(_rescan = false): RemoteReader[] {
+    return Array.from(this.#readers.values());
+  }
+
+  waitForChange(
+    readers?: Reader[],
+    timeout = 0,
+    rescan = true,
+    options?: AbortOptions,
+  ): Promise<RemoteReader[]> {
+    const waitReaders = readers ?? this.listReaders();
+
+    return withAbort(
+      () => this.#waitForChange(waitReaders, timeout, rescan),
+      options,
+      () => this.cancel(),
+    );
+  }
+
+  events(): ContextEventStream {
+    return this.#events.subscribe();
+  }
+
+  get onStatusChange() {
+    return this.#handlers.primary;
+  }
+
+  set onStatusChange(handler: ReaderStatusChangeHandler | undefined) {
+    this.#handlers.primary = handler;
+  }
+
+  addStatusChangeHandler(handler: ReaderStatusChangeHandler): () => void {
+    return this.#handlers.add(handler);
+  }
+
+  shutdown(): Promise<void> {
+    this.#unsubscribe();
+
+    this.#readers.forEach((reader) => {
+      reader.shutdown();
+    });
+
+    this.#readers = new Map();
+    this.#handlers.clear();
+
+    this.#events.close();
+
+    this.cancel();
+
+    this.#isValid = false;
+
+    return Promise.resolve();
+  }
+
+  isValid(): boolean {
+    return this.#isValid;
+  }
+
+  /**
+   * Cancel all pending `waitForChange` calls (`SCardCancel`)
+   */
+  cancel() {
+    for (const cancel of Array.from(this.#waits)) {
+      cancel(new PCSCException(SCARD_ERROR_CANCELLED, "SCardGetStatusChange"));
+    }
+  }
+}
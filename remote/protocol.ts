@@ -0,0 +1,198 @@
+import { Disposition, DWORD, PCSCException, Protocol, ShareMode, StateFlags } from '../pcsc/pcsc.ts';
+import { ReaderStatus } from '../pcsc/context.ts';
+import { Attribute } from '../pcsc/attributes.ts';
+
+import { SmartCardException } from '../iso7816/iso7816.ts';
+
+/**
+ * Messages are JSON text frames, with bytes as hex strings, except `transmit` exchanges
+ * which are binary frames (see `TransmitFrame`).
+ *
+ * The client must first send `hello`, with the server's token. Requests carry an `id`,
+ * echoed in the response. Reader changes are pushed as events.
+ */
+export const REMOTE_PROTOCOL_VERSION = 1;
+
+/** WebSocket close code, for a missing or invalid token */
+export const CLOSE_UNAUTHORIZED = 4001;
+
+/** WebSocket close code, for an unsupported protocol version */
+export const CLOSE_UNSUPPORTED_VERSION = 4002;
+
+/**
+ * Reader, as exposed by the server
+ */
+export interface RemoteReaderInfo {
+  name: string;
+  state: StateFlags;
+
+  /** ATR of card present, as hex */
+  atr?: string;
+}
+
+/**
+ * Error thrown by the server's context, `PCSCException`s keep their return code
+ */
+export interface RemoteError {
+  message: string;
+  rc?: number;
+  func?: string;
+}
+
+export const RemoteError = {
+  from(error: unknown): RemoteError {
+    if (error instanceof PCSCException) {
+      return { message: error.message, rc: error.rc, func: error.func };
+    }
+
+    return { message: (error instanceof Error) ? error.message : String(error) };
+  },
+
+  toError(error: RemoteError): Error {
+    if (error.rc !== undefined) {
+      return new PCSCException(error.rc, error.func ?? "unknown");
+    }
+
+    return new SmartCardException(error.message);
+  },
+};
+
+export type RemoteRequest =
+  | { id: number; method: "hello"; token: string; version: number }
+  | { id: number; method: "connect"; reader: string; shareMode?: ShareMode; preferredProtocols?: Protocol }
+  | {
+    id: number;
+    method: "reconnect";
+    card: number;
+    shareMode: ShareMode;
+    preferredProtocols: Protocol;
+    initialization: Disposition;
+  }
+  | { id: number; method: "disconnect"; card: number; disposition: Disposition }
+  | { id: number; method: "status"; card: number }
+  | { id: number; method: "beginTransaction"; card: number }
+  | { id: number; method: "endTransaction"; card: number; disposition: Disposition }
+  | { id: number; method: "control"; reader: string; card?: number; ioctl: DWORD; data: string; expectedLen?: number }
+  | { id: number; method: "getAttribute"; card: number; attr: Attribute }
+  | { id: number; method: "setAttribute"; card: number; attr: Attribute; value: string };
+
+type WithoutId<R> = R extends unknown ? Omit<R, "id"> : never;
+
+/**
+ * Request, before an `id` is assigned
+ */
+export const RemoteRequest = {
+  /**
+   * Check that a parsed JSON message is a request: an object with a string `method`
+   */
+  is(message: unknown): message is RemoteRequest {
+    return typeof message == "object" && message !== null &&
+      typeof (message as { method?: unknown }).method == "string";
+  },
+};
+
+export type RemoteRequestParams = WithoutId<RemoteRequest>;
+
+export interface HelloResult {
+  version: number;
+  readers: RemoteReaderInfo[];
+}
+
+export interface ConnectResult {
+  card: number;
+  protocol: Protocol;
+
+  /** hex */
+  atr: string;
+}
+
+export interface ReconnectResult {
+  status: ReaderStatus;
+  protocol: Protocol;
+
+  /** hex */
+  atr: string;
+}
+
+export interface DisconnectResult {
+  status: ReaderStatus;
+}
+
+export interface StatusResult {
+  readerNames: string[];
+  state: DWORD;
+  protocol: Protocol;
+
+  /** hex */
+  atr: string;
+}
+
+export interface DataResult {
+  /** hex */
+  data: string;
+}
+
+export type RemoteResponse =
+  | { id: number; result: unknown }
+  | { id: number; error: RemoteError };
+
+export type RemoteEvent =
+  | { event: "reader"; reader: RemoteReaderInfo }
+  | { event: "reader-removed"; name: string };
+
+/**
+ * Binary `transmit` frames:
+ *
+ * - request: id (4 bytes), card (4 bytes), expected response length (4 bytes), command
+ * - response: id (4 bytes), response
+ *
+ * A failed `transmit` is answered by a JSON error response with the same `id`.
+ */
+export const TransmitFrame = {
+  encodeRequest(id: number, card: number, expectedLen: number, command: Uint8Array): Uint8Array {
+    const frame = new Uint8Array(12 + command.length);
+    const view = new DataView(frame.buffer);
+
+    view.setUint32(0, id);
+    view.setUint32(4, card);
+    view.setUint32(8, expectedLen);
+    frame.set(command, 12);
+
+    return frame;
+  },
+
+  decodeRequest(frame: Uint8Array): { id: number; card: number; expectedLen: number; command: Uint8Array } {
+    if (frame.length < 12) {
+      throw new SmartCardException("Invalid transmit frame");
+    }
+
+    const view = new DataView(frame.buffer, frame.byteOffset, frame.byteLength);
+
+    return {
+      id: view.getUint32(0),
+      card: view.getUint32(4),
+      expectedLen: view.getUint32(8),
+      command: frame.slice(12),
+    };
+  },
+
+  encodeResponse(id: number, response: Uint8Array): Uint8Array {
+    const frame = new Uint8Array(4 + response.length);
+
+    new DataView(frame.buffer).setUint32(0, id);
+    frame.set(response, 4);
+
+    return frame;
+  },
+
+  decodeResponse(frame: Uint8Array): { id: number; response: Uint8Array } {
+    if (frame.length < 4) {
+      throw new SmartCardException("Invalid transmit frame");
+    }
+
+    return {
+      id: new DataView(frame.buffer, frame.byteOffset, frame.byteLength).getUint32(0),
+      response: frame.slice(4),
+    };
+  },
+};
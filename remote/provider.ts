@@ -0,0 +1,249 @@
+import { PCSCException, SCARD_E_NO_SERVICE, Scope } from '../pcsc/pcsc.ts';
+import { AbortOptions, withAbort } from '../pcsc/abort.ts';
+
+import { SmartCardException } from '../iso7816/iso7816.ts';
+
+import { RemoteContext } from './context.ts';
+import {
+  CLOSE_UNAUTHORIZED,
+  HelloResult,
+  REMOTE_PROTOCOL_VERSION,
+  RemoteError,
+  RemoteEvent,
+  RemoteReaderInfo,
+  RemoteRequestParams,
+  RemoteResponse,
+  TransmitFrame,
+} from './protocol.ts';
+import type { ContextProvider } from '../pcsc/context-provider.ts';
+
+export interface RemoteConnectOptions extends AbortOptions {
+  /** Token of the `RemoteServer` */
+  token: string;
+}
+
+interface PendingRequest {
+  resolve: (result: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Client of a `RemoteServer`: contexts established by this provider use the readers and cards of the
+ * server's context, over a single WebSocket connection.
+ *
+ * ```typescript
+ * const provider = await RemoteContextProvider.connect("ws://workstation:35964", { token });
+ *
+ * ContextProvider.registerProvider(provider);
+ * ```
+ */
+export class RemoteContextProvider implements ContextProvider {
+  #socket: WebSocket;
+  #requestCount = 0;
+  #pending = new Map<number, PendingRequest>();
+  #readers = new Map<string, RemoteReaderInfo>();
+  #listeners = new Set<(name: string) => void>();
+  #error?: Error;
+  #closed: Promise<void>;
+
+  readonly name: string = "Remote";
+
+  /**
+   * Use `RemoteContextProvider.connect`, or pass an open WebSocket and call `hello`
+   */
+  constructor(socket: WebSocket) {
+    this.#socket = socket;
+    socket.binaryType = "arraybuffer";
+
+    socket.onmessage = (event) => this.#receive(event.data);
+
+    this.#closed = new Promise((resolve) => {
+      socket.onclose = (event) => {
+        this.#connectionClosed(event.code, event.reason);
+
+        resolve();
+      };
+    });
+  }
+
+  /**
+   * Connect to a `RemoteServer`, resolving once authenticated, with the server's readers
+   */
+  static async connect(url: string | URL, options: RemoteConnectOptions): Promise<RemoteContextProvider> {
+    const socket = new WebSocket(url);
+
+    try {
+      await withAbort(
+        () =>
+          new Promise((resolve, reject) => {
+            socket.onopen = resolve;
+            socket.onerror = () => reject(new PCSCException(SCARD_E_NO_SERVICE, "WebSocket", `Cannot connect to ${url}`));
+          }),
+        options,
+      );
+
+      const provider = new RemoteContextProvider(socket);
+
+      await withAbort(() => provider.hello(options.token), options);
+
+      return provider;
+    } catch (e) {
+      socket.close();
+
+      throw e;
+    }
+  }
+
+  /**
+   * Authenticate, and receive the server's readers
+   */
+  async hello(token: string): Promise<void> {
+    const result = await this.request<HelloResult>({ method: "hello", token, version: REMOTE_PROTOCOL_VERSION });
+
+    for (const reader of result.readers) {
+      this.#readerChanged(reader);
+    }
+  }
+
+  get isConnected(): boolean {
+    return this.#socket.readyState == WebSocket.OPEN;
+  }
+
+  /**
+   * Readers of the server, as last notified
+   */
+  get readers(): RemoteReaderInfo[] {
+    return Array.from(this.#readers.values());
+  }
+
+  getReader(name: string): RemoteReaderInfo | undefined {
+    return this.#readers.get(name);
+  }
+
+  establishContext(_scope?: Scope): RemoteContext {
+    if (!this.isConnected) {
+      throw this.#error ?? new PCSCException(SCARD_E_NO_SERVICE, "SCardEstablishContext");
+    }
+
+    return new RemoteContext(this);
+  }
+
+  /**
+   * Listen for changes to any reader, by name. Returns a function that removes the listener
+   */
+  onChange(listener: (name: string) => void): () => void {
+    this.#listeners.add(listener);
+
+    return () => {
+      this.#listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Send a request, resolving with its result. Rejects with the error thrown on the server.
+   */
+  request<T>(request: RemoteRequestParams): Promise<T> {
+    return this.#send<T>((id) => JSON.stringify({ ...request, id }), request.method);
+  }
+
+  /**
+   * Transmit a command to a card connected on the server, as a binary frame
+   */
+  transmit(card: number, command: Uint8Array, expectedLen?: number): Promise<Uint8Array> {
+    return this.#send<Uint8Array>((id) => TransmitFrame.encodeRequest(id, card, expectedLen ?? 0, command), "SCardTransmit");
+  }
+
+  /**
+   * Close the connection. Cards connected through this provider are disconnected by the server.
+   */
+  async close(): Promise<void> {
+    this.#socket.close();
+
+    await this.#closed;
+  }
+
+  #send<T>(encode: (id: number) => string | Uint8Array, func: string): Promise<T> {
+    if (!this.isConnected) {
+      return Promise.reject(this.#error ?? new PCSCException(SCARD_E_NO_SERVICE, func));
+    }
+
+    const id = ++this.#requestCount;
+
+    return new Promise<T>((resolve, reject) => {
+      this.#pending.set(id, { resolve: resolve as (result: unknown) => void, reject });
+
+      this.#socket.send(encode(id));
+    });
+  }
+
+  #receive(data: string | ArrayBuffer) {
+    if (typeof data != "string") {
+      const { id, response } = TransmitFrame.decodeResponse(new Uint8Array(data));
+
+      this.#settle(id, (pending) => pending.resolve(response));
+
+      return;
+    }
+
+    const message: RemoteResponse | RemoteEvent = JSON.parse(data);
+
+    if ("event" in message) {
+      if (message.event == "reader") {
+        this.#readerChanged(message.reader);
+      } else {
+        this.#readerRemoved(message.name);
+      }
+    } else if ("error" in message) {
+      this.#settle(message.id, (pending) => pending.reject(RemoteError.toError(message.error)));
+    } else {
+      this.#settle(message.id, (pending) => pending.resolve(message.result));
+    }
+  }
+
+  #settle(id: number, settle: (pending: PendingRequest) => void) {
+    const pending = this.#pending.get(id);
+
+    if (pending !== undefined) {
+      this.#pending.delete(id);
+
+      settle(pending);
+    }
+  }
+
+  #readerChanged(reader: RemoteReaderInfo) {
+    this.#readers.set(reader.name, reader);
+
+    this.#notify(reader.name);
+  }
+
+  #readerRemoved(name: string) {
+    if (this.#readers.delete(name)) {
+      this.#notify(name);
+    }
+  }
+
+  #notify(name: string) {
+    for (const listener of Array.from(this.#listeners)) {
+      listener(name);
+    }
+  }
+
+  /**
+   * Fail pending requests, and remove all readers
+   */
+  #connectionClosed(code: number, reason: string) {
+    this.#error = (code == CLOSE_UNAUTHORIZED)
+      ? new SmartCardException("Remote PC/SC server refused token")
+      : new PCSCException(SCARD_E_NO_SERVICE, "WebSocket", `Connection closed (${code}${reason ? " " + reason : ""})`);
+
+    const pending = Array.from(this.#pending.values());
+
+    this.#pending.clear();
+
+    pending.forEach(({ reject }) => reject(this.#error!));
+
+    for (const name of Array.from(this.#readers.keys())) {
+      this.#readerRemoved(name);
+    }
+  }
+}
@@ -0,0 +1,181 @@
+import { Disposition, DWORD, MAX_BUFFER_SIZE, Protocol, Reader, ShareMode, StateFlag, StateFlags } from '../pcsc/pcsc.ts';
+import { ReaderStatus, ReaderStatusChangeHandler } from '../pcsc/context.ts';
+import { StatusChangeHandlers } from '../pcsc/context-events.ts';
+import { AbortError } from '../pcsc/errors.ts';
+import { AbortOptions, throwIfAborted, withAbort } from '../pcsc/abort.ts';
+
+import { ATR, BytesLike, HEX, SmartCardException } from '../iso7816/iso7816.ts';
+
+import { RemoteContext } from './context.ts';
+import { RemoteCard } from './card.ts';
+import { ConnectResult, DataResult, RemoteReaderInfo } from './protocol.ts';
+
+/**
+ * A reader of a `RemoteServer`, with state as last notified by the server
+ */
+export class RemoteReader implements Reader {
+  #info: RemoteReaderInfo;
+  #acceptedState: StateFlags;
+  #status: ReaderStatus = "setup";
+  #handlers = new StatusChangeHandlers();
+
+  constructor(
+    public readonly context: RemoteContext,
+    info: RemoteReaderInfo,
+  ) {
+    this.#info = info;
+    this.#acceptedState = info.state;
+  }
+
+  /**
+   * Reader state differs from that seen during most recent `waitForChange`
+   */
+  get hasChanged(): boolean {
+    return this.#status != "shutdown" && this.#info.state != this.#acceptedState;
+  }
+
+  /**
+   * Called by `waitForChange`, once a change has been reported
+   */
+  acceptState() {
+    this.#acceptedState = this.#info.state;
+  }
+
+  /**
+   * Accept state notified by the server, and notify listeners of any change of status
+   */
+  update(info: RemoteReaderInfo, notify = true) {
+    const event = info.state;
+    const status = this.#status;
+
+    this.#info = info;
+
+    if (this.#status == "shutdown") {
+      return;
+    }
+
+    if (event & StateFlag.Present) {
+      if (event & StateFlag.Inuse) {
+        this.#status = "connected";
+      } else if (event & StateFlag.Mute) {
+        this.#status = "mute";
+      } else {
+        this.#status = "present";
+      }
+    } else if (event & StateFlag.Empty) {
+      this.#status = "empty";
+    }
+
+    if (notify && status != this.#status) {
+      try {
+        this.context.readerStatusChanged(this);
+      } finally {
+        this.#handlers.notify(this, this.status);
+      }
+    }
+  }
+
+  shutdown() {
+    this.#status = "shutdown";
+  }
+
+  get onStatusChange() {
+    return this.#handlers.primary;
+  }
+
+  set onStatusChange(handler: ReaderStatusChangeHandler | undefined) {
+    this.#handlers.primary = handler;
+  }
+
+  addStatusChangeHandler(handler: ReaderStatusChangeHandler): () => void {
+    return this.#handlers.add(handler);
+  }
+
+  get name() {
+    return this.#info.name;
+  }
+
+  get status(): ReaderStatus {
+    return this.#status;
+  }
+
+  async waitForChange(timeout: DWORD = 0, options?: AbortOptions): Promise<ReaderStatus | "no-change"> {
+    // Wait for a change on this reader ONLY.
+    const changed = await this.context.waitForChange([this], timeout, false, options);
+
+    return (changed.length == 1) ? this.status : "no-change";
+  }
+
+  get state(): StateFlags {
+    return this.#info.state;
+  }
+
+  get atr(): ATR | undefined {
+    return (this.isPresent && this.#info.atr) ? ATR.from(HEX.parse(this.#info.atr)) : undefined;
+  }
+
+  get cardDescriptions(): string[] {
+    const atr = this.atr;
+
+    return (atr !== undefined) ? this.context.cardIdentifier.identify(atr) : [];
+  }
+
+  get isPresent(): boolean {
+    return (this.state & StateFlag.Present) != 0;
+  }
+
+  get isConnected(): boolean {
+    return (this.state & StateFlag.Inuse) != 0;
+  }
+
+  get isMute(): boolean {
+    return (this.state & StateFlag.Mute) != 0;
+  }
+
+  async connect(
+    shareMode = ShareMode.Shared,
+    preferredProtocols = Protocol.Any,
+    options?: AbortOptions,
+  ): Promise<RemoteCard> {
+    if (!this.context.isValid()) {
+      throw new SmartCardException("SmartCard context is shutdown");
+    }
+
+    throwIfAborted(options?.signal);
+
+    const provider = this.context.provider;
+    const pending = provider.request<ConnectResult>({ method: "connect", reader: this.name, shareMode, preferredProtocols });
+
+    try {
+      return new RemoteCard(this, await withAbort(() => pending, options));
+    } catch (e) {
+      if (e instanceof AbortError) {
+        pending
+          .then(({ card }) => provider.request({ method: "disconnect", card, disposition: Disposition.LeaveCard }))
+          .catch(() => {
+            // not connected
+          });
+      }
+
+      throw e;
+    }
+  }
+
+  /**
+   * Send a control command (IOCTL) to the reader, using a DIRECT connection on the server.
+   * Does not require a card to be present.
+   */
+  control(ioctl: DWORD, data: BytesLike = [], expectedLen = MAX_BUFFER_SIZE, options?: AbortOptions): Promise<Uint8Array> {
+    return withAbort(async () => {
+      const result = await this.context.provider.request<DataResult>({
+        method: "control",
+        reader: this.name,
+        ioctl,
+        data: HEX.toString(BytesLike.toUint8Array(data)),
+        expectedLen,
+      });
+
+      return HEX.parse(result.data);
+    }, options);
+  }
+}
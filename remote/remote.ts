@@ -0,0 +1,20 @@
+// Server
+export { RemoteServer } from './server.ts';
+export type { RemoteServeOptions, RemoteServerOptions } from './server.ts';
+
+// Client
+export { RemoteContextProvider } from './provider.ts';
+export type { RemoteConnectOptions } from './provider.ts';
+export { RemoteContext } from './context.ts';
+export { RemoteReader } from './reader.ts';
+export { RemoteCard } from './card.ts';
+
+// Protocol
+export {
+  CLOSE_UNAUTHORIZED,
+  CLOSE_UNSUPPORTED_VERSION,
+  REMOTE_PROTOCOL_VERSION,
+  RemoteError,
+  TransmitFrame,
+} from './protocol.ts';
+export type { RemoteEvent, RemoteReaderInfo, RemoteRequest, RemoteResponse } from './protocol.ts';
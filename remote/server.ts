@@ -0,0 +1,405 @@
+import {
+  Card,
+  Context,
+  Disposition,
+  PCSCException,
+  Reader,
+  SCARD_E_INVALID_HANDLE,
+  SCARD_E_READER_UNAVAILABLE,
+} from '../pcsc/pcsc.ts';
+import { ReaderStatus } from '../pcsc/context.ts';
+import { AttributeCodec } from '../pcsc/attributes.ts';
+
+import { HEX, SmartCardException } from '../iso7816/iso7816.ts';
+
+import {
+  CLOSE_UNAUTHORIZED,
+  CLOSE_UNSUPPORTED_VERSION,
+  ConnectResult,
+  DataResult,
+  DisconnectResult,
+  HelloResult,
+  ReconnectResult,
+  REMOTE_PROTOCOL_VERSION,
+  RemoteError,
+  RemoteEvent,
+  RemoteReaderInfo,
+  RemoteRequest,
+  RemoteResponse,
+  StatusResult,
+  TransmitFrame,
+} from './protocol.ts';
+
+export interface RemoteServerOptions {
+  /** Shared secret, that clients must send in their `hello` */
+  token: string;
+}
+
+export interface RemoteServeOptions {
+  /** Default "127.0.0.1" - only local clients */
+  hostname?: string;
+
+  /** Default 8000 */
+  port?: number;
+
+  /** Stops the HTTP server */
+  signal?: AbortSignal;
+
+  onListen?: (address: { hostname: string; port: number }) => void;
+}
+
+/**
+ * Reader, as exposed to clients
+ */
+function readerInfo(reader: Reader): RemoteReaderInfo {
+  const atr = reader.atr?.bytes;
+
+  return {
+    name: reader.name,
+    state: reader.state,
+    ...(atr !== undefined ? { atr: HEX.toString(atr) } : {}),
+  };
+}
+
+/**
+ * Compare tokens, in constant time for tokens of the same length
+ */
+function isSameToken(token: string, expected: string): boolean {
+  let diff = token.length ^ expected.length;
+
+  for (let i = 0; i < expected.length; i++) {
+    diff |= token.charCodeAt(i % Math.max(token.length, 1)) ^ expected.charCodeAt(i);
+  }
+
+  return diff == 0;
+}
+
+/**
+ * A client connection, with the cards it connected
+ */
+class RemoteSession {
+  #cards = new Map<number, Card>();
+  #cardCount = 0;
+  #isAuthorized = false;
+  #isClosed = false;
+  #unsubscribe?: () => void;
+
+  constructor(
+    readonly server: RemoteServer,
+    readonly socket: WebSocket,
+    readonly onClose: () => void,
+  ) {
+    socket.binaryType = "arraybuffer";
+
+    socket.onmessage = (event) =>
+      this.#receive(event.data).catch((e) => {
+        this.#send({ id: 0, error: RemoteError.from(e) });
+        this.close(1011, "Internal error");
+      });
+    socket.onclose = () => this.close();
+  }
+
+  /**
+   * Disconnect all cards of this session (ending their transactions), and close the socket
+   */
+  async close(code?: number, reason?: string) {
+    if (this.#isClosed) {
+      return;
+    }
+
+    this.#isClosed = true;
+    this.#unsubscribe?.();
+
+    if (this.socket.readyState == WebSocket.OPEN || this.socket.readyState == WebSocket.CONNECTING) {
+      this.socket.close(code, reason);
+    }
+
+    const cards = Array.from(this.#cards.values());
+
+    this.#cards.clear();
+
+    for (const card of cards) {
+      try {
+        await card.disconnect(Disposition.LeaveCard);
+      } catch (_) {
+        // card removed, or context shutdown
+      }
+    }
+
+    this.onClose();
+  }
+
+  #send(message: RemoteResponse | RemoteEvent | Uint8Array) {
+    if (this.socket.readyState == WebSocket.OPEN) {
+      this.socket.send((message instanceof Uint8Array) ? message : JSON.stringify(message));
+    }
+  }
+
+  async #receive(data: string | ArrayBuffer) {
+    if (typeof data != "string") {
+      if (!this.#isAuthorized) {
+        return this.close(CLOSE_UNAUTHORIZED, "Unauthorized");
+      }
+
+      let id = 0;
+
+      try {
+        const request = TransmitFrame.decodeRequest(new Uint8Array(data));
+
+        id = request.id;
+
+        const response = await this.#card(request.card, "SCardTransmit")
+          .transmit(request.command, request.expectedLen || undefined);
+
+        this.#send(TransmitFrame.encodeResponse(id, response));
+      } catch (e) {
+        this.#send({ id, error: RemoteError.from(e) });
+      }
+
+      return;
+    }
+
+    let request: unknown;
+
+    try {
+      request = JSON.parse(data);
+    } catch (_) {
+      return this.close(1007, "Invalid message");
+    }
+
+    if (!RemoteRequest.is(request)) {
+      return this.close(1007, "Invalid message");
+    }
+
+    if (!this.#isAuthorized && request.method != "hello") {
+      return this.close(CLOSE_UNAUTHORIZED, "Unauthorized");
+    }
+
+    try {
+      this.#send({ id: request.id, result: await this.#dispatch(request) });
+    } catch (e) {
+      this.#send({ id: request.id, error: RemoteError.from(e) });
+    }
+  }
+
+  #reader(name: string, func: string): Reader {
+    const reader = this.server.context.listReaders().find((reader) => reader.name == name);
+
+    if (reader === undefined) {
+      throw new PCSCException(SCARD_E_READER_UNAVAILABLE, func);
+    }
+
+    return reader;
+  }
+
+  #card(id: number, func: string): Card {
+    const card = this.#cards.get(id);
+
+    if (card === undefined) {
+      throw new PCSCException(SCARD_E_INVALID_HANDLE, func);
+    }
+
+    return card;
+  }
+
+  #hello(token: string, version: number): HelloResult | undefined {
+    if (!isSameToken(String(token), this.server.token)) {
+      this.close(CLOSE_UNAUTHORIZED, "Unauthorized");
+
+      return;
+    }
+
+    if (version != REMOTE_PROTOCOL_VERSION) {
+      this.close(CLOSE_UNSUPPORTED_VERSION, `Unsupported protocol version ${version}`);
+
+      return;
+    }
+
+    if (!this.#isAuthorized) {
+      this.#isAuthorized = true;
+
+      this.#unsubscribe = this.server.context.addStatusChangeHandler((reader, status) =>
+        this.#statusChanged(reader, status)
+      );
+    }
+
+    return {
+      version: REMOTE_PROTOCOL_VERSION,
+      readers: this.server.context.listReaders().map(readerInfo),
+    };
+  }
+
+  #statusChanged(reader: Reader, status: ReaderStatus) {
+    this.#send(
+      (status == "shutdown")
+        ? { event: "reader-removed", name: reader.name }
+        : { event: "reader", reader: readerInfo(reader) },
+    );
+  }
+
+  async #dispatch(request: RemoteRequest): Promise<unknown> {
+    switch (request.method) {
+      case "hello":
+        return this.#hello(request.token, request.version);
+
+      case "connect": {
+        const card = await this.#reader(request.reader, "SCardConnect")
+          .connect(request.shareMode, request.preferredProtocols);
+
+        // session closed while connecting: nobody will disconnect this card
+        if (this.#isClosed) {
+          await card.disconnect(Disposition.LeaveCard).catch(() => {});
+
+          throw new SmartCardException("RemoteServer: session is closed");
+        }
+
+        const id = ++this.#cardCount;
+
+        this.#cards.set(id, card);
+
+        return { card: id, protocol: card.protocol, atr: HEX.toString(card.atr?.bytes ?? []) } as ConnectResult;
+      }
+
+      case "reconnect": {
+        const card = this.#card(request.card, "SCardReconnect");
+        const status = await card.reconnect(request.shareMode, request.preferredProtocols, request.initialization);
+
+        return { status, protocol: card.protocol, atr: HEX.toString(card.atr?.bytes ?? []) } as ReconnectResult;
+      }
+
+      case "disconnect": {
+        const card = this.#card(request.card, "SCardDisconnect");
+
+        this.#cards.delete(request.card);
+
+        return { status: await card.disconnect(request.disposition) } as DisconnectResult;
+      }
+
+      case "status": {
+        const status = await this.#card(request.card, "SCardStatus").status();
+
+        return {
+          readerNames: status.readerNames,
+          state: status.state,
+          protocol: status.protocol,
+          atr: HEX.toString(status.atr),
+        } as StatusResult;
+      }
+
+      case "beginTransaction":
+        await this.#card(request.card, "SCardBeginTransaction").beginTransaction();
+
+        return {};
+
+      case "endTransaction":
+        await this.#card(request.card, "SCardEndTransaction").endTransaction(request.disposition);
+
+        return {};
+
+      case "control": {
+        const { ioctl, expectedLen } = request;
+        const data = HEX.parse(request.data);
+
+        const response = (request.card !== undefined)
+          ? await this.#card(request.card, "SCardControl").control(ioctl, data, expectedLen)
+          : await this.#reader(request.reader, "SCardControl").control(ioctl, data, expectedLen);
+
+        return { data: HEX.toString(response) } as DataResult;
+      }
+
+      case "getAttribute": {
+        const value = await this.#card(request.card, "SCardGetAttrib").getAttribute(request.attr);
+
+        return { data: HEX.toString(AttributeCodec.encode(request.attr, value)) } as DataResult;
+      }
+
+      case "setAttribute":
+        await this.#card(request.card, "SCardSetAttrib").setAttribute(request.attr, HEX.parse(request.value));
+
+        return {};
+
+      default:
+        throw new SmartCardException(`Unknown method ${(request as { method: string }).method}`);
+    }
+  }
+}
+
+/**
+ * Exposes a local `Context` - reader list and changes, connections, `transmit`, `control` and
+ * transactions - to `RemoteContextProvider` clients, over WebSocket.
+ *
+ * Clients must present the server's token. Cards connected by a client are disconnected when it
+ * goes away, ending any transaction it holds.
+ *
+ * ```typescript
+ * const server = new RemoteServer(ContextProvider.establishContext(), { token: Deno.env.get("PCSC_TOKEN")! });
+ *
+ * server.serve({ port: 35964 });
+ * ```
+ */
+export class RemoteServer {
+  #sessions = new Set<RemoteSession>();
+
+  readonly token: string;
+
+  constructor(public readonly context: Context, options: RemoteServerOptions) {
+    if (options.token == "") {
+      throw new SmartCardException("RemoteServer: a token is required");
+    }
+
+    this.token = options.token;
+  }
+
+  /**
+   * Number of connected clients
+   */
+  get sessionCount(): number {
+    return this.#sessions.size;
+  }
+
+  /**
+   * Serve clients on a new HTTP server
+   */
+  serve(options: RemoteServeOptions = {}): Deno.HttpServer {
+    return Deno.serve(
+      {
+        hostname: options.hostname ?? "127.0.0.1",
+        port: options.port,
+        signal: options.signal,
+        onListen: options.onListen ?? (() => {}),
+      },
+      (request) => this.handleRequest(request),
+    );
+  }
+
+  /**
+   * Upgrade an HTTP request to a client WebSocket, for use within an existing HTTP server
+   */
+  handleRequest(request: Request): Response {
+    if (request.headers.get("upgrade")?.toLowerCase() != "websocket") {
+      return new Response("WebSocket expected", { status: 426 });
+    }
+
+    const { socket, response } = Deno.upgradeWebSocket(request);
+
+    this.accept(socket);
+
+    return response;
+  }
+
+  /**
+   * Serve a client on an accepted WebSocket
+   */
+  accept(socket: WebSocket) {
+    const session: RemoteSession = new RemoteSession(this, socket, () => this.#sessions.delete(session));
+
+    this.#sessions.add(session);
+  }
+
+  /**
+   * Close all client connections. The served context is not shutdown.
+   */
+  async close(): Promise<void> {
+    await Promise.all(Array.from(this.#sessions).map((session) => session.close(1001, "Server closing")));
+  }
+}
@@ -0,0 +1,253 @@
+import { Context, Protocol, Reader, ShareMode } from '../pcsc/pcsc.ts';
+import { ReaderStatus } from '../pcsc/context.ts';
+import { AbortOptions } from '../pcsc/abort.ts';
+
+import { HEX, Redaction } from '../iso7816/iso7816.ts';
+
+import { InterceptedContext } from '../intercept/context.ts';
+import { InterceptedReader } from '../intercept/reader.ts';
+
+import {
+  RECORDING_VERSION,
+  RecordedError,
+  RecordedEvent,
+  RecordedExchange,
+  RecordedPresence,
+  SessionRecording,
+} from './recording.ts';
+
+/**
+ * Decorates any `Context`, recording reader changes, connections and APDU exchanges into a `SessionRecording`,
+ * to be served back by a `ReplayContextProvider`.
+ *
+ * Reader changes are recorded by a status change handler on the decorated context, which keeps its
+ * background monitor running until `shutdown`.
+ *
+ * Sensitive command data is masked according to the `Redaction` policy, and matches any data when replayed.
+ *
+ * ```typescript
+ * const context = new RecordingContext(ContextProvider.establishContext());
+ * ...
+ * await Deno.writeTextFile("session.json", JSON.stringify(context.recording, null, 2));
+ * ```
+ */
+export class RecordingContext extends InterceptedContext {
+  // last recorded presence and ATR, by reader name
+  #presence = new Map<string, string>();
+
+  #events: RecordedEvent[] = [];
+
+  #start = Date.now();
+
+  #startedAt = new Date(this.#start).toISOString();
+
+  #unsubscribe: () => void;
+
+  constructor(context: Context) {
+    super(context);
+
+    this.#unsubscribe = context.addStatusChangeHandler((reader, status) => this.recordPresence(reader, status));
+
+    this.use({
+      connect: async ({ reader, card: id, shareMode }, next) => {
+        const event = {
+          type: "connect" as const,
+          time: this.elapsed,
+          reader: reader.name,
+          card: id,
+          shareMode: shareMode ?? ShareMode.Shared,
+        };
+
+        try {
+          const card = await next();
+
+          this.record({ ...event, protocol: card.protocol });
+
+          return card;
+        } catch (e) {
+          this.record({ ...event, protocol: Protocol.Undefined, error: RecordedError.from(e) });
+
+          throw e;
+        }
+      },
+
+      reconnect: async ({ card, initialization }, next) => {
+        const event = {
+          type: "reconnect" as const,
+          time: this.elapsed,
+          reader: card.reader.name,
+          card: card.id,
+          initialization,
+        };
+
+        try {
+          const status = await next();
+
+          this.record({ ...event, protocol: card.protocol });
+
+          return status;
+        } catch (e) {
+          this.record({ ...event, protocol: Protocol.Undefined, error: RecordedError.from(e) });
+
+          throw e;
+        }
+      },
+
+      disconnect: async ({ card, disposition }, next) => {
+        const status = await next();
+
+        this.record({ type: "disconnect", time: this.elapsed, reader: card.reader.name, card: card.id, disposition });
+
+        return status;
+      },
+
+      transmit: ({ card, command }, next) =>
+        this.recordExchange(
+          {
+            type: "transmit",
+            time: this.elapsed,
+            reader: card.reader.name,
+            card: card.id,
+            duration: 0,
+            command: Redaction.toHex(command, Redaction.commandRanges(command)),
+          },
+          next,
+        ),
+
+      transmitAPDU: async ({ card, command, commandBytes }, next) => {
+        let response;
+
+        await this.recordExchange(
+          {
+            type: "transmit",
+            time: this.elapsed,
+            reader: card.reader.name,
+            card: card.id,
+            duration: 0,
+            command: Redaction.toHex(commandBytes, Redaction.commandRanges(commandBytes, command.sensitivity)),
+          },
+          async () => (response = await next()).toBytes(),
+        );
+
+        return response!;
+      },
+
+      control: ({ reader, card, ioctl, data }, next) =>
+        this.recordExchange(
+          {
+            type: "control",
+            time: this.elapsed,
+            reader: reader.name,
+            ...(card !== undefined ? { card: card.id } : {}),
+            duration: 0,
+            ioctl,
+            command: HEX.toString(data),
+          },
+          next,
+        ),
+    });
+  }
+
+  /**
+   * Events recorded so far
+   */
+  get recording(): SessionRecording {
+    return {
+      version: RECORDING_VERSION,
+      startedAt: this.#startedAt,
+      events: this.#events.slice(),
+    };
+  }
+
+  /**
+   * Milliseconds since start of recording
+   */
+  get elapsed(): number {
+    return Date.now() - this.#start;
+  }
+
+  record(event: RecordedEvent) {
+    this.#events.push(event);
+  }
+
+  /**
+   * Run and record a `transmit` or `control` exchange, with its response or error, and duration
+   */
+  async recordExchange(exchange: RecordedExchange, operation: () => Promise<Uint8Array>): Promise<Uint8Array> {
+    try {
+      const response = await operation();
+
+      exchange.response = HEX.toString(response);
+
+      return response;
+    } catch (e) {
+      exchange.error = RecordedError.from(e);
+
+      throw e;
+    } finally {
+      exchange.duration = this.elapsed - exchange.time;
+
+      this.record(exchange);
+    }
+  }
+
+  /**
+   * Record card presence and ATR of a reader, if changed since last recorded
+   */
+  recordPresence(reader: Reader, status: ReaderStatus) {
+    const presence: RecordedPresence = (status == "shutdown")
+      ? "shutdown"
+      : (status == "setup")
+      ? (reader.isMute ? "mute" : reader.isPresent ? "present" : "empty")
+      : (status == "mute") ? "mute" : (status == "empty") ? "empty" : "present";
+
+    const atr = (presence == "present") ? reader.atr?.bytes : undefined;
+    const key = `${presence}:${HEX.toString(atr ?? [])}`;
+
+    if (this.#presence.get(reader.name) != key) {
+      this.#presence.set(reader.name, key);
+
+      this.record({
+        type: "status",
+        time: this.elapsed,
+        reader: reader.name,
+        presence,
+        ...(atr !== undefined ? { atr: HEX.toString(atr) } : {}),
+      });
+    }
+
+    if (presence == "shutdown") {
+      this.#presence.delete(reader.name);
+    }
+  }
+
+  override listReaders(rescan = false): InterceptedReader[] {
+    return super.listReaders(rescan).map((reader) => {
+      this.recordPresence(reader, reader.status);
+
+      return reader;
+    });
+  }
+
+  override async waitForChange(
+    readers?: Reader[],
+    timeout?: number,
+    rescan?: boolean,
+    options?: AbortOptions,
+  ): Promise<InterceptedReader[]> {
+    return (await super.waitForChange(readers, timeout, rescan, options)).map((reader) => {
+      this.recordPresence(reader, reader.status);
+
+      return reader;
+    });
+  }
+
+  /**
+   * Stop recording, and shutdown decorated context
+   */
+  override async shutdown(): Promise<void> {
+    this.#unsubscribe();
+
+    await super.shutdown();
+  }
+}
@@ -0,0 +1,143 @@
+import { Disposition, PCSCException, Protocol, ShareMode } from '../pcsc/pcsc.ts';
+
+import { SmartCardException } from '../iso7816/iso7816.ts';
+
+/**
+ * Version of the `SessionRecording` format, incremented on incompatible changes
+ */
+export const RECORDING_VERSION = 1;
+
+/**
+ * Card presence in a reader, or `shutdown` for a reader that was removed
+ */
+export type RecordedPresence = "empty" | "present" | "mute" | "shutdown";
+
+/**
+ * Failure of a recorded operation, with return code and function for a `PCSCException`
+ */
+export interface RecordedError {
+  message: string;
+  rc?: number;
+  func?: string;
+}
+
+interface RecordedEventBase {
+  /** Milliseconds since start of recording */
+  time: number;
+
+  reader: string;
+}
+
+/**
+ * Reader added or removed, card inserted, removed or mute. `atr` as hex, when present.
+ */
+export interface RecordedStatusEvent extends RecordedEventBase {
+  type: "status";
+  presence: RecordedPresence;
+  atr?: string;
+}
+
+export interface RecordedConnectEvent extends RecordedEventBase {
+  type: "connect";
+
+  /** Identifies the connection in later events */
+  card: number;
+
+  shareMode: ShareMode;
+  protocol: Protocol;
+  error?: RecordedError;
+}
+
+export interface RecordedReconnectEvent extends RecordedEventBase {
+  type: "reconnect";
+  card: number;
+  initialization: Disposition;
+  protocol: Protocol;
+  error?: RecordedError;
+}
+
+export interface RecordedDisconnectEvent extends RecordedEventBase {
+  type: "disconnect";
+  card: number;
+  disposition: Disposition;
+}
+
+/**
+ * Command and response APDUs as hex, or the error thrown by `transmit`
+ */
+export interface RecordedTransmitEvent extends RecordedEventBase {
+  type: "transmit";
+  card: number;
+  duration: number;
+  command: string;
+  response?: string;
+  error?: RecordedError;
+}
+
+/**
+ * Reader control command (IOCTL), on a card connection or directly to the reader
+ */
+export interface RecordedControlEvent extends RecordedEventBase {
+  type: "control";
+  card?: number;
+  duration: number;
+  ioctl: number;
+  command: string;
+  response?: string;
+  error?: RecordedError;
+}
+
+export type RecordedExchange = RecordedTransmitEvent | RecordedControlEvent;
+
+export type RecordedEvent =
+  | RecordedStatusEvent
+  | RecordedConnectEvent
+  | RecordedReconnectEvent
+  | RecordedDisconnectEvent
+  | RecordedExchange;
+
+/**
+ * A recorded PC/SC session, serializable as JSON
+ */
+export interface SessionRecording {
+  version: number;
+
+  /** ISO 8601 date and time when recording started */
+  startedAt: string;
+
+  events: RecordedEvent[];
+}
+
+export const RecordedError = {
+  from(error: unknown): RecordedError {
+    if (error instanceof PCSCException) {
+      return { message: error.message, rc: error.rc, func: error.func };
+    }
+
+    return { message: (error instanceof Error) ? error.message : String(error) };
+  },
+
+  /**
+   * Error to throw when replaying a recorded failure
+   */
+  toError(error: RecordedError): Error {
+    if (error.rc !== undefined) {
+      return new PCSCException(error.rc, error.func ?? "unknown");
+    }
+
+    return new SmartCardException(error.message);
+  },
+};
+
+/**
+ * Parse and check version of a recording saved as JSON
+ */
+export function parseRecording(recording: SessionRecording | string): SessionRecording {
+  const parsed: SessionRecording = (typeof recording == "string") ? JSON.parse(recording) : recording;
+
+  if (parsed.version != RECORDING_VERSION || !Array.isArray(parsed.events)) {
+    throw new SmartCardException(`Unsupported recording version ${parsed.version}`);
+  }
+
+  return parsed;
+}
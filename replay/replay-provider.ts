@@ -0,0 +1,295 @@
+import {
+  Protocol,
+  SCARD_E_INVALID_HANDLE,
+  SCARD_E_NO_SMARTCARD,
+  SCARD_E_READER_UNAVAILABLE,
+  SCARD_W_REMOVED_CARD,
+  SCARD_W_RESET_CARD,
+} from '../pcsc/pcsc.ts';
+
+import { BytesLike, HEX, Redaction, SmartCardException } from '../iso7816/iso7816.ts';
+
+import { MockContextProvider } from '../mock/provider.ts';
+import { VirtualReader } from '../mock/virtual-reader.ts';
+import { VirtualCard, VirtualCardOptions } from '../mock/virtual-card.ts';
+
+import {
+  parseRecording,
+  RecordedError,
+  RecordedEvent,
+  RecordedExchange,
+  RecordedStatusEvent,
+  SessionRecording,
+} from './recording.ts';
+
+/**
+ * `strict`: commands must be sent in the recorded order.
+ * `lookup`: commands are answered by the first recorded exchange with the same command, in any order.
+ */
+export type ReplayMode = "strict" | "lookup";
+
+export interface ReplayOptions {
+  /** Default "strict" */
+  mode?: ReplayMode;
+}
+
+/**
+ * Command sent by the application that differs from the recording
+ */
+export interface ReplayDivergence {
+  reader: string;
+
+  /** `transmit` command, or `control` data */
+  command: Uint8Array;
+
+  /** Set for a `control` command */
+  ioctl?: number;
+
+  /** Exchange expected next (strict mode), `undefined` when the recording has no more exchanges */
+  expected?: RecordedExchange;
+}
+
+export class ReplayDivergenceError extends SmartCardException {
+  constructor(public readonly divergence: ReplayDivergence) {
+    const { reader, command, expected } = divergence;
+
+    super(
+      `Replay diverged on ${reader}: sent ${Redaction.toHex(command, Redaction.commandRanges(command))}` +
+        ((expected !== undefined) ? `, recorded ${expected.command}` : ", not recorded"),
+    );
+  }
+}
+
+// failures reproduced by the virtual reader, that never reach a replayed card
+const READER_ERRORS = [
+  SCARD_E_INVALID_HANDLE,
+  SCARD_E_NO_SMARTCARD,
+  SCARD_E_READER_UNAVAILABLE,
+  SCARD_W_REMOVED_CARD,
+  SCARD_W_RESET_CARD,
+];
+
+function isExchange(event: RecordedEvent): event is RecordedExchange {
+  return event.type == "transmit" || event.type == "control";
+}
+
+/**
+ * Recorded command matches a sent command - masked bytes matching any byte
+ */
+function matchesCommand(recorded: string, command: Uint8Array): boolean {
+  const bytes = recorded.trim().split(/\s+/)
+    .flatMap((token) => /^([0-9A-Fa-f]{2})+$/.test(token) ? token.match(/../g)! : [token])
+    .filter((byte) => byte != "");
+
+  return bytes.length == command.length &&
+    bytes.every((byte, index) => !/^[0-9A-Fa-f]{2}$/.test(byte) || parseInt(byte, 16) == command[index]);
+}
+
+function isReaderError(exchange: RecordedExchange): boolean {
+  return exchange.error?.rc !== undefined && READER_ERRORS.includes(exchange.error.rc);
+}
+
+/**
+ * A `VirtualCard` that answers commands from a recording
+ */
+export class ReplayCard extends VirtualCard {
+  constructor(
+    public readonly provider: ReplayContextProvider,
+    public readonly readerName: string,
+    atr: BytesLike,
+    options?: VirtualCardOptions,
+  ) {
+    super(atr, options);
+  }
+
+  protected override handle(command: Uint8Array): Uint8Array {
+    return this.provider.exchange(this.readerName, command);
+  }
+}
+
+/**
+ * Serves a `SessionRecording` back, deterministically, through virtual readers and cards.
+ *
+ * Readers are added and removed, and cards inserted and removed, as recorded - changes recorded
+ * after an exchange are applied once it, and all exchanges before it, have been replayed. Commands
+ * that differ from the recording are added to `divergences`, and fail with a `ReplayDivergenceError`.
+ *
+ * Exchanges that failed because a card was removed or reset are reproduced by the virtual readers.
+ *
+ * ```typescript
+ * const provider = new ReplayContextProvider(await Deno.readTextFile("session.json"), { mode: "lookup" });
+ *
+ * ContextProvider.registerProvider(provider);
+ * ```
+ */
+export class ReplayContextProvider extends MockContextProvider {
+  #position = 0;
+  #replayed = new Set<RecordedExchange>();
+
+  override readonly name: string = "Replay";
+
+  readonly recording: SessionRecording;
+
+  readonly mode: ReplayMode;
+
+  readonly divergences: ReplayDivergence[] = [];
+
+  constructor(recording: SessionRecording | string, options: ReplayOptions = {}) {
+    super();
+
+    this.recording = parseRecording(recording);
+    this.mode = options.mode ?? "strict";
+
+    this.#advance();
+  }
+
+  /**
+   * All recorded exchanges have been replayed
+   */
+  get isComplete(): boolean {
+    return this.recording.events.every((event) =>
+      !isExchange(event) || this.#replayed.has(event) || isReaderError(event)
+    );
+  }
+
+  /**
+   * Recorded response to a command (`transmit`) or, with `ioctl`, to a control command.
+   * Throws the recorded error, or a `ReplayDivergenceError`.
+   */
+  exchange(reader: string, command: Uint8Array, ioctl?: number): Uint8Array {
+    const events = this.recording.events;
+
+    const matches = (event: RecordedEvent): event is RecordedExchange =>
+      isExchange(event) &&
+      event.reader == reader &&
+      event.type == ((ioctl === undefined) ? "transmit" : "control") &&
+      (event.type != "control" || event.ioctl == ioctl) &&
+      matchesCommand(event.command, command);
+
+    let index = -1;
+
+    if (this.mode == "strict") {
+      // all changes before next exchange have been applied
+      if (this.#position < events.length && matches(events[this.#position])) {
+        index = this.#position;
+      }
+    } else {
+      index = events.findIndex((event) => matches(event) && !this.#replayed.has(event));
+
+      // a repeated command gets the last recorded response
+      for (let i = events.length - 1; index < 0 && i >= 0; i--) {
+        if (matches(events[i])) {
+          index = i;
+        }
+      }
+    }
+
+    if (index < 0) {
+      const expected = (this.mode == "strict") ? events[this.#position] : undefined;
+      const divergence: ReplayDivergence = {
+        reader,
+        command: command.slice(),
+        ...(ioctl !== undefined ? { ioctl } : {}),
+        ...(expected !== undefined && isExchange(expected) ? { expected } : {}),
+      };
+
+      this.divergences.push(divergence);
+
+      throw new ReplayDivergenceError(divergence);
+    }
+
+    const exchange = events[index] as RecordedExchange;
+
+    this.#replayed.add(exchange);
+
+    this.#advance();
+
+    if (exchange.error !== undefined) {
+      throw RecordedError.toError(exchange.error);
+    }
+
+    return HEX.parse(exchange.response ?? "");
+  }
+
+  /**
+   * Apply recorded reader and card changes, up to the next exchange still to be replayed
+   */
+  #advance() {
+    const events = this.recording.events;
+
+    while (this.#position < events.length) {
+      const event = events[this.#position];
+
+      if (isExchange(event) && !this.#replayed.has(event) && !isReaderError(event)) {
+        break;
+      }
+
+      if (event.type == "status") {
+        this.#applyStatus(event, this.#position);
+      }
+
+      this.#position++;
+    }
+  }
+
+  #applyStatus(event: RecordedStatusEvent, index: number) {
+    let reader = this.getReader(event.reader);
+
+    if (event.presence == "shutdown") {
+      if (reader !== undefined) {
+        this.removeReader(reader);
+      }
+
+      return;
+    }
+
+    reader ??= this.#addReader(event.reader);
+
+    if (event.presence == "empty") {
+      reader.removeCard();
+
+      return;
+    }
+
+    const atr = HEX.parse(event.atr ?? "");
+    const isMute = event.presence == "mute";
+    const card = reader.card;
+
+    if (card !== undefined && card.isMute == isMute && HEX.toString(card.atr) == HEX.toString(atr)) {
+      return;
+    }
+
+    reader.removeCard();
+    reader.insertCard(new ReplayCard(this, event.reader, atr, { isMute, protocol: this.#protocolAfter(index, event.reader) }));
+  }
+
+  #addReader(name: string): VirtualReader {
+    const reader = this.addReader(name);
+
+    reader.onControl = (ioctl, data) => this.exchange(name, data, ioctl);
+
+    return reader;
+  }
+
+  /**
+   * Protocol of the first connection to a card inserted at `index`, default T=1
+   */
+  #protocolAfter(index: number, reader: string): Protocol {
+    for (const event of this.recording.events.slice(index + 1)) {
+      if (event.reader != reader) {
+        continue;
+      }
+
+      // card removed before any connection
+      if (event.type == "status") {
+        break;
+      }
+
+      if (event.type == "connect" && (event.protocol == Protocol.T0 || event.protocol == Protocol.T1)) {
+        return event.protocol;
+      }
+    }
+
+    return Protocol.T1;
+  }
+}
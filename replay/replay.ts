@@ -0,0 +1,19 @@
+// Recording
+export { RecordingContext } from './recording-context.ts';
+export { parseRecording, RECORDING_VERSION, RecordedError } from './recording.ts';
+export type {
+  RecordedConnectEvent,
+  RecordedControlEvent,
+  RecordedDisconnectEvent,
+  RecordedEvent,
+  RecordedExchange,
+  RecordedPresence,
+  RecordedReconnectEvent,
+  RecordedStatusEvent,
+  RecordedTransmitEvent,
+  SessionRecording,
+} from './recording.ts';
+
+// Replay
+export { ReplayCard, ReplayContextProvider, ReplayDivergenceError } from './replay-provider.ts';
+export type { ReplayDivergence, ReplayMode, ReplayOptions } from './replay-provider.ts';
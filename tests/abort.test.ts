@@ -0,0 +1,72 @@
+import { AbortError, throwIfAborted, TimeoutError, withAbort } from '../pcsc/pcsc.ts';
+
+import { assert, assertEquals, assertRejects } from 'https://deno.land/std@0.146.0/testing/asserts.ts';
+
+function delay<T>(ms: number, value: T): Promise<T> {
+  return new Promise((resolve) => setTimeout(() => resolve(value), ms));
+}
+
+Deno.test("Resolves operations that complete before abort", async () => {
+  const controller = new AbortController();
+
+  assertEquals(await withAbort(() => Promise.resolve("done"), { signal: controller.signal, timeout: 1000 }), "done");
+  assertEquals(await withAbort(() => Promise.resolve("done")), "done", "No signal or timeout");
+});
+
+Deno.test("Rejects with AbortError or TimeoutError, and cancels pending operation", async () => {
+  const controller = new AbortController();
+  let cancelled = 0;
+
+  const aborted = withAbort(() => delay(50, "late"), { signal: controller.signal }, () => cancelled++);
+  controller.abort();
+
+  await assertRejects(() => aborted, AbortError);
+
+  const error = await withAbort(() => delay(50, "late"), { timeout: 5 }, () => cancelled++)
+    .catch((e) => e);
+
+  assert(error instanceof TimeoutError && error instanceof AbortError, "TimeoutError is an AbortError");
+  assertEquals(error.timeout, 5);
+  assertEquals(cancelled, 2);
+
+  await assertRejects(() => withAbort(() => delay(0, "never"), { signal: controller.signal }), AbortError, "Operation aborted");
+
+  // reason of an already aborted signal is kept
+  const removed = new AbortController();
+  const reason = new AbortError("Reader removed");
+
+  removed.abort(reason);
+
+  assertEquals(await withAbort(() => delay(0, "never"), { signal: removed.signal }).catch((e) => e), reason);
+
+  // .. as is the reason of a signal aborted during the operation
+  const removing = new AbortController();
+  const pending = withAbort(() => delay(50, "late"), { signal: removing.signal }).catch((e) => e);
+
+  removing.abort(reason);
+
+  assertEquals(await pending, reason);
+
+  // let discarded operations complete
+  await delay(60, undefined);
+});
+
+Deno.test("Multi-step operations stop on abort", async () => {
+  const steps: number[] = [];
+
+  await assertRejects(() =>
+    withAbort(async (signal) => {
+      for (let step = 1; step <= 3; step++) {
+        throwIfAborted(signal);
+
+        steps.push(step);
+        await delay(10, step);
+      }
+    }, { timeout: 15 }),
+    TimeoutError,
+  );
+
+  await delay(30, undefined);
+
+  assertEquals(steps, [1, 2]);
+});
@@ -0,0 +1,82 @@
+import { AccessRules, SecurityError } from '../omapi/access-control.ts';
+import { BerTLV, BytesLike, CommandAPDU, HEX, ResponseAPDU } from '../iso7816/iso7816.ts';
+
+import { assert, assertEquals, assertThrows } from 'https://deno.land/std@0.146.0/testing/asserts.ts';
+
+const AID = HEX.parse("A0 00 00 00 01 02");
+const HASH = new Uint8Array(20).fill(0x11);
+const OTHER_HASH = new Uint8Array(20).fill(0x22);
+
+function tlv(tag: number, ...values: BytesLike[]): Uint8Array {
+  const value = values.flatMap((v) => Array.from(BytesLike.toUint8Array(v)));
+
+  return new BerTLV(tag, value).bytes;
+}
+
+// REF-AR-DO: (AID, HASH) always, (AID, all) GET DATA only, (all, all) never
+const ALL_REF_AR_DO = tlv(0xFF40,
+  tlv(0xE2, tlv(0xE1, tlv(0x4F, AID), tlv(0xC1, HASH)), tlv(0xE3, tlv(0xD0, [0x01]))),
+  tlv(0xE2, tlv(0xE1, tlv(0x4F, AID), tlv(0xC1, [])), tlv(0xE3, tlv(0xD0, HEX.parse("80 CA 00 00 FF FF 00 00")))),
+  tlv(0xE2, tlv(0xE1, tlv(0x4F, []), tlv(0xC1, [])), tlv(0xE3, tlv(0xD0, [0x00]))),
+);
+
+Deno.test("Can parse ARA-M rules", () => {
+  const rules = AccessRules.parseARAM(ALL_REF_AR_DO);
+
+  assertEquals(rules.length, 3);
+  assertEquals(rules[0], { applet: AID, certificateHash: HASH, apdu: true });
+  assertEquals(rules[1].certificateHash, undefined, "Empty DeviceAppID-REF-DO: all device applications");
+  assertEquals(rules[2], { applet: "all", certificateHash: undefined, apdu: false });
+});
+
+Deno.test("Resolves APDU access by applet and certificate hash", () => {
+  const rules = new AccessRules(AccessRules.parseARAM(ALL_REF_AR_DO), "ARA-M");
+
+  assertEquals(rules.apduAccess(AID, HASH), true, "Specific hash takes precedence");
+
+  const filters = rules.checkOpen(AID, OTHER_HASH);
+  assert(AccessRules.isAllowed(filters, new CommandAPDU(0x80, 0xCA, 0x00, 0x00)), "Filter allows GET DATA");
+  assert(AccessRules.isAllowed(filters, new CommandAPDU(0x82, 0xCA, 0x00, 0x00)), "Channel bits are ignored");
+  assert(!AccessRules.isAllowed(filters, new CommandAPDU(0x80, 0xE2, 0x00, 0x00)), "Filter rejects STORE DATA");
+
+  assertThrows(() => rules.checkOpen(HEX.parse("A0 00 00 00 99"), HASH), SecurityError);
+  assertThrows(() => new AccessRules([], "none").checkOpen(AID, HASH), SecurityError);
+});
+
+Deno.test("Can parse ARF access conditions", () => {
+  const accf = new Uint8Array([
+    ...tlv(0x30, tlv(0x04, HASH)),
+    ...tlv(0x30, tlv(0x04, []), tlv(0xA0, tlv(0xA0, tlv(0xA1, tlv(0x04, HEX.parse("00 A4 04 00 FF FF FF FF")))))),
+    0xFF, 0xFF,
+  ]);
+
+  const rules = new AccessRules(AccessRules.parseACCF(accf, AID), "ARF");
+
+  assertEquals(rules.apduAccess(AID, HASH), true, "Condition without access rules: ALWAYS");
+  assertEquals(rules.apduAccess(AID, OTHER_HASH), [{
+    header: HEX.parse("00 A4 04 00"),
+    mask: HEX.parse("FF FF FF FF"),
+  }]);
+
+  assertEquals(AccessRules.parseACCF([], "default"), [{ applet: "default", apdu: false }], "Empty ACCF: NEVER");
+});
+
+Deno.test("Can read ARA-M rules with GET DATA (NEXT)", async () => {
+  const commands: string[] = [];
+  const first = ALL_REF_AR_DO.slice(0, 32);
+  const next = ALL_REF_AR_DO.slice(32);
+
+  const rules = await AccessRules.read((command: CommandAPDU) => {
+    commands.push(HEX.toString(command.header));
+
+    switch (command.ins) {
+      case 0xA4: return Promise.resolve(new ResponseAPDU(0x9000));
+      case 0xCA: return Promise.resolve(new ResponseAPDU(0x9000, (command.p2 == 0x40) ? first : next));
+      default: return Promise.resolve(new ResponseAPDU(0x6D00));
+    }
+  });
+
+  assertEquals(commands, ["00 A4 04 00", "80 CA FF 40", "80 CA FF 60"]);
+  assertEquals(rules.source, "ARA-M");
+  assertEquals(rules.rules.length, 3);
+});
@@ -0,0 +1,82 @@
+import { ATR, CardCapabilities, CardIdentifier, CommandAPDU, HEX } from '../iso7816/iso7816.ts';
+
+import { assert, assertEquals, assertThrows } from 'https://deno.land/std@0.146.0/testing/asserts.ts';
+
+Deno.test("Can parse T=0 ATR without TCK", () => {
+  const atr = ATR.from(HEX.parse("3B 68 00 00 00 73 C8 40 12 00 90 00"));
+
+  assert(atr.isDirectConvention, "TS=3B -> direct convention");
+  assertEquals(atr.protocols, [0], "No TD1 -> T=0");
+  assertEquals(atr.TB1, 0x00);
+  assertEquals(atr.TC1, 0x00);
+  assertEquals(atr.TCK, undefined, "No TCK for T=0 only");
+  assertEquals(HEX.toString(atr.historicalBytes), "00 73 C8 40 12 00 90 00");
+});
+
+Deno.test("Can parse T=1 ATR with global and specific interface bytes", () => {
+  const atr = ATR.from(HEX.parse("3B DB 96 00 80 B1 FE 45 1F 83 00 31 C0 64 C7 FC 10 00 01 90 00 74"));
+
+  assertEquals(atr.protocols, [0, 1]);
+  assertEquals([atr.Fi, atr.Di, atr.fMax], [512, 32, 5], "TA1=96 -> Fi=512, Di=32, f=5MHz");
+  assertEquals(atr.IFSC, 0xFE, "TA3 -> IFSC");
+  assertEquals([atr.BWI, atr.CWI], [4, 5], "TB3 -> BWI/CWI");
+  assertEquals(atr.classIndicator, 0x03, "T=15 TA4 -> class A and B");
+  assertEquals(atr.TCK, 0x74);
+  assert(atr.isTCKValid, "TCK valid");
+});
+
+Deno.test("Detects invalid TCK and truncated ATR", () => {
+  const atr = ATR.from(HEX.parse("3B 8F 80 01 80 4F 0C A0 00 00 03 06 03 00 01 00 00 00 00 6B"));
+  assertEquals(atr.isTCKValid, false, "TCK invalid");
+
+  assertThrows(() => ATR.from(HEX.parse("3B 8F 80 01 80 4F")));
+  assertThrows(() => ATR.from(HEX.parse("3A 00")));
+});
+
+Deno.test("Can decode card capabilities from historical bytes", () => {
+  // category 80, card service data (31 C0), card capabilities (73 C0 21 DC), status (82 90 00)
+  const caps = CardCapabilities.from(HEX.parse("80 31 C0 73 C0 21 DC 82 90 00"));
+
+  assertEquals(caps.categoryIndicator, 0x80);
+  assertEquals(caps.cardServiceData, 0xC0);
+  assert(caps.supportsSelectByFullDFName, "Select by full DF name");
+  assert(caps.supportsCommandChaining, "Command chaining");
+  assert(caps.supportsExtendedLength, "Extended Lc/Le");
+  assertEquals(caps.logicalChannelAssignment, "card-or-ifd");
+  assertEquals(caps.maxLogicalChannels, 5);
+
+  // b5: assigned by card, b4: assigned by interface device
+  const byCard = CardCapabilities.from(HEX.parse("80 73 00 00 13"));
+  assertEquals(byCard.logicalChannelAssignment, "card");
+  assertEquals(byCard.maxLogicalChannels, 4);
+  assertEquals(CardCapabilities.from(HEX.parse("80 73 00 00 10")).logicalChannelAssignment, "card");
+
+  const byIFD = CardCapabilities.from(HEX.parse("80 73 00 00 08"));
+  assertEquals(byIFD.logicalChannelAssignment, "ifd");
+  assertEquals(byIFD.maxLogicalChannels, 1);
+
+  assertEquals(CardCapabilities.from(HEX.parse("80 73 00 00 03")).logicalChannelAssignment, "none");
+  assertEquals(CardCapabilities.from(HEX.parse("80 73 00 00 03")).maxLogicalChannels, 1);
+  assertEquals(caps.statusIndicator, { sw: 0x9000 });
+
+  const longCommand = new CommandAPDU(0x00, 0x2A, 0x80, 0x86, new Uint8Array(300));
+  assertEquals(caps.encodingFor(longCommand), "extended");
+  assertEquals(CardCapabilities.from(HEX.parse("80 73 00 00 80")).encodingFor(longCommand), "chained");
+});
+
+Deno.test("Can identify cards by ATR", () => {
+  const identifier = new CardIdentifier().load([
+    "# smartcard_list.txt",
+    "3B 02 14 50",
+    "\tSchlumberger Multiflex 3k",
+    "",
+    "3B 8F 80 01 80 4F 0C A0 00 00 03 06 03 00 .. 00 00 00 00 ..",
+    "\tRFID - ISO 14443 Type A",
+  ].join("\n"));
+
+  identifier.register("3B 02 14 00", "In-house card", "FF FF FF 00");
+
+  assertEquals(identifier.identify(HEX.parse("3B 8F 80 01 80 4F 0C A0 00 00 03 06 03 00 01 00 00 00 00 6A")), ["RFID - ISO 14443 Type A"]);
+  assertEquals(identifier.identify([0x3B, 0x02, 0x14, 0x50]), ["In-house card", "Schlumberger Multiflex 3k"]);
+  assertEquals(identifier.identify([0x3B, 0x00]), []);
+});
@@ -0,0 +1,64 @@
+import { Attribute, AttributeCodec } from '../pcsc/attributes.ts';
+import { Protocol } from '../pcsc/scard.ts';
+import { MockContextProvider, VirtualCard } from '../mock/mock.ts';
+import { HEX } from '../iso7816/iso7816.ts';
+
+import { assertEquals } from 'https://deno.land/std@0.146.0/testing/asserts.ts';
+
+const ATR = HEX.parse("3B 8F 80 01 80 4F 0C A0 00 00 03 06 03 00 01 00 00 00 00 6A");
+
+Deno.test("Decodes attributes according to type", () => {
+  assertEquals(AttributeCodec.typeOf(Attribute.VendorName), "string");
+  assertEquals(AttributeCodec.typeOf(Attribute.MaxClk), "dword");
+
+  // null-terminated, or not
+  assertEquals(AttributeCodec.decode(Attribute.VendorName, HEX.parse("41 43 53 00 FF")), "ACS");
+  assertEquals(AttributeCodec.decode(Attribute.DeviceFriendlyName, HEX.parse("41 43 53")), "ACS");
+  assertEquals(AttributeCodec.decode(Attribute.DeviceFriendlyNameW, HEX.parse("41 00 43 00 53 00 00 00")), "ACS");
+
+  // little-endian, 1 to 8 bytes
+  assertEquals(AttributeCodec.decode(Attribute.MaxClk, HEX.parse("10 27 00 00")), 10000);
+  assertEquals(AttributeCodec.decode(Attribute.IccPresence, HEX.parse("02")), 2);
+  assertEquals(AttributeCodec.decode(Attribute.ChannelId, HEX.parse("00 00 00 00 01 00 00 00")), 0x100000000);
+  assertEquals(AttributeCodec.decode(Attribute.CurrentProtocolType, HEX.parse("02 00 00 00")), Protocol.T1);
+
+  // copied, not a view
+  const bytes = HEX.parse("3B 80 80 01 01");
+  const atr = AttributeCodec.decode(Attribute.AtrString, bytes);
+
+  bytes[0] = 0x00;
+  assertEquals(atr, HEX.parse("3B 80 80 01 01"));
+});
+
+Deno.test("Encodes attributes according to type", () => {
+  assertEquals(AttributeCodec.encode(Attribute.VendorName, "ACS"), HEX.parse("41 43 53 00"));
+  assertEquals(AttributeCodec.encode(Attribute.DeviceSystemNameW, "ACS"), HEX.parse("41 00 43 00 53 00 00 00"));
+  assertEquals(AttributeCodec.encode(Attribute.MaxIfsd, 254), HEX.parse("FE 00 00 00"));
+  assertEquals(AttributeCodec.encode(Attribute.EscReset, [0x01, 0x02]), HEX.parse("01 02"));
+
+  for (const [attr, value] of [[Attribute.VendorIfdType, "CCID"], [Attribute.DefaultDataRate, 9600]] as const) {
+    assertEquals(AttributeCodec.decode(attr, AttributeCodec.encode(attr, value)), value);
+  }
+});
+
+Deno.test("Gets and sets card attributes", async () => {
+  const provider = new MockContextProvider();
+  const virtualReader = provider.addReader("Mock Reader 0").insertCard(new VirtualCard(ATR));
+
+  virtualReader.attributes.set(Attribute.VendorName, HEX.parse("4D 6F 63 6B 00"));
+
+  const context = provider.establishContext();
+  const [reader] = context.listReaders();
+  const card = await reader.connect();
+
+  assertEquals(await card.getAttribute(Attribute.VendorName), "Mock");
+  assertEquals(await card.getAttribute(Attribute.AtrString), ATR);
+
+  await card.setAttribute(Attribute.MaxIfsd, 254);
+
+  assertEquals(virtualReader.attributes.get(Attribute.MaxIfsd), HEX.parse("FE 00 00 00"));
+  assertEquals(await card.getAttribute(Attribute.MaxIfsd), 254);
+
+  await card.disconnect();
+  await context.shutdown();
+});
@@ -0,0 +1,84 @@
+import { transmitChained } from '../pcsc/command-chaining.ts';
+import { CommandAPDU, HEX, ResponseAPDU, SmartCardException } from '../iso7816/iso7816.ts';
+import { MockContextProvider, VirtualCard } from '../mock/mock.ts';
+
+import { assertEquals, assertRejects, assertThrows } from 'https://deno.land/std@0.146.0/testing/asserts.ts';
+
+const PSO = new CommandAPDU(0x00, 0x2A, 0x80, 0x86, HEX.parse("01 02 03 04 05 06 07"), 0x10);
+
+Deno.test("Splits DATA into chained commands", () => {
+  const commands = PSO.split(3);
+
+  assertEquals(commands.map((command) => HEX.toString(command.toBytes({}))), [
+    "10 2A 80 86 03 01 02 03",
+    "10 2A 80 86 03 04 05 06",
+    "00 2A 80 86 01 07 10",
+  ]);
+
+  assertEquals(PSO.split(7), [PSO], "DATA fits in a single command");
+
+  assertThrows(() => PSO.split(0), SmartCardException, "chunk size");
+  assertThrows(() => PSO.split(-1), SmartCardException, "chunk size");
+  assertThrows(() => PSO.split(2.5), SmartCardException, "chunk size");
+  assertThrows(() => PSO.split(256), SmartCardException, "chunk size");
+});
+
+Deno.test("Re-bases sensitive ranges on each chunk", () => {
+  const verify = new CommandAPDU(0x00, 0x20, 0x00, 0x81, HEX.parse("01 02 03 04 05 06 07"), undefined, {
+    sensitivity: [{ offset: 2, length: 3 }],
+  });
+
+  assertEquals(verify.split(3).map((command) => command.sensitivity), [
+    [{ offset: 2, length: 1 }],
+    [{ offset: 0, length: 2 }],
+    [],
+  ]);
+
+  assertEquals(verify.setSensitivity("data").split(3).map((command) => command.sensitivity), ["data", "data", "data"]);
+});
+
+Deno.test("Transmits chain, stopping on an intermediate error", async () => {
+  const sent: string[] = [];
+
+  const transmit = (sw: string) => (command: CommandAPDU, isLast: boolean) => {
+    sent.push(HEX.toString(command.toBytes({})) + (isLast ? " (last)" : ""));
+
+    return Promise.resolve(ResponseAPDU.from(HEX.parse(isLast ? "AA 90 00" : sw)));
+  };
+
+  assertEquals((await transmitChained(transmit("90 00"), PSO, 4)).data, HEX.parse("AA"));
+  assertEquals(sent, ["10 2A 80 86 04 01 02 03 04", "00 2A 80 86 03 05 06 07 10 (last)"]);
+
+  sent.length = 0;
+
+  assertEquals((await transmitChained(transmit("6A 80"), PSO, 4)).SW, 0x6A80);
+  assertEquals(sent.length, 1);
+
+  await assertRejects(() => transmitChained(transmit("90 00"), PSO, 0), SmartCardException);
+});
+
+Deno.test("Card sends long commands as chains of short commands", async () => {
+  // card capabilities: command chaining, no extended length
+  const atr = HEX.parse("3B 85 80 01 80 73 00 00 80 77");
+  const virtualCard = new VirtualCard(atr).onCommand(() => [0x90, 0x00]);
+
+  const provider = new MockContextProvider();
+  provider.addReader("Mock Reader 0").insertCard(virtualCard);
+
+  const context = provider.establishContext();
+  const [reader] = context.listReaders();
+  const card = await reader.connect();
+
+  const command = new CommandAPDU(0x00, 0xDA, 0x01, 0x02, new Uint8Array(300), 0x00);
+
+  assertEquals((await card.transmitAPDU(command)).SW, 0x9000);
+  assertEquals(virtualCard.commands.map((bytes) => HEX.toString(bytes.slice(0, 5))), [
+    "10 DA 01 02 FF",
+    "00 DA 01 02 2D",
+  ]);
+
+  await assertRejects(() => card.transmitChained(command, { maxChunk: 300 }), SmartCardException, "chunk size");
+
+  await card.disconnect();
+  await context.shutdown();
+});
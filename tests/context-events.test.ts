@@ -0,0 +1,110 @@
+import { ContextEvents, Reader, StatusChangeHandlers } from '../pcsc/pcsc.ts';
+
+import { assertEquals, assertRejects, assertThrows } from 'https://deno.land/std@0.146.0/testing/asserts.ts';
+
+function fakeReader(name: string, isPresent = false): Reader {
+  return { name, isPresent, isMute: false } as Reader;
+}
+
+Deno.test("Derives reader and card events from status changes", async () => {
+  const events = new ContextEvents();
+  const stream = events.subscribe();
+
+  const reader1 = fakeReader("Reader 1");
+  const reader2 = fakeReader("Reader 2", true);
+
+  events.statusChanged(reader1, "setup");
+  events.statusChanged(reader1, "present");
+  events.statusChanged(reader1, "connected");
+  events.statusChanged(reader1, "mute");
+  events.statusChanged(reader1, "empty");
+  events.statusChanged(reader2, "setup");
+  events.statusChanged(reader2, "shutdown");
+
+  events.close();
+
+  const received: string[] = [];
+  for await (const event of stream) {
+    received.push(`${event.reader.name}: ${event.type}`);
+  }
+
+  assertEquals(received, [
+    "Reader 1: reader-added",
+    "Reader 1: card-inserted",
+    "Reader 1: card-mute",
+    "Reader 1: card-removed",
+    "Reader 2: reader-added",
+    "Reader 2: card-inserted",
+    "Reader 2: reader-removed",
+  ]);
+});
+
+Deno.test("Event streams end on break or error", async () => {
+  const events = new ContextEvents();
+  let closed = 0;
+
+  const stream = events.subscribe(() => closed++);
+
+  events.statusChanged(fakeReader("Reader 1"), "setup");
+
+  for await (const event of stream) {
+    assertEquals(event.type, "reader-added");
+    break;
+  }
+
+  assertEquals([closed, events.hasSubscribers], [1, false], "break unsubscribes");
+
+  const failing = events.subscribe();
+  setTimeout(() => events.close(new Error("PC/SC service stopped")), 0);
+
+  await assertRejects(() => failing.next(), Error, "PC/SC service stopped");
+});
+
+Deno.test("Concurrent reads receive events in order", async () => {
+  const events = new ContextEvents();
+  const stream = events.subscribe();
+  const reader = fakeReader("Reader 1");
+
+  const first = stream.next();
+  const second = stream.next();
+  const third = stream.next();
+
+  events.statusChanged(reader, "setup");
+  events.statusChanged(reader, "present");
+  events.close();
+
+  assertEquals((await first).value?.type, "reader-added");
+  assertEquals((await second).value?.type, "card-inserted");
+  assertEquals((await third).done, true);
+
+  // all pending reads fail with the stream
+  const failing = events.subscribe();
+  const reads = [failing.next(), failing.next()];
+
+  events.close(new Error("PC/SC service stopped"));
+
+  for (const read of reads) {
+    await assertRejects(() => read, Error, "PC/SC service stopped");
+  }
+});
+
+Deno.test("Notifies all status change handlers", () => {
+  const handlers = new StatusChangeHandlers();
+  const received: string[] = [];
+
+  handlers.primary = (reader, status) => received.push(`primary ${reader.name}: ${status}`);
+  const remove = handlers.add(() => {
+    throw new Error("Handler failed");
+  });
+  handlers.add((reader, status) => received.push(`other ${reader.name}: ${status}`));
+
+  assertEquals(handlers.size, 3);
+  assertThrows(() => handlers.notify(fakeReader("Reader 1"), "present"), Error, "Handler failed");
+  assertEquals(received, ["primary Reader 1: present", "other Reader 1: present"], "A failing handler does not block others");
+
+  remove();
+  handlers.primary = undefined;
+  handlers.notify(fakeReader("Reader 1"), "empty");
+
+  assertEquals([handlers.size, received.length], [1, 3]);
+});
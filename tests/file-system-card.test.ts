@@ -0,0 +1,121 @@
+import { DedicatedFile, FileSystemCard, MockContextProvider, RecordFile, TransparentFile } from '../mock/mock.ts';
+import { Protocol } from '../pcsc/pcsc.ts';
+import { BerTLV, CommandAPDU, HEX, SW } from '../iso7816/iso7816.ts';
+
+import { assert, assertEquals } from 'https://deno.land/std@0.146.0/testing/asserts.ts';
+
+const ATR = HEX.parse("3B 8F 80 01 80 4F 0C A0 00 00 03 06 03 00 01 00 00 00 00 6A");
+const AID = HEX.parse("A0 00 00 00 01 02 03");
+
+function createCard(protocol = Protocol.T1) {
+  const card = new FileSystemCard(ATR, { protocol });
+
+  card.mf.add(
+    new TransparentFile(0x2F00, HEX.parse("61 09 4F 07 A0 00 00 00 01 02 03")),
+    new DedicatedFile(0x7F10, { name: AID }).add(
+      new TransparentFile(0x6F01, new Uint8Array(300).map((_, index) => index & 0xFF), { sfi: 1 }),
+      new RecordFile(0x6F02, [[0x01, 0x02], [0x03, 0x04]], { sfi: 2, recordSize: 2, maxRecords: 3 }),
+      new TransparentFile(0x6F03, HEX.parse("00 00 00 00"), { read: { pin: 0x81 }, update: "never" }),
+    ),
+  );
+
+  return card.addPIN(0x81, HEX.parse("31 32 33 34"));
+}
+
+function transmit(card: FileSystemCard, command: string): Promise<Uint8Array> {
+  return card.process(HEX.parse(command));
+}
+
+Deno.test("Selects files by FID, DF name and path", async () => {
+  const card = createCard();
+
+  assertEquals(await transmit(card, "00 A4 00 0C 02 2F 00"), HEX.parse("90 00"));
+  assertEquals(card.currentEF?.fid, 0x2F00);
+
+  const fcp = await transmit(card, "00 A4 04 04 05 A0 00 00 00 01 00");
+  assertEquals(fcp.slice(-2), HEX.parse("90 00"), "Partial DF name");
+  assertEquals(BerTLV.parse(fcp)?.tag, 0x62);
+  assertEquals(card.currentDF.fid, 0x7F10);
+
+  assertEquals(await transmit(card, "00 A4 08 0C 04 7F 10 6F 02"), HEX.parse("90 00"), "Path from MF");
+  assertEquals([card.currentDF.fid, card.currentEF?.fid], [0x7F10, 0x6F02]);
+
+  assertEquals(await transmit(card, "00 A4 03 0C"), HEX.parse("90 00"), "Parent DF");
+  assertEquals([card.currentDF.fid, card.currentEF], [0x3F00, undefined]);
+
+  assertEquals(await transmit(card, "00 A4 00 0C 02 6F 01"), HEX.parse("6A 82"), "Not a child of MF");
+  assertEquals(await transmit(card, "00 A4 09 0C 04 7F 10 6F 01"), HEX.parse("90 00"), "Path from current DF");
+});
+
+Deno.test("Reads and updates transparent and record files", async () => {
+  const card = createCard();
+
+  assertEquals(await transmit(card, "00 B0 81 00 04"), HEX.parse("6A 82"), "SFI not in current DF");
+
+  await transmit(card, "00 A4 04 0C 07 A0 00 00 00 01 02 03");
+
+  assertEquals(await transmit(card, "00 B0 81 02 03"), HEX.parse("02 03 04 90 00"), "Read by SFI");
+  assertEquals(await transmit(card, "00 B0 01 2A 08"), HEX.parse("2A 2B 62 82"), "Read past end of file");
+  assertEquals(await transmit(card, "00 B0 01 2D 01"), HEX.parse("6B 00"), "Offset beyond end of file");
+
+  assertEquals(await transmit(card, "00 D6 00 10 02 AA BB"), HEX.parse("90 00"));
+  assertEquals(await transmit(card, "00 B0 00 0F 04"), HEX.parse("0F AA BB 12 90 00"));
+
+  assertEquals(await transmit(card, "00 B2 02 14 00"), HEX.parse("03 04 90 00"));
+  assertEquals(await transmit(card, "00 B2 01 04 05"), HEX.parse("6C 02"), "Wrong Le, for current EF");
+  assertEquals(await transmit(card, "00 B0 00 00 01"), HEX.parse("69 81"), "Not a transparent file");
+
+  assertEquals(await transmit(card, "00 DC 01 14 02 05 06"), HEX.parse("90 00"));
+  assertEquals(await transmit(card, "00 E2 00 10 02 07 08"), HEX.parse("90 00"));
+  assertEquals(await transmit(card, "00 E2 00 10 01 09"), HEX.parse("67 00"), "Fixed record size");
+  assertEquals(await transmit(card, "00 E2 00 10 02 09 0A"), HEX.parse("6A 84"), "File full");
+  assertEquals(await transmit(card, "00 B2 03 14 02"), HEX.parse("07 08 90 00"));
+  assertEquals(await transmit(card, "00 B2 04 14 02"), HEX.parse("6A 83"));
+});
+
+Deno.test("Verifies PIN, with retry counter and access conditions", async () => {
+  const card = createCard();
+
+  await transmit(card, "00 A4 08 0C 04 7F 10 6F 03");
+
+  assertEquals(await transmit(card, "00 B0 00 00 04"), HEX.parse("69 82"));
+  assertEquals(await transmit(card, "00 20 00 81"), HEX.parse("63 C3"));
+  assertEquals(await transmit(card, "00 20 00 81 04 30 30 30 30"), HEX.parse("63 C2"));
+
+  assertEquals(await transmit(card, "00 20 00 81 04 31 32 33 34"), HEX.parse("90 00"));
+  assertEquals(card.getRetries(0x81), 3);
+  assertEquals(await transmit(card, "00 B0 00 00 04"), HEX.parse("00 00 00 00 90 00"));
+  assertEquals(await transmit(card, "00 D6 00 00 01 FF"), HEX.parse("69 82"), "Never updated");
+
+  card.reset();
+  assert(!card.isVerified(0x81), "Security status cleared by reset");
+
+  for (const sw of ["63 C2", "63 C1", "69 83", "69 83"]) {
+    assertEquals(await transmit(card, "00 20 00 81 04 30 30 30 30"), HEX.parse(sw));
+  }
+
+  assertEquals(await transmit(card, "00 20 00 81 04 31 32 33 34"), HEX.parse("69 83"), "Blocked");
+  assertEquals(await transmit(card, "00 20 00 82"), HEX.parse("6A 88"));
+});
+
+Deno.test("Returns response data with GET RESPONSE", async () => {
+  const provider = new MockContextProvider();
+  const card = createCard(Protocol.T0);
+
+  provider.addReader("Mock Reader 0").insertCard(card);
+
+  const context = provider.establishContext();
+  const [reader] = context.listReaders();
+  const mockCard = await reader.connect();
+
+  // T=0: Le not sent for a case 4 command, so card answers 61xx
+  const response = await mockCard.transmitAPDU(new CommandAPDU(0x00, 0xA4, 0x00, 0x04, [0x2F, 0x00], 0));
+
+  assertEquals(response.SW, SW.SUCCESS);
+  assertEquals(response.data, card.mf.getChild(0x2F00)?.fcp);
+  assertEquals(card.commands.map((command) => command[1]), [0xA4, 0xC0]);
+
+  assertEquals(await transmit(card, "00 C0 00 00 00"), HEX.parse("69 85"), "No pending response");
+
+  await context.shutdown();
+});
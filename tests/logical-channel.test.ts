@@ -0,0 +1,91 @@
+import { ClassByte, CommandAPDU, HEX, SmartCardException } from '../iso7816/iso7816.ts';
+import { MockContextProvider, VirtualCard } from '../mock/mock.ts';
+
+import { assert, assertEquals, assertRejects, assertThrows } from 'https://deno.land/std@0.146.0/testing/asserts.ts';
+
+const ATR = HEX.parse("3B 8F 80 01 80 4F 0C A0 00 00 03 06 03 00 01 00 00 00 00 6A");
+
+Deno.test("Encodes channels 0-3 as first interindustry class", () => {
+  assertEquals(ClassByte.withChannel(0x00, 2), 0x02);
+  assertEquals(ClassByte.withChannel(0x03, 1), 0x01, "Replaces channel");
+  assertEquals(ClassByte.withChannel(0x80, 3), 0x83, "Keeps proprietary class");
+  assertEquals(ClassByte.withChannel(0x0C, 1), 0x0D, "Keeps secure messaging");
+  assertEquals(ClassByte.withChannel(0x10, 1), 0x11, "Keeps chaining");
+  assertEquals(ClassByte.withChannel(0x60, 1), 0x09, "From further interindustry, with secure messaging");
+});
+
+Deno.test("Encodes channels 4-19 as further interindustry class", () => {
+  assertEquals(ClassByte.withChannel(0x00, 4), 0x40);
+  assertEquals(ClassByte.withChannel(0x00, 19), 0x4F);
+  assertEquals(ClassByte.withChannel(0x81, 5), 0xC1, "Keeps proprietary class");
+  assertEquals(ClassByte.withChannel(0x08, 4), 0x60, "Keeps secure messaging");
+  assertEquals(ClassByte.withChannel(0x10, 6), 0x52, "Keeps chaining");
+
+  for (let channel = 0; channel <= 19; channel++) {
+    assertEquals(ClassByte.channelOf(ClassByte.withChannel(0x00, channel)), channel);
+  }
+
+  assertThrows(() => ClassByte.withChannel(0x00, 20), SmartCardException, "Invalid logical channel");
+  assertThrows(() => ClassByte.withChannel(0x00, -1), SmartCardException, "Invalid logical channel");
+
+  // only "no SM" or "SM, header not processed" can be encoded for channels 4-19
+  assertThrows(() => ClassByte.withChannel(0x04, 4), SmartCardException, "Secure messaging");
+  assertThrows(() => ClassByte.withChannel(0x0C, 4), SmartCardException, "Secure messaging");
+});
+
+Deno.test("Opens and closes logical channels with MANAGE CHANNEL", async () => {
+  const provider = new MockContextProvider();
+
+  // card assigns channels 5 then 1, then has no more channels
+  const assigned = [0x05, 0x01];
+  const virtualCard = new VirtualCard(ATR)
+    .on(HEX.parse("00 70 80 00"), HEX.parse("90 00"), HEX.parse("FF FF FF 00"))
+    .onCommand((command) => {
+      if (command[1] == 0x70) {
+        const channel = assigned.shift();
+
+        return (channel !== undefined) ? [channel, 0x90, 0x00] : [0x6A, 0x81];
+      }
+
+      return [command[0], 0x90, 0x00];
+    });
+
+  provider.addReader("Mock Reader 0").insertCard(virtualCard);
+
+  const context = provider.establishContext();
+  const [reader] = context.listReaders();
+  const card = await reader.connect();
+
+  const channel = await card.openLogicalChannel();
+
+  assertEquals(channel.channel, 5);
+  assertEquals(await channel.transmit(HEX.parse("00 CA 00 00 00")), HEX.parse("41 90 00"));
+  assertEquals((await channel.transmitAPDU(new CommandAPDU(0x80, 0xCA, 0x00, 0x00))).data, HEX.parse("C1"));
+
+  await channel.close();
+
+  assert(!channel.isOpen);
+  await assertRejects(() => channel.transmitAPDU(new CommandAPDU(0x00, 0xCA, 0x00, 0x00)), SmartCardException, "closed");
+  await assertRejects(() => channel.transmit(HEX.parse("00 CA 00 00 00")), SmartCardException, "closed");
+
+  const other = await card.openLogicalChannel();
+
+  assertEquals(card.logicalChannels, [other]);
+  await assertRejects(() => card.openLogicalChannel(), SmartCardException, "MANAGE CHANNEL (open) failed");
+
+  // disconnect closes remaining channels
+  await card.disconnect();
+
+  assert(!other.isOpen);
+  assertEquals(virtualCard.commands.map((command) => HEX.toString(command.slice(0, 4))), [
+    "00 70 00 00",
+    "41 CA 00 00",
+    "C1 CA 00 00",
+    "00 70 80 05",
+    "00 70 00 00",
+    "00 70 00 00",
+    "00 70 80 01",
+  ]);
+
+  await context.shutdown();
+});
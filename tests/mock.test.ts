@@ -0,0 +1,195 @@
+import { MockContextProvider, VirtualCard } from '../mock/mock.ts';
+import {
+  CardStatus,
+  Disposition,
+  PCSCException,
+  Protocol,
+  SCARD_E_NOT_TRANSACTED,
+  SCARD_W_REMOVED_CARD,
+  SCARD_W_UNRESPONSIVE_CARD,
+  TimeoutError,
+} from '../pcsc/pcsc.ts';
+import { CommandAPDU, HEX } from '../iso7816/iso7816.ts';
+
+import { assert, assertEquals, assertRejects, assertThrows } from 'https://deno.land/std@0.146.0/testing/asserts.ts';
+
+const ATR = HEX.parse("3B 8F 80 01 80 4F 0C A0 00 00 03 06 03 00 01 00 00 00 00 6A");
+
+function delay(ms = 0): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+Deno.test("Responds to scripted APDUs", async () => {
+  const provider = new MockContextProvider();
+  const virtualCard = new VirtualCard(ATR)
+    .on(HEX.parse("00 A4 04 00 02 3F 00"), HEX.parse("90 00"))
+    .on(HEX.parse("00 B0 00 00"), HEX.parse("61 04"), HEX.parse("FF FF 00 00"))
+    .on(HEX.parse("00 C0 00 00 04"), HEX.parse("01 02 03 04 90 00"))
+    .onCommand((command) => (command[1] == 0xCA) ? [command[3], 0x90, 0x00] : undefined);
+
+  provider.addReader("Mock Reader 0").insertCard(virtualCard);
+
+  const context = provider.establishContext();
+  const [reader] = context.listReaders();
+
+  assertEquals([reader.name, reader.status, reader.isPresent], ["Mock Reader 0", "present", true]);
+  assertEquals(reader.atr?.bytes, ATR);
+
+  const card = await reader.connect();
+
+  assertEquals(await card.transmit(HEX.parse("00 A4 04 00 02 3F 00")), HEX.parse("90 00"), "Exact match");
+  assertEquals(await card.transmit(HEX.parse("00 A4 04 00 02 3F 01")), HEX.parse("6D 00"), "Default response");
+
+  const response = await card.transmitAPDU(new CommandAPDU(0x00, 0xB0, 0x01, 0x02, undefined, 0));
+  assertEquals([response.SW, response.data], [0x9000, HEX.parse("01 02 03 04")], "Masked match, with GET RESPONSE");
+
+  assertEquals(await card.transmit(HEX.parse("80 CA 00 42 00")), HEX.parse("42 90 00"), "Callback");
+
+  assertEquals(virtualCard.commands.length, 5);
+
+  await card.disconnect(Disposition.LeaveCard);
+  await context.shutdown();
+});
+
+Deno.test("Reports card status", async () => {
+  const provider = new MockContextProvider();
+  provider.addReader("Mock Reader 0").insertCard(new VirtualCard(ATR, { protocol: Protocol.T0 }));
+
+  const context = provider.establishContext();
+  const [reader] = context.listReaders();
+  const card = await reader.connect();
+
+  const status = await card.status();
+
+  assertEquals(status.readerNames, ["Mock Reader 0"]);
+  assertEquals(status.state, 0x0074);
+  assertEquals(status.status, [CardStatus.Present, CardStatus.Powered, CardStatus.Negotiable, CardStatus.Specific]);
+  assertEquals(status.protocol, Protocol.T0);
+  assertEquals(status.atr, ATR);
+
+  await card.disconnect();
+
+  await assertRejects(() => card.status());
+  await assertRejects(() => card.endTransaction());
+
+  await context.shutdown();
+});
+
+Deno.test("Notifies reader and card changes", async () => {
+  const provider = new MockContextProvider();
+  provider.addReader("Mock Reader 0");
+
+  const context = provider.establishContext();
+  const received: string[] = [];
+
+  context.onStatusChange = (reader, status) => received.push(`${reader.name}: ${status}`);
+
+  // initial scan, from background monitor
+  await delay();
+  assertEquals(received, ["Mock Reader 0: setup"]);
+
+  const reader1 = provider.addReader("Mock Reader 1");
+  await delay();
+
+  reader1.insertCard(new VirtualCard(ATR));
+  await delay();
+
+  reader1.removeCard();
+  await delay();
+
+  reader1.insertCard(new VirtualCard(ATR, { isMute: true }));
+  await delay();
+
+  provider.removeReader(reader1);
+  await delay();
+
+  assertEquals(received.slice(1), [
+    "Mock Reader 1: setup",
+    "Mock Reader 1: present",
+    "Mock Reader 1: empty",
+    "Mock Reader 1: mute",
+    "Mock Reader 1: shutdown",
+  ]);
+
+  await context.shutdown();
+});
+
+Deno.test("Waits for change, with timeout", async () => {
+  const provider = new MockContextProvider();
+  const virtualReader = provider.addReader("Mock Reader 0");
+
+  const context = provider.establishContext();
+  const [reader] = context.listReaders();
+
+  assertEquals(await reader.waitForChange(10), "no-change");
+
+  setTimeout(() => virtualReader.insertCard(new VirtualCard(ATR)), 10);
+  assertEquals(await reader.waitForChange(1000), "present");
+
+  await assertRejects(() => context.waitForChange([reader], 1000, false, { timeout: 10 }), TimeoutError);
+
+  await context.shutdown();
+});
+
+Deno.test("Simulates mute, removed and stuck cards", async () => {
+  const provider = new MockContextProvider();
+  const virtualReader = provider.addReader("Mock Reader 0");
+
+  const context = provider.establishContext();
+  const [reader] = context.listReaders();
+
+  virtualReader.insertCard(new VirtualCard(ATR, { isMute: true }));
+  assertEquals(await reader.waitForChange(), "mute");
+
+  const error = await reader.connect().catch((e) => e);
+  assert(error instanceof PCSCException && error.rc == SCARD_W_UNRESPONSIVE_CARD, "Mute card");
+
+  virtualReader.removeCard();
+  virtualReader.insertCard(new VirtualCard(ATR).onCommand(() => new Promise(() => {})));
+
+  const card = await reader.connect();
+
+  await assertRejects(() => card.transmit(HEX.parse("00 A4 04 00 00"), undefined, { timeout: 10 }), TimeoutError);
+
+  virtualReader.removeCard();
+
+  const removed = await card.transmit(HEX.parse("00 A4 04 00 00")).catch((e) => e);
+  assert(removed instanceof PCSCException && removed.rc == SCARD_W_REMOVED_CARD, "Removed card");
+
+  assertThrows(() => virtualReader.insertCard(new VirtualCard(ATR)).insertCard(new VirtualCard(ATR)), Error);
+
+  await context.shutdown();
+});
+
+Deno.test("Reports action's error when transaction can not be ended", async () => {
+  const provider = new MockContextProvider();
+  const virtualReader = provider.addReader("Mock Reader 0").insertCard(new VirtualCard(ATR));
+
+  const context = provider.establishContext();
+  const [reader] = context.listReaders();
+  const card = await reader.connect();
+
+  // card removal releases transaction: action fails, and so does endTransaction
+  const error = await card.withTransaction(async (card) => {
+    virtualReader.removeCard();
+
+    await card.transmit(HEX.parse("00 A4 04 00 00"));
+  }).catch((e) => e);
+
+  assert(error instanceof PCSCException && error.rc == SCARD_W_REMOVED_CARD, "Action's error");
+
+  virtualReader.insertCard(new VirtualCard(ATR));
+
+  const other = await reader.connect();
+
+  // only endTransaction fails
+  const notTransacted = await other.withTransaction(() => {
+    virtualReader.removeCard();
+
+    return Promise.resolve();
+  }).catch((e) => e);
+
+  assert(notTransacted instanceof PCSCException && notTransacted.rc == SCARD_E_NOT_TRANSACTED, "endTransaction's error");
+
+  await context.shutdown();
+});
@@ -0,0 +1,67 @@
+import { Feature, ReaderFeatures } from '../pcsc/reader-features.ts';
+import { CM_IOCTL_GET_FEATURE_REQUEST, DWORD, SCARD_CTL_CODE } from '../pcsc/scard.ts';
+import { PLATFORM } from '../pcsc/platform.ts';
+import { HEX, SmartCardException } from '../iso7816/iso7816.ts';
+
+import { assertEquals, assertRejects } from 'https://deno.land/std@0.146.0/testing/asserts.ts';
+
+// FEATURE_VERIFY_PIN_DIRECT, FEATURE_MODIFY_PIN_DIRECT and FEATURE_GET_TLV_PROPERTIES, as reported by pcsc-lite
+const FEATURE_LIST = "06 04 42 33 00 06 07 04 42 33 00 07 12 04 42 33 00 12";
+
+// wLcdLayout, bMinPINSize, bMaxPINSize, sFirmwareID, wIdVendor, wIdProduct and an unknown tag
+const TLV_PROPERTIES = "01 02 00 00 06 01 04 07 01 08 08 04 41 42 43 44 0B 02 6B 07 0C 02 22 35 7F 01 00";
+
+Deno.test("Builds reader control codes for platform", () => {
+  const expected = PLATFORM.isWin ? 0x00313520 : 0x42000D48;
+
+  assertEquals(SCARD_CTL_CODE(3400), expected);
+  assertEquals(CM_IOCTL_GET_FEATURE_REQUEST, expected);
+});
+
+Deno.test("Parses feature list", () => {
+  const features = ReaderFeatures.parseFeatureList(HEX.parse(FEATURE_LIST));
+
+  assertEquals(Array.from(features.entries()), [
+    [Feature.VerifyPinDirect, 0x42330006],
+    [Feature.ModifyPinDirect, 0x42330007],
+    [Feature.GetTlvProperties, 0x42330012],
+  ]);
+
+  // entries that are not a 4 byte IOCTL are skipped, and a truncated entry ends the list
+  assertEquals(
+    Array.from(ReaderFeatures.parseFeatureList(HEX.parse("01 02 00 00 0A 04 42 33 00 0A 0B 04 42 33")).entries()),
+    [[Feature.IfdPinProperties, 0x4233000A]],
+  );
+});
+
+Deno.test("Parses TLV properties, little-endian", () => {
+  assertEquals(ReaderFeatures.parseTLVProperties(HEX.parse(TLV_PROPERTIES)), {
+    wLcdLayout: 0,
+    bMinPINSize: 4,
+    bMaxPINSize: 8,
+    sFirmwareID: "ABCD",
+    wIdVendor: 0x076B,
+    wIdProduct: 0x3522,
+  });
+});
+
+Deno.test("Reads features, and sends control commands with their IOCTL", async () => {
+  const ioctls: DWORD[] = [];
+  const target = {
+    control(ioctl: DWORD) {
+      ioctls.push(ioctl);
+
+      return Promise.resolve(HEX.parse((ioctl == CM_IOCTL_GET_FEATURE_REQUEST) ? FEATURE_LIST : TLV_PROPERTIES));
+    },
+  };
+
+  const features = await ReaderFeatures.read(target);
+
+  assertEquals(features.features, [Feature.VerifyPinDirect, Feature.ModifyPinDirect, Feature.GetTlvProperties]);
+  assertEquals(features.ioctl(Feature.VerifyPinDirect), 0x42330006);
+
+  assertEquals((await features.getTLVProperties()).bMaxPINSize, 8);
+  assertEquals(ioctls, [CM_IOCTL_GET_FEATURE_REQUEST, 0x42330012]);
+
+  await assertRejects(() => features.control(Feature.Abort), SmartCardException, "does not support feature Abort");
+});
@@ -0,0 +1,83 @@
+import { CommandAPDU, HEX, INS, Redaction } from '../iso7816/iso7816.ts';
+import { MockContextProvider, VirtualCard } from '../mock/mock.ts';
+import { ConsoleExporter, Tracer } from '../trace/trace.ts';
+import { RecordingContext, ReplayContextProvider } from '../replay/replay.ts';
+
+import { assertEquals } from 'https://deno.land/std@0.146.0/testing/asserts.ts';
+
+const ATR = HEX.parse("3B 8F 80 01 80 4F 0C A0 00 00 03 06 03 00 01 00 00 00 00 6A");
+
+const VERIFY = new CommandAPDU(0x00, INS.Verify, 0x00, 0x80, HEX.parse("31 32 33 34 FF FF FF FF"));
+
+Deno.test("Masks sensitive command data in renderings", () => {
+  assertEquals(VERIFY.toString(), "CommandAPDU CLA=0x00,INS=0x20,P1=0x00,P1=0x80,LC=8,DATA=** ** ** ** ** ** ** **");
+  assertEquals(JSON.parse(JSON.stringify(VERIFY)).data, "** ** ** ** ** ** ** **");
+
+  // marked ranges, split across chained commands
+  const wrapped = new CommandAPDU(0x80, 0xE2, 0x00, 0x00, HEX.parse("01 02 03 04 05 06"), undefined, {
+    sensitivity: [{ offset: 2, length: 3 }],
+  });
+
+  assertEquals(wrapped.toJSON().data, "01 02 ** ** ** 06");
+  assertEquals(wrapped.split(4).map((command) => command.toJSON().data), ["01 02 ** **", "** 06"]);
+
+  // explicitly not sensitive
+  assertEquals(new CommandAPDU(0x00, INS.Verify, 0x00, 0x80, [0x01]).setSensitivity([]).toJSON().data, "01");
+
+  assertEquals(
+    Redaction.commandRanges(HEX.parse("00 20 00 80 00 00 02 31 32")),
+    [{ offset: 7, length: 2 }],
+    "Extended",
+  );
+});
+
+Deno.test("Unsafe full dump is an explicit opt-in", () => {
+  try {
+    Redaction.setPolicy({ unsafeFullDump: true });
+
+    assertEquals(VERIFY.toJSON().data, "31 32 33 34 FF FF FF FF");
+
+    Redaction.setPolicy({ sensitiveINS: [INS.GetData], mask: "XX" });
+
+    assertEquals(VERIFY.toJSON().data, "31 32 33 34 FF FF FF FF");
+    assertEquals(new CommandAPDU(0x00, INS.GetData, 0x00, 0x42, [0x01]).toJSON().data, "XX");
+  } finally {
+    Redaction.setPolicy();
+  }
+});
+
+Deno.test("Masks traces and recordings, which still replay", async () => {
+  const provider = new MockContextProvider();
+
+  provider.addReader("Mock Reader 0").insertCard(
+    new VirtualCard(ATR).on(VERIFY.toBytes({ isT0: false }), HEX.parse("90 00")),
+  );
+
+  const lines: string[] = [];
+  const context = new RecordingContext(provider.establishContext());
+
+  context.use(new Tracer(new ConsoleExporter({ log: (line) => lines.push(line) })));
+
+  const card = await context.listReaders()[0].connect();
+
+  await card.transmitAPDU(VERIFY);
+  await card.transmit(VERIFY.toBytes());
+  await context.shutdown();
+
+  assertEquals(lines.filter((line) => line.includes("31 32")), []);
+  assertEquals(lines.filter((line) => line.endsWith(">> 00 20 00 80 08 ** ** ** ** ** ** ** **")).length, 2);
+
+  const recording = context.recording;
+
+  assertEquals(recording.events.filter((event) => event.type == "transmit" && event.command.includes("**")).length, 2);
+
+  const replay = new ReplayContextProvider(recording);
+  const replayContext = replay.establishContext();
+  const replayCard = await replayContext.listReaders()[0].connect();
+
+  assertEquals((await replayCard.transmitAPDU(VERIFY)).SW, 0x9000);
+  assertEquals(await replayCard.transmit(VERIFY.toBytes()), HEX.parse("90 00"));
+  assertEquals(replay.isComplete, true);
+
+  await replayContext.shutdown();
+});
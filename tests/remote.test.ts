@@ -0,0 +1,176 @@
+import { MockContextProvider, VirtualCard, VirtualReader } from '../mock/mock.ts';
+import { RemoteContextProvider, RemoteServer } from '../remote/remote.ts';
+import { Disposition, PCSCException, SCARD_E_SHARING_VIOLATION, SCARD_W_REMOVED_CARD, ShareMode, StateFlag } from '../pcsc/pcsc.ts';
+import { CommandAPDU, HEX, SmartCardException } from '../iso7816/iso7816.ts';
+
+import { assert, assertEquals, assertRejects } from 'https://deno.land/std@0.146.0/testing/asserts.ts';
+
+const TOKEN = "s3cr3t";
+
+const ATR = HEX.parse("3B 8F 80 01 80 4F 0C A0 00 00 03 06 03 00 01 00 00 00 00 6A");
+
+const SELECT = new CommandAPDU(0x00, 0xA4, 0x04, 0x00, HEX.parse("A0 00 00 00 03 10 10"));
+
+function createCard() {
+  return new VirtualCard(ATR)
+    .on(HEX.parse("00 A4 04 00 07 A0 00 00 00 03 10 10"), HEX.parse("61 02"))
+    .on(HEX.parse("00 C0 00 00 02"), HEX.parse("6F 00 90 00"));
+}
+
+function isInuse(reader: VirtualReader) {
+  return (reader.state & StateFlag.Inuse) != 0;
+}
+
+async function startServer(mock: MockContextProvider) {
+  const context = mock.establishContext();
+  const server = new RemoteServer(context, { token: TOKEN });
+
+  let http: Deno.HttpServer | undefined;
+
+  const port = await new Promise<number>((resolve) => {
+    http = server.serve({ port: 0, onListen: ({ port }) => resolve(port) });
+  });
+
+  return {
+    server,
+    url: `ws://127.0.0.1:${port}`,
+    async stop() {
+      await server.close();
+      await http?.shutdown();
+      await context.shutdown();
+    },
+  };
+}
+
+Deno.test("Uses readers and cards of a remote context", async () => {
+  const mock = new MockContextProvider();
+  const virtualReader = mock.addReader("Mock Reader 0");
+
+  virtualReader.insertCard(createCard());
+
+  const { server, url, stop } = await startServer(mock);
+
+  const provider = await RemoteContextProvider.connect(url, { token: TOKEN });
+  const context = provider.establishContext();
+  const [reader] = context.listReaders();
+
+  assertEquals(reader.name, "Mock Reader 0");
+  assertEquals(reader.status, "present");
+  assertEquals(reader.atr?.bytes, ATR);
+
+  const card = await reader.connect(ShareMode.Exclusive);
+
+  assertEquals((await card.transmitAPDU(SELECT)).data, HEX.parse("6F 00"));
+  assertEquals((await card.status()).readerNames, ["Mock Reader 0"]);
+
+  // transaction and sharing are those of the remote context
+  await card.withTransaction(async () => {
+    const other = await RemoteContextProvider.connect(url, { token: TOKEN });
+
+    await assertRejects(
+      () => other.establishContext().listReaders()[0].connect(),
+      PCSCException,
+      SCARD_E_SHARING_VIOLATION.toString(16),
+    );
+
+    await other.close();
+  });
+
+  // reader changes are pushed
+  virtualReader.removeCard();
+
+  assertEquals(await reader.waitForChange(2000), "empty");
+
+  const error = await card.transmit(HEX.parse("00 C0 00 00 02")).catch((e) => e);
+
+  assert(error instanceof PCSCException && error.rc == SCARD_W_REMOVED_CARD);
+
+  await card.disconnect(Disposition.LeaveCard);
+  await context.shutdown();
+  await provider.close();
+
+  assertEquals(server.sessionCount, 0);
+
+  await stop();
+});
+
+Deno.test("Notifies events, and disconnects cards of closed clients", async () => {
+  const mock = new MockContextProvider();
+  const virtualReader = mock.addReader("Mock Reader 0");
+
+  const { url, stop } = await startServer(mock);
+
+  const provider = await RemoteContextProvider.connect(url, { token: TOKEN });
+  const context = provider.establishContext();
+  const events = context.events();
+
+  virtualReader.insertCard(createCard());
+  mock.addReader("Mock Reader 1");
+
+  assertEquals((await events.next()).value?.type, "card-inserted");
+  assertEquals((await events.next()).value?.type, "reader-added");
+
+  const [reader] = context.listReaders();
+
+  await reader.connect(ShareMode.Exclusive);
+
+  assert(isInuse(virtualReader));
+
+  // connection lost: readers removed, cards disconnected by server
+  await provider.close();
+
+  assertEquals(context.listReaders(), []);
+
+  for (let retry = 0; retry < 100 && isInuse(virtualReader); retry++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+
+  assert(!isInuse(virtualReader));
+
+  await context.shutdown();
+  await stop();
+});
+
+Deno.test("Refuses clients without the token", async () => {
+  const mock = new MockContextProvider();
+
+  mock.addReader("Mock Reader 0");
+
+  const { server, url, stop } = await startServer(mock);
+
+  await assertRejects(() => RemoteContextProvider.connect(url, { token: "guess" }), SmartCardException, "refused token");
+
+  assertEquals(server.sessionCount, 0);
+
+  await stop();
+});
+
+Deno.test("Closes sessions sending invalid messages", async () => {
+  const mock = new MockContextProvider();
+
+  mock.addReader("Mock Reader 0");
+
+  const { server, url, stop } = await startServer(mock);
+
+  for (const message of ["null", "42", `{ "id": 1 }`, "{"]) {
+    const socket = new WebSocket(url);
+
+    const code = await new Promise<number>((resolve) => {
+      socket.onopen = () => socket.send(message);
+      socket.onclose = (event) => resolve(event.code);
+    });
+
+    assertEquals(code, 1007, message);
+  }
+
+  // server still serves valid clients
+  const provider = await RemoteContextProvider.connect(url, { token: TOKEN });
+
+  assertEquals(provider.establishContext().listReaders().length, 1);
+
+  await provider.close();
+
+  assertEquals(server.sessionCount, 0);
+
+  await stop();
+});
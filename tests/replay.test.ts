@@ -0,0 +1,108 @@
+import { MockContextProvider, VirtualCard } from '../mock/mock.ts';
+import { RecordingContext, ReplayContextProvider, ReplayDivergenceError } from '../replay/replay.ts';
+import { Disposition, PCSCException, SCARD_W_REMOVED_CARD } from '../pcsc/pcsc.ts';
+import { CommandAPDU, HEX } from '../iso7816/iso7816.ts';
+
+import { assert, assertEquals, assertRejects } from 'https://deno.land/std@0.146.0/testing/asserts.ts';
+
+const ATR = HEX.parse("3B 8F 80 01 80 4F 0C A0 00 00 03 06 03 00 01 00 00 00 00 6A");
+
+const SELECT = HEX.parse("00 A4 04 00 02 3F 00");
+const READ = new CommandAPDU(0x00, 0xB0, 0x00, 0x00, undefined, 0);
+
+async function recordSession(): Promise<string> {
+  const provider = new MockContextProvider();
+  const virtualReader = provider.addReader("Mock Reader 0");
+
+  virtualReader.insertCard(
+    new VirtualCard(ATR)
+      .on(SELECT, HEX.parse("90 00"))
+      .on(HEX.parse("00 B0 00 00"), HEX.parse("01 02 03 90 00")),
+  );
+
+  const context = new RecordingContext(provider.establishContext());
+  const [reader] = context.listReaders();
+
+  const card = await reader.connect();
+
+  await card.transmit(SELECT);
+  await card.transmitAPDU(READ);
+
+  virtualReader.removeCard();
+
+  await card.transmit(SELECT).catch(() => {});
+  await card.disconnect(Disposition.LeaveCard);
+
+  await context.shutdown();
+
+  return JSON.stringify(context.recording);
+}
+
+Deno.test("Records a session as versioned JSON", async () => {
+  const recording = JSON.parse(await recordSession());
+
+  assertEquals(recording.version, 1);
+  assertEquals(recording.events.map((event: { type: string }) => event.type), [
+    "status",
+    "connect",
+    "transmit",
+    "transmit",
+    "status",
+    "transmit",
+    "disconnect",
+  ]);
+  assertEquals(recording.events[0].atr, HEX.toString(ATR));
+  assertEquals(recording.events[3].response, "01 02 03 90 00");
+  assertEquals(recording.events[5].error.rc, SCARD_W_REMOVED_CARD);
+});
+
+Deno.test("Replays a session, in strict order", async () => {
+  const provider = new ReplayContextProvider(await recordSession());
+
+  const context = provider.establishContext();
+  const [reader] = context.listReaders();
+
+  assertEquals(reader.atr?.bytes, ATR);
+
+  const card = await reader.connect();
+
+  assertEquals(await card.transmit(SELECT), HEX.parse("90 00"));
+  assertEquals((await card.transmitAPDU(READ)).data, HEX.parse("01 02 03"));
+
+  // card removal is replayed after the last exchange before it
+  assertEquals(await reader.waitForChange(), "empty");
+
+  const error = await card.transmit(SELECT).catch((e) => e);
+  assert(error instanceof PCSCException && error.rc == SCARD_W_REMOVED_CARD);
+
+  assert(provider.isComplete);
+  assertEquals(provider.divergences, []);
+
+  await context.shutdown();
+});
+
+Deno.test("Flags divergence from recording", async () => {
+  const recording = await recordSession();
+
+  const strict = new ReplayContextProvider(recording);
+  const strictContext = strict.establishContext();
+  const strictCard = await strictContext.listReaders()[0].connect();
+
+  await assertRejects(() => strictCard.transmitAPDU(READ), ReplayDivergenceError);
+  assertEquals(strict.divergences.length, 1);
+  assertEquals(strict.divergences[0].expected?.command, HEX.toString(SELECT));
+
+  await strictContext.shutdown();
+
+  const lookup = new ReplayContextProvider(recording, { mode: "lookup" });
+  const lookupContext = lookup.establishContext();
+  const lookupCard = await lookupContext.listReaders()[0].connect();
+
+  assertEquals((await lookupCard.transmitAPDU(READ)).data, HEX.parse("01 02 03"), "Out of order");
+  assertEquals((await lookupCard.transmitAPDU(READ)).data, HEX.parse("01 02 03"), "Repeated");
+
+  await assertRejects(() => lookupCard.transmit(HEX.parse("00 CA 00 42 00")), ReplayDivergenceError);
+  assertEquals(lookup.divergences.map((divergence) => divergence.expected), [undefined]);
+
+  await lookupContext.shutdown();
+});
@@ -0,0 +1,64 @@
+import { MAX_GET_RESPONSE, ResponsePolicy, transmitWithPolicy } from '../pcsc/response-policy.ts';
+import { CommandAPDU, HEX, ResponseAPDU, SmartCardException } from '../iso7816/iso7816.ts';
+
+import { assertEquals, assertRejects } from 'https://deno.land/std@0.146.0/testing/asserts.ts';
+
+/**
+ * Stub transmit, answering with `responses` in order, and recording commands sent
+ */
+function stubTransmit(...responses: string[]) {
+  const commands: CommandAPDU[] = [];
+
+  const transmit = (command: CommandAPDU) => {
+    commands.push(command);
+
+    return Promise.resolve(ResponseAPDU.from(HEX.parse(responses.shift() ?? "6F 00")));
+  };
+
+  return { commands, transmit };
+}
+
+const READ = new CommandAPDU(0x01, 0xB0, 0x00, 0x00, undefined, 0x00);
+
+Deno.test("Issues GET RESPONSE on 61xx, and concatenates data", async () => {
+  const { commands, transmit } = stubTransmit("01 02 61 03", "03 04 05 61 00", "06 90 00");
+
+  const response = await transmitWithPolicy(transmit, READ, ResponsePolicy.Auto);
+
+  assertEquals(response.SW, 0x9000);
+  assertEquals(response.data, HEX.parse("01 02 03 04 05 06"));
+
+  // on same logical channel, Le=SW2 (00 = 256)
+  assertEquals(commands.slice(1).map((command) => HEX.toString(command.toBytes())), ["01 C0 00 00 03", "01 C0 00 00 00"]);
+});
+
+Deno.test("Re-sends command with Le from 6Cxx, keeping sensitivity", async () => {
+  const { commands, transmit } = stubTransmit("6C 04", "01 02 03 04 90 00");
+  const command = new CommandAPDU(0x00, 0xCA, 0x01, 0x02, HEX.parse("11 22"), 0x00, {
+    sensitivity: [{ offset: 1, length: 1 }],
+  });
+
+  const response = await transmitWithPolicy(transmit, command, ResponsePolicy.Auto);
+
+  assertEquals(response.data, HEX.parse("01 02 03 04"));
+  assertEquals(commands[1].le, 0x04);
+  assertEquals(commands[1].data, command.data);
+  assertEquals(commands[1].redactedRanges, [{ offset: 1, length: 1 }]);
+});
+
+Deno.test("Returns responses unchanged with Raw policy", async () => {
+  for (const sw of ["61 10", "6C 04"]) {
+    const { commands, transmit } = stubTransmit(sw);
+
+    assertEquals((await transmitWithPolicy(transmit, READ, ResponsePolicy.Raw)).toBytes(), HEX.parse(sw));
+    assertEquals(commands.length, 1);
+  }
+});
+
+Deno.test("Stops a card that never ends 61xx", async () => {
+  const { commands, transmit } = stubTransmit(...new Array(MAX_GET_RESPONSE + 10).fill("61 01"));
+
+  await assertRejects(() => transmitWithPolicy(transmit, READ, ResponsePolicy.Auto), SmartCardException, "GET RESPONSE");
+
+  assertEquals(commands.length, MAX_GET_RESPONSE + 1);
+});
@@ -0,0 +1,164 @@
+import { SECommand, SEResponse, SEService } from '../omapi/se-service.ts';
+import { MockContextProvider, VirtualCard } from '../mock/mock.ts';
+import { SecurityError } from '../omapi/access-control.ts';
+import { BerTLV, BytesLike, HEX, SmartCardException } from '../iso7816/iso7816.ts';
+
+import { assert, assertEquals, assertRejects } from 'https://deno.land/std@0.146.0/testing/asserts.ts';
+
+const ATR = HEX.parse("3B 8F 80 01 80 4F 0C A0 00 00 03 06 03 00 01 00 00 00 00 6A");
+
+const AID = HEX.parse("A0 00 00 00 01 01 01");
+const UNKNOWN_AID = HEX.parse("A0 00 00 00 09 09 09");
+
+// SELECT on any basic or logical channel (0-3), MANAGE CHANNEL open (1) and close
+function createCard() {
+  return new VirtualCard(ATR)
+    .on(HEX.parse("00 A4 04 00 07 A0 00 00 00 09 09 09"), HEX.parse("6A 82"), HEX.parse("FC FF FF FF FF FF FF FF FF FF FF FF"))
+    .on(HEX.parse("00 A4 04 00 07 A0 00 00 00 01 01 01"), HEX.parse("6F 00 90 00"), HEX.parse("FC FF FF FF FF FF FF FF FF FF FF FF"))
+    .on(HEX.parse("00 70 00 00 01"), HEX.parse("01 90 00"))
+    .on(HEX.parse("00 70 80 01"), HEX.parse("90 00"))
+    .onCommand((command) => (command[1] == 0xCA) ? [command[0], 0x90, 0x00] : undefined);
+}
+
+function commandsSent(card: VirtualCard): string[] {
+  return card.commands.map((command) => HEX.toString(command.slice(0, 4)));
+}
+
+Deno.test("Opens and closes basic and logical channels", async () => {
+  const provider = new MockContextProvider();
+  const virtualCard = createCard();
+
+  provider.addReader("Mock Reader 0").insertCard(virtualCard);
+
+  const context = provider.establishContext();
+  const service = new SEService([context]);
+  const [reader] = await service.getReaders();
+
+  const session = await reader.openSession();
+  const basic = await session.openBasicChannel(AID);
+
+  assertEquals(basic.selectResponse, HEX.parse("6F 00 90 00"));
+  await assertRejects(() => session.openBasicChannel(AID), SmartCardException, "Basic channel is in use");
+
+  const logical = await session.openLogicalChannel(AID);
+  const response = await logical.transmit(new SECommand(0x80, 0xCA, 0x00, 0x00, undefined, 256));
+
+  // CLA encodes logical channel
+  assert(response instanceof SEResponse);
+  assertEquals(response.data, HEX.parse("81"));
+  assert(response.isStatus(0x90, 0x00) && response.isStatus(0x90) && response.isStatus(undefined, 0x00));
+  assert(!response.isStatus(0x6A, 0x82));
+
+  assertEquals(await basic.transmit(HEX.parse("80 CA 00 00 00")), HEX.parse("80 90 00"));
+
+  await logical.close();
+
+  assert(logical.isClosed && !basic.isClosed);
+  await assertRejects(() => logical.transmit(HEX.parse("80 CA 00 00 00")), SmartCardException, "Channel is closed");
+
+  await session.close();
+
+  assert(session.isClosed && basic.isClosed);
+  assertEquals(commandsSent(virtualCard), [
+    "00 A4 04 00",
+    "00 70 00 00",
+    "01 A4 04 00",
+    "81 CA 00 00",
+    "80 CA 00 00",
+    "00 70 80 01",
+  ]);
+
+  await service.shutdown();
+  await context.shutdown();
+});
+
+Deno.test("Closes logical channel when applet is not found, and sessions on card removal", async () => {
+  const provider = new MockContextProvider();
+  const virtualCard = createCard();
+  const virtualReader = provider.addReader("Mock Reader 0").insertCard(virtualCard);
+
+  const context = provider.establishContext();
+  const service = new SEService([context]);
+  const [reader] = await service.getReaders();
+  const session = await reader.openSession();
+
+  await assertRejects(() => session.openLogicalChannel(UNKNOWN_AID), SmartCardException, "applet not found");
+
+  assertEquals(commandsSent(virtualCard), ["00 70 00 00", "01 A4 04 00", "00 70 80 01"]);
+
+  const channel = await session.openBasicChannel(new Uint8Array());
+
+  assertEquals(channel.selectResponse, new Uint8Array(), "Default applet");
+
+  virtualReader.removeCard();
+
+  for (let retry = 0; retry < 100 && !session.isClosed; retry++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+
+  assert(session.isClosed && channel.isClosed);
+
+  await service.shutdown();
+  await context.shutdown();
+});
+
+function tlv(tag: number, ...values: BytesLike[]): Uint8Array {
+  const value = values.flatMap((v) => Array.from(BytesLike.toUint8Array(v)));
+
+  return new BerTLV(tag, value).bytes;
+}
+
+Deno.test("Applies access rules to the applet selected by a partial AID", async () => {
+  const partialAID = HEX.parse("A0 00 00 00 01");
+  const otherAID = HEX.parse("A0 00 00 00 01 02 02");
+
+  // ARA-M: partial AID and AID always, any other applet never, for all device applications
+  const rules = tlv(0xFF40,
+    tlv(0xE2, tlv(0xE1, tlv(0x4F, partialAID), tlv(0xC1, [])), tlv(0xE3, tlv(0xD0, [0x01]))),
+    tlv(0xE2, tlv(0xE1, tlv(0x4F, AID), tlv(0xC1, [])), tlv(0xE3, tlv(0xD0, [0x01]))),
+    tlv(0xE2, tlv(0xE1, tlv(0x4F, []), tlv(0xC1, [])), tlv(0xE3, tlv(0xD0, [0x00]))),
+  );
+
+  // basic channel: partial AID selects other applet. Logical channel: AID, then other applet
+  const virtualCard = new VirtualCard(ATR).onCommand((command) => {
+    switch (command[1]) {
+      case 0x70:
+        return (command[2] == 0x00) ? [0x01, 0x90, 0x00] : [0x90, 0x00];
+
+      case 0xCA:
+        return [...rules, 0x90, 0x00];
+
+      case 0xA4: {
+        if (HEX.toString(command.slice(5, 10)) != HEX.toString(partialAID)) {
+          // ARA-M
+          return [0x90, 0x00];
+        }
+
+        const selected = (command[0] == 0x01 && command[3] == 0x00) ? AID : otherAID;
+
+        return [...tlv(0x6F, tlv(0x84, selected)), 0x90, 0x00];
+      }
+    }
+  });
+
+  const provider = new MockContextProvider();
+  provider.addReader("Mock Reader 0").insertCard(virtualCard);
+
+  const context = provider.establishContext();
+  const service = new SEService([context], { certificateHash: new Uint8Array(20).fill(0x11) });
+  const [reader] = await service.getReaders();
+  const session = await reader.openSession();
+
+  await assertRejects(() => session.openBasicChannel(partialAID), SecurityError, "A0 00 00 00 01 02 02");
+
+  const channel = await session.openLogicalChannel(partialAID);
+
+  assertEquals(await channel.transmit(HEX.parse("80 CA 00 00 00")), Uint8Array.from([...rules, 0x90, 0x00]));
+  await assertRejects(() => channel.transmit(HEX.parse("80 CA")), Error, "Invalid buffer");
+
+  await assertRejects(() => channel.selectNext(), SecurityError, "A0 00 00 00 01 02 02");
+  assert(channel.isClosed);
+
+  await service.shutdown();
+  await context.shutdown();
+});
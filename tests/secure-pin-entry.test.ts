@@ -0,0 +1,128 @@
+import {
+  buildPinModifyStructure,
+  buildPinVerifyStructure,
+  modifyPinOnReader,
+  PinFormat,
+  verifyPinOnReader,
+} from '../pcsc/secure-pin-entry.ts';
+import { Feature, ReaderFeatures } from '../pcsc/reader-features.ts';
+import { DWORD } from '../pcsc/scard.ts';
+import { CommandAPDU, HEX, SmartCardException } from '../iso7816/iso7816.ts';
+
+import { assertEquals, assertRejects, assertThrows } from 'https://deno.land/std@0.146.0/testing/asserts.ts';
+
+const VERIFY = new CommandAPDU(0x00, 0x20, 0x00, 0x80, HEX.parse("FF FF FF FF FF FF FF FF"));
+
+const CHANGE_PIN = new CommandAPDU(0x00, 0x24, 0x00, 0x80, new Uint8Array(16).fill(0xFF));
+
+Deno.test("Builds PIN_VERIFY_STRUCTURE", () => {
+  assertEquals(
+    HEX.toString(buildPinVerifyStructure({ command: VERIFY })),
+    HEX.toString(HEX.parse(
+      // timeouts, ASCII left-justified at 0, 8 byte block, no length field, 4-8 digits, OK key
+      "00 00 82 08 00 08 04 02 " +
+        // 1 message, en-US, message 0, prologue, APDU length
+        "01 09 04 00 00 00 00 0D 00 00 00 " +
+        "00 20 00 80 08 FF FF FF FF FF FF FF FF",
+    )),
+  );
+
+  // ISO 9564 format 2 PIN block: BCD from byte 1, 4 bit length field at bit 4
+  const struct = buildPinVerifyStructure({
+    command: new CommandAPDU(0x00, 0x20, 0x00, 0x80, HEX.parse("20 FF FF FF FF FF FF FF")),
+    format: PinFormat.BCD,
+    pinPosition: 1,
+    pinBlockSize: 7,
+    pinLengthSize: 4,
+    pinLengthPosition: 4,
+    minLength: 6,
+    maxLength: 12,
+    timeout: 30,
+  });
+
+  assertEquals(struct.slice(0, 8), HEX.parse("1E 00 89 47 04 0C 06 02"));
+});
+
+Deno.test("Builds PIN_MODIFY_STRUCTURE", () => {
+  assertEquals(
+    HEX.toString(buildPinModifyStructure({ command: CHANGE_PIN })),
+    HEX.toString(HEX.parse(
+      // timeouts, ASCII left-justified at 0, 8 byte block, no length field, old PIN at 0, new PIN at 8, 4-8 digits
+      "00 00 82 08 00 00 08 08 04 " +
+        // enter current and confirm new PIN, OK key, 3 messages, en-US, messages 0-2, prologue, APDU length
+        "03 02 03 09 04 00 01 02 00 00 00 15 00 00 00 " +
+        "00 24 00 80 10 FF FF FF FF FF FF FF FF FF FF FF FF FF FF FF FF",
+    )),
+  );
+
+  const struct = buildPinModifyStructure({
+    command: CHANGE_PIN,
+    pinBlockSize: 8,
+    insertionOffsetNew: 8,
+    confirmPin: false,
+    enterCurrentPin: false,
+    messageCount: 1,
+    messageIndexes: [0x00, 0x00, 0x00],
+  });
+
+  assertEquals(struct.slice(5, 17), HEX.parse("00 08 08 04 00 02 01 09 04 00 00 00"));
+
+  // default PIN block is half of DATA, new PIN block following current PIN block
+  const defaults = buildPinModifyStructure({
+    command: new CommandAPDU(0x00, 0x24, 0x00, 0x80, new Uint8Array(12).fill(0xFF)),
+  });
+
+  assertEquals(defaults.slice(3, 7), HEX.parse("06 00 00 06"));
+});
+
+Deno.test("Rejects command templates without a valid PIN block", () => {
+  assertThrows(
+    () => buildPinVerifyStructure({ command: new CommandAPDU(0x00, 0x20, 0x00, 0x80) }),
+    SmartCardException,
+    "must contain a PIN block",
+  );
+
+  assertThrows(
+    () => buildPinVerifyStructure({ command: VERIFY, pinPosition: 4, pinBlockSize: 8 }),
+    SmartCardException,
+    "must lie within command DATA",
+  );
+
+  // PIN block too long for bmPINBlockString
+  assertThrows(
+    () => buildPinModifyStructure({ command: CHANGE_PIN, pinBlockSize: 16 }),
+    SmartCardException,
+    "must lie within command DATA",
+  );
+});
+
+Deno.test("Sends PIN structures to the reader's pinpad features", async () => {
+  const sent: [DWORD, string][] = [];
+  const target = {
+    control(ioctl: DWORD, data: Uint8Array) {
+      sent.push([ioctl, HEX.toString(data)]);
+
+      return Promise.resolve(HEX.parse("90 00"));
+    },
+  };
+
+  const features = new ReaderFeatures(target, new Map([[Feature.VerifyPinDirect, 0x42330006]]));
+
+  const response = await verifyPinOnReader(features, { command: VERIFY });
+
+  assertEquals(response.SW, 0x9000);
+  assertEquals(sent, [[0x42330006, HEX.toString(buildPinVerifyStructure({ command: VERIFY }))]]);
+
+  await assertRejects(
+    () => modifyPinOnReader(features, { command: CHANGE_PIN }),
+    SmartCardException,
+    "FEATURE_MODIFY_PIN_DIRECT",
+  );
+
+  // invalid template is reported as a rejection
+  await assertRejects(
+    () => verifyPinOnReader(features, { command: new CommandAPDU(0x00, 0x20, 0x00, 0x80) }),
+    SmartCardException,
+    "must contain a PIN block",
+  );
+});
@@ -0,0 +1,168 @@
+import { MockContextProvider, VirtualCard } from '../mock/mock.ts';
+import { InterceptedContext } from '../intercept/intercept.ts';
+import { ConsoleExporter, JSONLinesExporter, PcapExporter, TraceEvent, Tracer } from '../trace/trace.ts';
+import { Disposition, PCSCException, Protocol } from '../pcsc/pcsc.ts';
+import { CommandAPDU, HEX } from '../iso7816/iso7816.ts';
+
+import { assert, assertEquals, assertRejects } from 'https://deno.land/std@0.146.0/testing/asserts.ts';
+
+const ATR = HEX.parse("3B 8F 80 01 80 4F 0C A0 00 00 03 06 03 00 01 00 00 00 00 6A");
+
+const SELECT = new CommandAPDU(0x00, 0xA4, 0x04, 0x00, HEX.parse("A0 00 00 00 03 10 10"), undefined, { description: "SELECT VISA" });
+const GET_DATA = HEX.parse("00 CA 00 42 00");
+
+class BufferWriter {
+  chunks: Uint8Array[] = [];
+  closed = false;
+
+  writeSync(data: Uint8Array): number {
+    this.chunks.push(data.slice());
+
+    return data.length;
+  }
+
+  close() {
+    this.closed = true;
+  }
+
+  get bytes(): Uint8Array {
+    const bytes = new Uint8Array(this.chunks.reduce((length, chunk) => length + chunk.length, 0));
+
+    this.chunks.reduce((offset, chunk) => (bytes.set(chunk, offset), offset + chunk.length), 0);
+
+    return bytes;
+  }
+}
+
+function setup() {
+  const provider = new MockContextProvider();
+  const virtualReader = provider.addReader("Mock Reader 0");
+
+  virtualReader.insertCard(
+    new VirtualCard(ATR)
+      .on(HEX.parse("00 A4 04 00 07 A0 00 00 00 03 10 10"), HEX.parse("61 02"))
+      .on(HEX.parse("00 C0 00 00 02"), HEX.parse("6F 00 90 00"))
+      .on(GET_DATA, HEX.parse("6A 88")),
+  );
+
+  const events: TraceEvent[] = [];
+  const context = new InterceptedContext(provider.establishContext(), [new Tracer({ export: (event) => events.push(event) })]);
+
+  return { context, virtualReader, events };
+}
+
+Deno.test("Traces connections and APDU exchanges", async () => {
+  const { context, virtualReader, events } = setup();
+  const [reader] = context.listReaders();
+
+  const card = await reader.connect();
+
+  assertEquals(card.id, 1);
+  assertEquals((await card.transmitAPDU(SELECT)).data, HEX.parse("6F 00"));
+  assertEquals(await card.transmit(GET_DATA), HEX.parse("6A 88"));
+
+  virtualReader.removeCard();
+
+  await assertRejects(() => card.transmit(GET_DATA), PCSCException);
+  await card.disconnect(Disposition.LeaveCard);
+
+  assertEquals(events.map((event) => event.type), ["connect", "transmit", "transmit", "transmit", "disconnect"]);
+  assert(events.every((event) => event.reader == "Mock Reader 0" && event.card == 1 && event.duration >= 0));
+
+  const [connect, select, getData, removed] = events;
+
+  assertEquals(connect.protocol, Protocol.T1);
+  assertEquals(select.description, "SELECT VISA");
+  assertEquals(select.command, HEX.parse("00 A4 04 00 07 A0 00 00 00 03 10 10"));
+  assertEquals(select.responseAPDU?.SW, 0x9000);
+  assertEquals(getData.responseAPDU?.SW, 0x6A88);
+  assert(removed.error instanceof PCSCException);
+
+  await context.shutdown();
+});
+
+Deno.test("Interceptors run outermost first, and may replace results", async () => {
+  const { context } = setup();
+  const calls: string[] = [];
+
+  context.use({
+    transmit: async (_, next) => {
+      calls.push("outer");
+
+      return await next();
+    },
+  });
+
+  const remove = context.use({
+    transmit: (call) => {
+      calls.push("inner");
+
+      return Promise.resolve(call.command.slice(0, 2));
+    },
+  });
+
+  const card = await context.listReaders()[0].connect();
+
+  assertEquals(await card.transmit(GET_DATA), HEX.parse("00 CA"));
+  assertEquals(calls, ["outer", "inner"]);
+
+  remove();
+
+  assertEquals(await card.transmit(GET_DATA), HEX.parse("6A 88"));
+
+  await context.shutdown();
+});
+
+Deno.test("Exports to console, JSON Lines and pcap", async () => {
+  const lines: string[] = [];
+  const jsonWriter = new BufferWriter();
+  const pcapWriter = new BufferWriter();
+
+  const tracer = new Tracer(
+    new ConsoleExporter({ log: (line) => lines.push(line) }),
+    new JSONLinesExporter(jsonWriter),
+    new PcapExporter(pcapWriter),
+    {
+      export: () => {
+        throw new Error("Failing exporter");
+      },
+    },
+  );
+
+  const { context } = setup();
+
+  context.use(tracer);
+
+  const card = await context.listReaders()[0].connect();
+
+  await card.transmitAPDU(SELECT);
+
+  tracer.close();
+
+  assert(/^\d\d:\d\d:\d\d\.\d{3} Mock Reader 0 #1 T=1 connect \(\d+\.\d ms\)$/.test(lines[0]));
+  assert(lines[1].endsWith(">> 00 A4 04 00 07 A0 00 00 00 03 10 10 (SELECT VISA)"));
+  assert(/Mock Reader 0 #1 T=1 << 6F 00 90 00 \(\d+\.\d ms\)$/.test(lines[2]));
+
+  const json = new TextDecoder().decode(jsonWriter.bytes).trim().split("\n").map((line) => JSON.parse(line));
+
+  assertEquals(json.length, 2);
+  assertEquals(json[1].command, "00 A4 04 00 07 A0 00 00 00 03 10 10");
+  assertEquals(json[1].response, "6F 00 90 00");
+  assertEquals(json[1].sw, "9000");
+  assertEquals(json[1].protocol, "T=1");
+  assert(jsonWriter.closed);
+
+  const pcap = pcapWriter.bytes;
+  const view = new DataView(pcap.buffer);
+
+  assertEquals(view.getUint32(0, true), 0xA1B2C3D4);
+  assertEquals(view.getUint32(20, true), 101);
+
+  // record header, IPv4, UDP, GSMTAP, APDU
+  assertEquals(view.getUint32(24 + 8, true), 20 + 8 + 16 + 12 + 4);
+  assertEquals(view.getUint16(40 + 20 + 2), 4729);
+  assertEquals(pcap.slice(40 + 28, 40 + 28 + 3), HEX.parse("02 04 04"));
+  assertEquals(pcap.slice(40 + 44), HEX.parse("00 A4 04 00 07 A0 00 00 00 03 10 10 6F 00 90 00"));
+
+  await context.shutdown();
+});
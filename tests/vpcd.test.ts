@@ -0,0 +1,153 @@
+import { VirtualCardServer, VpcdContextProvider, VpcdControl, VpcdSocket } from '../vpcd/vpcd.ts';
+import { Disposition, ShareMode } from '../pcsc/pcsc.ts';
+import { CommandAPDU, HEX, ResponseAPDU, SW } from '../iso7816/iso7816.ts';
+
+import { assertEquals } from 'https://deno.land/std@0.146.0/testing/asserts.ts';
+
+const ATR = HEX.parse("3B 80 80 01 01");
+
+/**
+ * Minimal vicc: answers GetATR, echoes command data with 90 00. Returns all messages received.
+ */
+async function runVicc(socket: VpcdSocket): Promise<string[]> {
+  const received: string[] = [];
+
+  try {
+    while (true) {
+      const message = await socket.receive();
+
+      received.push(HEX.toString(message));
+
+      if (message.length == 1) {
+        if (message[0] == VpcdControl.GetATR) {
+          await socket.send(ATR);
+        }
+      } else {
+        await socket.send([...message.slice(5), 0x90, 0x00]);
+      }
+    }
+  } catch (_) {
+    // closed by vpcd
+  }
+
+  return received;
+}
+
+Deno.test("Presents connected viccs as cards", async () => {
+  const provider = VpcdContextProvider.listen({ port: 0, readers: 2 });
+  const context = provider.establishContext();
+  const [reader, other] = context.listReaders();
+
+  assertEquals(reader.name, "Virtual PCD 00");
+  assertEquals(reader.status, "empty");
+
+  const socket = new VpcdSocket(await Deno.connect({ hostname: "127.0.0.1", port: provider.ports[0] }));
+  const vicc = runVicc(socket);
+
+  assertEquals(await reader.waitForChange(2000), "present");
+  assertEquals(reader.atr?.bytes, ATR);
+  assertEquals(other.status, "empty");
+
+  const card = await reader.connect(ShareMode.Shared);
+
+  assertEquals(await card.transmit(HEX.parse("80 CA 00 00 02 12 34")), HEX.parse("12 34 90 00"));
+
+  await card.disconnect(Disposition.ResetCard);
+
+  const reset = await reader.connect(ShareMode.Shared);
+
+  assertEquals(await reset.transmit(HEX.parse("80 CA 00 00 00")), HEX.parse("90 00"));
+
+  await reset.disconnect();
+
+  // vicc disconnects: card removed
+  await socket.close();
+
+  assertEquals(await reader.waitForChange(2000), "empty");
+
+  assertEquals(await vicc, ["04", "01", "80 CA 00 00 02 12 34", "02", "80 CA 00 00 00"]);
+
+  await context.shutdown();
+  await provider.close();
+});
+
+Deno.test("Powers off viccs on close", async () => {
+  const provider = VpcdContextProvider.listen({ port: 0 });
+  const context = provider.establishContext();
+  const [reader] = context.listReaders();
+
+  const socket = new VpcdSocket(await Deno.connect({ hostname: "127.0.0.1", port: provider.ports[0] }));
+  const vicc = runVicc(socket);
+
+  assertEquals(await reader.waitForChange(2000), "present");
+
+  await context.shutdown();
+  await provider.close();
+
+  assertEquals(await vicc, ["04", "01", "00"]);
+});
+
+Deno.test("Accepts a single vicc per reader", async () => {
+  const provider = VpcdContextProvider.listen({ port: 0 });
+  const context = provider.establishContext();
+  const [reader] = context.listReaders();
+
+  // second vicc connects while first one's ATR is still being read
+  const socket = new VpcdSocket(await Deno.connect({ hostname: "127.0.0.1", port: provider.ports[0] }));
+  const other = new VpcdSocket(await Deno.connect({ hostname: "127.0.0.1", port: provider.ports[0] }));
+
+  const vicc = runVicc(socket);
+
+  assertEquals(await runVicc(other), [], "Closed by vpcd");
+  assertEquals(await reader.waitForChange(2000), "present");
+
+  await context.shutdown();
+  await provider.close();
+
+  assertEquals(await vicc, ["04", "01", "00"]);
+});
+
+Deno.test("Serves a TypeScript card to vpcd", async () => {
+  const provider = VpcdContextProvider.listen({ port: 0 });
+  const context = provider.establishContext();
+  const [reader] = context.listReaders();
+
+  let resets = 0;
+
+  const server = new VirtualCardServer((command: CommandAPDU) => {
+    if (command.ins == 0xEE) {
+      throw new Error("card bug");
+    }
+
+    return new ResponseAPDU(SW.SUCCESS, [command.ins, resets]);
+  }, { atr: ATR, port: provider.ports[0] });
+
+  server.onReset = () => resets++;
+
+  await server.connect();
+
+  assertEquals(await reader.waitForChange(2000), "present");
+  assertEquals(reader.atr?.bytes, ATR);
+
+  const card = await reader.connect();
+
+  assertEquals((await card.transmitAPDU(new CommandAPDU(0x00, 0xB0, 0x00, 0x00))).data, HEX.parse("B0 01"));
+  assertEquals(server.isPowered, true);
+  assertEquals(await card.transmit(HEX.parse("00 EE 00 00")), HEX.parse("6F 00"));
+  assertEquals(await card.transmit(HEX.parse("00 B0 00 00 05 01")), HEX.parse("67 00"));
+
+  await card.disconnect(Disposition.ResetCard);
+
+  const reset = await reader.connect();
+
+  assertEquals(await reset.transmit(HEX.parse("00 CA 00 00")), HEX.parse("CA 02 90 00"));
+
+  await reset.disconnect();
+
+  await server.close();
+
+  assertEquals(await reader.waitForChange(2000), "empty");
+
+  await context.shutdown();
+  await provider.close();
+});
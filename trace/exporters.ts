@@ -0,0 +1,270 @@
+import { PCSCException, Protocol } from '../pcsc/pcsc.ts';
+
+import { HEX, Redaction } from '../iso7816/iso7816.ts';
+
+import { TraceEvent, TraceExporter } from './tracer.ts';
+
+/**
+ * Synchronous byte sink, such as a `Deno.FsFile`
+ */
+export interface TraceWriter {
+  writeSync(data: Uint8Array): number;
+
+  close?(): void;
+}
+
+function writeAll(writer: TraceWriter, data: Uint8Array) {
+  let written = 0;
+
+  while (written < data.length) {
+    written += writer.writeSync(data.subarray(written));
+  }
+}
+
+function protocolName(protocol: Protocol): string {
+  switch (protocol) {
+    case Protocol.T0:
+      return "T=0";
+    case Protocol.T1:
+      return "T=1";
+    case Protocol.Raw:
+      return "RAW";
+    default:
+      return "-";
+  }
+}
+
+/**
+ * Human-readable trace, one line per command and per response:
+ *
+ * ```
+ * 10:42:07.015 Mock Reader 0 #1 T=1 >> 00 A4 04 00 07 A0 00 00 00 03 10 10 (SELECT VISA)
+ * 10:42:07.019 Mock Reader 0 #1 T=1 << 6F 1E 84 07 ... 90 00 (4.1 ms)
+ * ```
+ */
+export class ConsoleExporter implements TraceExporter {
+  #log: (line: string) => void;
+
+  constructor(options: { log?: (line: string) => void } = {}) {
+    this.#log = options.log ?? console.log;
+  }
+
+  export(event: TraceEvent) {
+    ConsoleExporter.format(event).forEach((line) => this.#log(line));
+  }
+
+  /**
+   * Format an event as console lines
+   */
+  static format(event: TraceEvent): string[] {
+    const time = (timestamp: number) => new Date(timestamp).toISOString().slice(11, 23);
+    const prefix = (timestamp: number) =>
+      `${time(timestamp)} ${event.reader}` +
+      ((event.card !== undefined) ? ` #${event.card}` : "") +
+      ` ${protocolName(event.protocol)}`;
+
+    const end = event.timestamp + Math.round(event.duration);
+    const duration = `(${event.duration.toFixed(1)} ms)`;
+    const result = (event.error !== undefined) ? `!! ${event.error.message} ${duration}` : undefined;
+
+    if (event.command === undefined) {
+      return [`${prefix(end)} ${event.type} ${result ?? duration}`];
+    }
+
+    const command = (event.type == "control")
+      ? `>> IOCTL 0x${event.ioctl?.toString(16)} ${HEX.toString(event.command)}`
+      : `>> ${Redaction.toHex(event.command, event.redacted ?? [])}`;
+
+    return [
+      `${prefix(event.timestamp)} ${command}` + ((event.description !== undefined) ? ` (${event.description})` : ""),
+      `${prefix(end)} ` + (result ?? `<< ${HEX.toString(event.response ?? [])} ${duration}`),
+    ];
+  }
+}
+
+/**
+ * Trace as JSON Lines, one JSON object per event, with bytes as hex strings
+ *
+ * ```typescript
+ * const exporter = JSONLinesExporter.open("trace.jsonl");
+ * ```
+ */
+export class JSONLinesExporter implements TraceExporter {
+  #encoder = new TextEncoder();
+
+  constructor(public readonly writer: TraceWriter) {
+  }
+
+  /**
+   * Append to a file, created if needed
+   */
+  static open(path: string | URL): JSONLinesExporter {
+    return new JSONLinesExporter(Deno.openSync(path, { write: true, append: true, create: true }));
+  }
+
+  export(event: TraceEvent) {
+    writeAll(this.writer, this.#encoder.encode(JSON.stringify(JSONLinesExporter.toJSON(event)) + "\n"));
+  }
+
+  close() {
+    this.writer.close?.();
+  }
+
+  /**
+   * JSON object written for an event
+   */
+  static toJSON(event: TraceEvent): Record<string, unknown> {
+    const { error, responseAPDU } = event;
+
+    return {
+      type: event.type,
+      timestamp: new Date(event.timestamp).toISOString(),
+      duration: event.duration,
+      reader: event.reader,
+      card: event.card,
+      protocol: protocolName(event.protocol),
+      ioctl: event.ioctl,
+      command: event.command && Redaction.toHex(event.command, event.redacted ?? []),
+      description: event.description,
+      response: event.response && HEX.toString(event.response),
+      sw: responseAPDU && HEX.toString([responseAPDU.SW >> 8, responseAPDU.SW & 0xff], false),
+      error: error && {
+        message: error.message,
+        ...(error instanceof PCSCException ? { rc: error.rc, func: error.func } : {}),
+      },
+    };
+  }
+}
+
+/** GSMTAP UDP port, dissected by Wireshark */
+const GSMTAP_PORT = 4729;
+
+/** GSMTAP payload type for SIM APDUs, command followed by response */
+const GSMTAP_TYPE_SIM = 0x04;
+
+/** pcap link type for raw IPv4 packets */
+const LINKTYPE_RAW = 101;
+
+const IPV4_HEADER_LENGTH = 20;
+const UDP_HEADER_LENGTH = 8;
+const GSMTAP_HEADER_LENGTH = 16;
+
+/**
+ * Trace as a pcap capture that Wireshark dissects as ISO 7816 APDUs: each `transmit` exchange is
+ * encapsulated in GSMTAP (type SIM) over UDP on 127.0.0.1, as done by SIMtrace.
+ *
+ * Connections, control commands and failed exchanges are not captured. Sensitive command bytes are zeroed.
+ *
+ * ```typescript
+ * const exporter = new PcapExporter(Deno.openSync("trace.pcap", { write: true, create: true, truncate: true }));
+ * ```
+ */
+export class PcapExporter implements TraceExporter {
+  #headerWritten = false;
+
+  constructor(public readonly writer: TraceWriter) {
+  }
+
+  export(event: TraceEvent) {
+    if (event.type != "transmit" || event.command === undefined || event.response === undefined) {
+      return;
+    }
+
+    if (!this.#headerWritten) {
+      writeAll(this.writer, PcapExporter.header());
+
+      this.#headerWritten = true;
+    }
+
+    const command = Redaction.mask(event.command, event.redacted ?? []);
+
+    writeAll(this.writer, PcapExporter.record(event.timestamp, command, event.response));
+  }
+
+  close() {
+    if (!this.#headerWritten) {
+      // valid, empty capture
+      writeAll(this.writer, PcapExporter.header());
+
+      this.#headerWritten = true;
+    }
+
+    this.writer.close?.();
+  }
+
+  /**
+   * pcap global header
+   */
+  static header(): Uint8Array {
+    const header = new Uint8Array(24);
+    const view = new DataView(header.buffer);
+
+    view.setUint32(0, 0xA1B2C3D4, true);
+    view.setUint16(4, 2, true);
+    view.setUint16(6, 4, true);
+    // thiszone, sigfigs: 0
+    view.setUint32(16, 65535, true);
+    view.setUint32(20, LINKTYPE_RAW, true);
+
+    return header;
+  }
+
+  /**
+   * pcap record for an APDU exchange
+   */
+  static record(timestamp: number, command: Uint8Array, response: Uint8Array): Uint8Array {
+    const payloadLength = GSMTAP_HEADER_LENGTH + command.length + response.length;
+    const udpLength = UDP_HEADER_LENGTH + payloadLength;
+    const ipLength = IPV4_HEADER_LENGTH + udpLength;
+
+    const record = new Uint8Array(16 + ipLength);
+    const view = new DataView(record.buffer);
+
+    // record header
+    view.setUint32(0, Math.floor(timestamp / 1000), true);
+    view.setUint32(4, (timestamp % 1000) * 1000, true);
+    view.setUint32(8, ipLength, true);
+    view.setUint32(12, ipLength, true);
+
+    // IPv4, 127.0.0.1 to 127.0.0.1, UDP
+    const ip = 16;
+
+    record.set([0x45, 0x00], ip);
+    view.setUint16(ip + 2, ipLength);
+    view.setUint16(ip + 6, 0x4000);
+    record.set([64, 17], ip + 8);
+    record.set([127, 0, 0, 1, 127, 0, 0, 1], ip + 12);
+    view.setUint16(ip + 10, PcapExporter.#checksum(record.subarray(ip, ip + IPV4_HEADER_LENGTH)));
+
+    // UDP, without checksum
+    const udp = ip + IPV4_HEADER_LENGTH;
+
+    view.setUint16(udp, GSMTAP_PORT);
+    view.setUint16(udp + 2, GSMTAP_PORT);
+    view.setUint16(udp + 4, udpLength);
+
+    // GSMTAP v2
+    const gsmtap = udp + UDP_HEADER_LENGTH;
+
+    record.set([0x02, GSMTAP_HEADER_LENGTH / 4, GSMTAP_TYPE_SIM], gsmtap);
+
+    record.set(command, gsmtap + GSMTAP_HEADER_LENGTH);
+    record.set(response, gsmtap + GSMTAP_HEADER_LENGTH + command.length);
+
+    return record;
+  }
+
+  static #checksum(header: Uint8Array): number {
+    let sum = 0;
+
+    for (let i = 0; i < header.length; i += 2) {
+      sum += (header[i] << 8) | header[i + 1];
+    }
+
+    while (sum > 0xFFFF) {
+      sum = (sum & 0xFFFF) + (sum >> 16);
+    }
+
+    return ~sum & 0xFFFF;
+  }
+}
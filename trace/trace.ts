@@ -0,0 +1,4 @@
+export { Tracer } from './tracer.ts';
+export type { TraceEvent, TraceEventType, TraceExporter } from './tracer.ts';
+export { ConsoleExporter, JSONLinesExporter, PcapExporter } from './exporters.ts';
+export type { TraceWriter } from './exporters.ts';
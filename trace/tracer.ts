@@ -0,0 +1,212 @@
+import { Card, Protocol } from '../pcsc/pcsc.ts';
+import { ReaderStatus } from '../pcsc/context.ts';
+
+import { ByteRange, Redaction, ResponseAPDU } from '../iso7816/iso7816.ts';
+
+import {
+  ConnectCall,
+  ControlCall,
+  DisconnectCall,
+  Interceptor,
+  Next,
+  ReconnectCall,
+  TransmitAPDUCall,
+  TransmitCall,
+} from '../intercept/interceptor.ts';
+
+export type TraceEventType = "connect" | "reconnect" | "disconnect" | "transmit" | "control";
+
+/**
+ * A traced operation, emitted once completed or failed
+ */
+export interface TraceEvent {
+  type: TraceEventType;
+
+  /** Start of operation, milliseconds since epoch */
+  timestamp: number;
+
+  /** Milliseconds */
+  duration: number;
+
+  reader: string;
+
+  /** `InterceptedCard.id` of the connection, unset for a `control` command sent directly to the reader */
+  card?: number;
+
+  /** Active protocol, after the operation */
+  protocol: Protocol;
+
+  /** `transmit` command as sent, or `control` data */
+  command?: Uint8Array;
+
+  /** Sensitive bytes of `command`, to be masked by exporters, according to the `Redaction` policy when traced */
+  redacted?: ByteRange[];
+
+  /** `CommandAPDU.description`, for commands sent with `transmitAPDU` */
+  description?: string;
+
+  /** Response as received */
+  response?: Uint8Array;
+
+  /** Parsed `response`, for a `transmit` exchange */
+  responseAPDU?: ResponseAPDU;
+
+  ioctl?: number;
+
+  error?: Error;
+}
+
+/**
+ * Destination of trace events. `export` must not block - exporters buffer or write synchronously,
+ * and mask `redacted` bytes.
+ */
+export interface TraceExporter {
+  export(event: TraceEvent): void;
+
+  close?(): void;
+}
+
+/**
+ * `Interceptor` emitting a `TraceEvent` for each operation, to all its exporters.
+ *
+ * An exporter failure never fails the traced operation.
+ *
+ * ```typescript
+ * const context = new InterceptedContext(ContextProvider.establishContext());
+ *
+ * context.use(new Tracer(new ConsoleExporter(), JSONLinesExporter.open("trace.jsonl")));
+ * ```
+ */
+export class Tracer implements Interceptor {
+  readonly exporters: TraceExporter[];
+
+  constructor(...exporters: TraceExporter[]) {
+    this.exporters = exporters;
+  }
+
+  connect({ reader, card }: ConnectCall, next: Next<Card>): Promise<Card> {
+    return this.#trace(
+      { type: "connect", reader: reader.name, card, protocol: Protocol.Undefined },
+      next,
+      (event, connected) => event.protocol = connected.protocol,
+    );
+  }
+
+  reconnect({ card }: ReconnectCall, next: Next<ReaderStatus>): Promise<ReaderStatus> {
+    return this.#trace(
+      { type: "reconnect", reader: card.reader.name, card: card.id, protocol: Protocol.Undefined },
+      next,
+      (event) => event.protocol = card.protocol,
+    );
+  }
+
+  disconnect({ card }: DisconnectCall, next: Next<ReaderStatus>): Promise<ReaderStatus> {
+    return this.#trace(
+      { type: "disconnect", reader: card.reader.name, card: card.id, protocol: card.protocol },
+      next,
+    );
+  }
+
+  transmit({ card, command }: TransmitCall, next: Next<Uint8Array>): Promise<Uint8Array> {
+    return this.#trace(
+      {
+        type: "transmit",
+        reader: card.reader.name,
+        card: card.id,
+        protocol: card.protocol,
+        command,
+        redacted: Redaction.commandRanges(command),
+      },
+      next,
+      (event, response) => {
+        event.response = response;
+
+        if (response.length >= 2) {
+          event.responseAPDU = ResponseAPDU.from(response);
+        }
+      },
+    );
+  }
+
+  transmitAPDU({ card, command, commandBytes }: TransmitAPDUCall, next: Next<ResponseAPDU>): Promise<ResponseAPDU> {
+    return this.#trace(
+      {
+        type: "transmit",
+        reader: card.reader.name,
+        card: card.id,
+        protocol: card.protocol,
+        command: commandBytes,
+        redacted: Redaction.commandRanges(commandBytes, command.sensitivity),
+        ...(command.description != "" ? { description: command.description } : {}),
+      },
+      next,
+      (event, response) => {
+        event.response = response.toBytes();
+        event.responseAPDU = response;
+      },
+    );
+  }
+
+  control({ reader, card, ioctl, data }: ControlCall, next: Next<Uint8Array>): Promise<Uint8Array> {
+    return this.#trace(
+      {
+        type: "control",
+        reader: reader.name,
+        card: card?.id,
+        protocol: card?.protocol ?? Protocol.Undefined,
+        ioctl,
+        command: data,
+      },
+      next,
+      (event, response) => event.response = response,
+    );
+  }
+
+  /**
+   * Close all exporters
+   */
+  close() {
+    for (const exporter of this.exporters) {
+      try {
+        exporter.close?.();
+      } catch (_) {
+        // close remaining exporters
+      }
+    }
+  }
+
+  emit(event: TraceEvent) {
+    for (const exporter of this.exporters) {
+      try {
+        exporter.export(event);
+      } catch (_) {
+        // tracing never fails the traced operation
+      }
+    }
+  }
+
+  async #trace<T>(
+    start: Omit<TraceEvent, "timestamp" | "duration">,
+    next: Next<T>,
+    completed?: (event: TraceEvent, result: T) => void,
+  ): Promise<T> {
+    const event: TraceEvent = { ...start, timestamp: Date.now(), duration: 0 };
+    const startTime = performance.now();
+
+    try {
+      const result = await next();
+
+      completed?.(event, result);
+
+      return result;
+    } catch (e) {
+      event.error = (e instanceof Error) ? e : new Error(String(e));
+
+      throw e;
+    } finally {
+      event.duration = performance.now() - startTime;
+
+      this.emit(event);
+    }
+  }
+}
@@ -0,0 +1,183 @@
+import { BytesLike, SmartCardException } from '../iso7816/iso7816.ts';
+
+/**
+ * vsmartcard `vpcd` protocol: the vpcd driver, loaded by pcscd, listens for virtual cards (`vicc`).
+ * Each message, in both directions, is prefixed by its length on 2 bytes (big-endian).
+ *
+ * The driver sends single-byte control messages (`VpcdControl`), and command APDUs. The card
+ * answers `GetATR` with its ATR, and each command with a response APDU.
+ */
+export const VPCD_PORT = 35963;
+
+/** Largest message, limited by the 2 byte length prefix */
+export const VPCD_MAX_MESSAGE = 0xFFFF;
+
+export enum VpcdControl {
+  PowerOff = 0x00,
+  PowerOn = 0x01,
+  Reset = 0x02,
+  GetATR = 0x04,
+}
+
+/**
+ * A control message has a single byte, any other message is an APDU
+ */
+export function isControlMessage(message: Uint8Array): boolean {
+  return message.length == 1;
+}
+
+/**
+ * Length-prefixed message framing over a TCP connection, for both sides of the vpcd protocol.
+ *
+ * Messages are read in background: `closed` resolves once the peer closes the connection.
+ */
+export class VpcdSocket {
+  #conn: Deno.Conn;
+  #buffer = new Uint8Array(0);
+  #messages: Uint8Array[] = [];
+  #receivers: { resolve: (message: Uint8Array) => void; reject: (error: Error) => void }[] = [];
+  #writing: Promise<void> = Promise.resolve();
+  #isOpen = true;
+
+  /**
+   * Resolves when connection is closed, by either side
+   */
+  readonly closed: Promise<void>;
+
+  constructor(conn: Deno.Conn) {
+    this.#conn = conn;
+
+    this.closed = this.#readLoop();
+  }
+
+  get isOpen(): boolean {
+    return this.#isOpen;
+  }
+
+  /**
+   * Send a message, resolving once written
+   */
+  send(message: BytesLike): Promise<void> {
+    const bytes = BytesLike.toUint8Array(message);
+
+    if (bytes.length > VPCD_MAX_MESSAGE) {
+      return Promise.reject(new SmartCardException(`vpcd message too long (${bytes.length} bytes)`));
+    }
+
+    const frame = new Uint8Array(2 + bytes.length);
+
+    new DataView(frame.buffer).setUint16(0, bytes.length);
+    frame.set(bytes, 2);
+
+    const written = this.#writing.then(() => this.#write(frame));
+
+    this.#writing = written.catch(() => {});
+
+    return written;
+  }
+
+  /**
+   * Next message received. Rejects if connection is closed.
+   */
+  receive(): Promise<Uint8Array> {
+    const message = this.#messages.shift();
+
+    if (message !== undefined) {
+      return Promise.resolve(message);
+    }
+
+    if (!this.#isOpen) {
+      return Promise.reject(new SmartCardException("vpcd connection closed"));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.#receivers.push({ resolve, reject });
+    });
+  }
+
+  /**
+   * Close connection. Pending `receive` calls are rejected.
+   */
+  async close(): Promise<void> {
+    this.#shutdown();
+
+    await this.closed;
+  }
+
+  async #write(frame: Uint8Array) {
+    if (!this.#isOpen) {
+      throw new SmartCardException("vpcd connection closed");
+    }
+
+    for (let offset = 0; offset < frame.length;) {
+      offset += await this.#conn.write(frame.subarray(offset));
+    }
+  }
+
+  async #readLoop(): Promise<void> {
+    const chunk = new Uint8Array(4096);
+
+    try {
+      while (true) {
+        const count = await this.#conn.read(chunk);
+
+        if (count === null) {
+          break;
+        }
+
+        this.#received(chunk.subarray(0, count));
+      }
+    } catch (_) {
+      // connection reset, or closed locally
+    }
+
+    this.#shutdown();
+
+    const receivers = this.#receivers.splice(0);
+
+    receivers.forEach(({ reject }) => reject(new SmartCardException("vpcd connection closed")));
+  }
+
+  #received(data: Uint8Array) {
+    const buffer = new Uint8Array(this.#buffer.length + data.length);
+
+    buffer.set(this.#buffer);
+    buffer.set(data, this.#buffer.length);
+
+    let offset = 0;
+
+    while (buffer.length - offset >= 2) {
+      const length = (buffer[offset] << 8) | buffer[offset + 1];
+
+      if (buffer.length - offset - 2 < length) {
+        break;
+      }
+
+      const message = buffer.slice(offset + 2, offset + 2 + length);
+
+      offset += 2 + length;
+
+      const receiver = this.#receivers.shift();
+
+      if (receiver !== undefined) {
+        receiver.resolve(message);
+      } else {
+        this.#messages.push(message);
+      }
+    }
+
+    this.#buffer = buffer.slice(offset);
+  }
+
+  #shutdown() {
+    if (this.#isOpen) {
+      this.#isOpen = false;
+
+      try {
+        this.#conn.close();
+      } catch (_) {
+        // already closed
+      }
+    }
+  }
+}
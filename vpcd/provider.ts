@@ -0,0 +1,225 @@
+import { PCSCException, Protocol, SCARD_W_REMOVED_CARD } from '../pcsc/pcsc.ts';
+
+import { BytesLike } from '../iso7816/iso7816.ts';
+
+import { MockContextProvider } from '../mock/provider.ts';
+import { VirtualReader } from '../mock/virtual-reader.ts';
+import { VirtualCard, VirtualCardOptions } from '../mock/virtual-card.ts';
+
+import { VPCD_PORT, VpcdControl, VpcdSocket } from './protocol.ts';
+
+export interface VpcdOptions {
+  /** Interface to listen on, default "127.0.0.1" */
+  hostname?: string;
+
+  /** Port of first reader, default `VPCD_PORT` (35963). Reader `n` listens on `port + n`, or on any port when 0 */
+  port?: number;
+
+  /** Number of readers, default 1 */
+  readers?: number;
+
+  /** Protocol of virtual cards, default T=1 */
+  protocol?: Protocol;
+}
+
+/**
+ * A virtual card (`vicc`) connected to a `VpcdContextProvider` reader. Commands and resets are
+ * sent to the vicc, in order.
+ */
+export class ViccCard extends VirtualCard {
+  #queue: Promise<unknown> = Promise.resolve();
+  #isPowered = false;
+
+  constructor(public readonly socket: VpcdSocket, atr: BytesLike, options?: VirtualCardOptions) {
+    super(atr, options);
+  }
+
+  /**
+   * Request ATR of a newly connected vicc
+   */
+  static async open(socket: VpcdSocket, options?: Omit<VirtualCardOptions, "isMute">): Promise<ViccCard> {
+    await socket.send([VpcdControl.GetATR]);
+
+    const atr = await socket.receive();
+
+    // no ATR: card does not answer to reset
+    return new ViccCard(socket, atr, { ...options, isMute: atr.length == 0 });
+  }
+
+  protected override handle(command: Uint8Array): Promise<Uint8Array> {
+    return this.#exchange(async () => {
+      await this.socket.send(command);
+
+      return await this.socket.receive();
+    }).catch(() => {
+      throw new PCSCException(SCARD_W_REMOVED_CARD, "SCardTransmit");
+    });
+  }
+
+  /**
+   * Power-up on insertion, then warm reset
+   */
+  override reset() {
+    super.reset();
+
+    const control = this.#isPowered ? VpcdControl.Reset : VpcdControl.PowerOn;
+
+    this.#isPowered = true;
+
+    this.#exchange(() => this.socket.send([control])).catch(() => {
+      // vicc disconnected, card is removed
+    });
+  }
+
+  /**
+   * Power-down card, once pending commands have been answered
+   */
+  powerOff(): Promise<void> {
+    this.#isPowered = false;
+
+    return this.#exchange(() => this.socket.send([VpcdControl.PowerOff]));
+  }
+
+  #exchange<T>(exchange: () => Promise<T>): Promise<T> {
+    const result = this.#queue.then(exchange);
+
+    this.#queue = result.catch(() => {});
+
+    return result;
+  }
+}
+
+/**
+ * Stands in for the vsmartcard `vpcd` driver, without pcscd: virtual cards (`vicc`, jCardSim ...)
+ * connect to its readers over TCP. A reader has a card present while a vicc is connected.
+ *
+ * ```typescript
+ * const provider = VpcdContextProvider.listen({ readers: 2 });
+ *
+ * ContextProvider.registerProvider(provider);
+ *
+ * // vicc --type iso7816 --hostname 127.0.0.1 --port 35963
+ * ```
+ */
+export class VpcdContextProvider extends MockContextProvider {
+  #listeners: Deno.Listener[];
+  #sockets = new Set<VpcdSocket>();
+  #tasks = new Set<Promise<void>>();
+  // readers with a connected vicc, reserved before its ATR is read
+  #occupied = new Set<VirtualReader>();
+  #protocol: Protocol;
+
+  override readonly name: string = "vpcd";
+
+  /**
+   * Use `VpcdContextProvider.listen`, or pass listeners, one per reader
+   */
+  constructor(listeners: Deno.Listener[], options: VpcdOptions = {}) {
+    super();
+
+    this.#listeners = listeners;
+    this.#protocol = options.protocol ?? Protocol.T1;
+
+    listeners.forEach((listener, slot) => {
+      const reader = this.addReader(`Virtual PCD ${slot.toString().padStart(2, "0")}`);
+
+      this.#track(this.#accept(listener, reader));
+    });
+  }
+
+  /**
+   * Listen for vicc connections, on consecutive ports
+   */
+  static listen(options: VpcdOptions = {}): VpcdContextProvider {
+    const hostname = options.hostname ?? "127.0.0.1";
+    const port = options.port ?? VPCD_PORT;
+    const listeners: Deno.Listener[] = [];
+
+    try {
+      for (let slot = 0; slot < (options.readers ?? 1); slot++) {
+        listeners.push(Deno.listen({ hostname, port: (port == 0) ? 0 : port + slot }));
+      }
+    } catch (e) {
+      listeners.forEach((listener) => listener.close());
+
+      throw e;
+    }
+
+    return new VpcdContextProvider(listeners, options);
+  }
+
+  /**
+   * Port of each reader, in order
+   */
+  get ports(): number[] {
+    return this.#listeners.map((listener) => (listener.addr as Deno.NetAddr).port);
+  }
+
+  /**
+   * Stop listening, and power-off and disconnect all viccs
+   */
+  async close(): Promise<void> {
+    this.#listeners.forEach((listener) => {
+      try {
+        listener.close();
+      } catch (_) {
+        // already closed
+      }
+    });
+
+    await Promise.all(this.readers.map(async (reader) => {
+      if (reader.card instanceof ViccCard) {
+        await reader.card.powerOff().catch(() => {});
+      }
+    }));
+
+    await Promise.all(Array.from(this.#sockets).map((socket) => socket.close()));
+    await Promise.all(Array.from(this.#tasks));
+  }
+
+  async #accept(listener: Deno.Listener, reader: VirtualReader) {
+    try {
+      for await (const conn of listener) {
+        this.#track(this.#connected(new VpcdSocket(conn), reader));
+      }
+    } catch (_) {
+      // listener closed
+    }
+  }
+
+  async #connected(socket: VpcdSocket, reader: VirtualReader) {
+    // a reader accepts a single vicc
+    if (reader.card !== undefined || this.#occupied.has(reader)) {
+      await socket.close();
+
+      return;
+    }
+
+    this.#occupied.add(reader);
+    this.#sockets.add(socket);
+
+    try {
+      const card = await ViccCard.open(socket, { protocol: this.#protocol });
+
+      reader.insertCard(card);
+
+      await socket.closed;
+
+      if (reader.card === card) {
+        reader.removeCard();
+      }
+    } catch (_) {
+      // vicc disconnected before sending ATR
+      await socket.close();
+    } finally {
+      this.#sockets.delete(socket);
+      this.#occupied.delete(reader);
+    }
+  }
+
+  #track(task: Promise<void>) {
+    this.#tasks.add(task);
+
+    task.finally(() => this.#tasks.delete(task));
+  }
+}
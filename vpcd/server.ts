@@ -0,0 +1,166 @@
+import { PCSCException, SCARD_E_NO_SERVICE } from '../pcsc/pcsc.ts';
+
+import { BytesLike, CommandAPDU, ResponseAPDU, SW } from '../iso7816/iso7816.ts';
+
+import { isControlMessage, VPCD_PORT, VpcdControl, VpcdSocket } from './protocol.ts';
+
+/**
+ * Card implementation: answers a command, a thrown error is answered with SW=6F00
+ */
+export type VirtualCardHandler = (
+  command: CommandAPDU,
+  server: VirtualCardServer,
+) => ResponseAPDU | Promise<ResponseAPDU>;
+
+export interface VirtualCardServerOptions {
+  /** ATR of card */
+  atr: BytesLike;
+
+  /** Host running pcscd with the vpcd driver, default "127.0.0.1" */
+  hostname?: string;
+
+  /** Port of vpcd reader, default `VPCD_PORT` (35963) */
+  port?: number;
+}
+
+/**
+ * Presents a card implemented in TypeScript to pcscd, through the vsmartcard `vpcd` driver: it
+ * connects to a vpcd reader as a virtual card (`vicc`), so native tools see a card in that reader.
+ *
+ * Commands are decoded with `CommandAPDU.from` and passed to `handler`; a malformed command is
+ * answered with SW=6700, without calling `handler`.
+ *
+ * ```typescript
+ * const server = new VirtualCardServer(
+ *   (command) => new ResponseAPDU(command.ins == 0xA4 ? SW.SUCCESS : SW.INS_NOT_SUPPORTED),
+ *   { atr: "3B 80 80 01 01" },
+ * );
+ *
+ * await server.connect();
+ * await server.closed;
+ * ```
+ */
+export class VirtualCardServer {
+  #socket?: VpcdSocket;
+  #isPowered = false;
+
+  /** ATR of card, returned on each request from vpcd */
+  atr: Uint8Array;
+
+  readonly hostname: string;
+
+  readonly port: number;
+
+  /** Called when card is powered-up or reset: card state should be reset */
+  onReset?: () => void;
+
+  /** Called when card is powered-down */
+  onPowerOff?: () => void;
+
+  constructor(public readonly handler: VirtualCardHandler, options: VirtualCardServerOptions) {
+    this.atr = BytesLike.toUint8Array(options.atr).slice();
+    this.hostname = options.hostname ?? "127.0.0.1";
+    this.port = options.port ?? VPCD_PORT;
+  }
+
+  get isConnected(): boolean {
+    return this.#socket?.isOpen ?? false;
+  }
+
+  get isPowered(): boolean {
+    return this.#isPowered;
+  }
+
+  /**
+   * Resolves when connection to vpcd is closed - by vpcd, or by `close`
+   */
+  get closed(): Promise<void> {
+    return this.#socket?.closed ?? Promise.resolve();
+  }
+
+  /**
+   * Connect to vpcd, inserting card in its reader. Commands are served until the connection is closed.
+   */
+  async connect(): Promise<void> {
+    if (this.isConnected) {
+      return;
+    }
+
+    let conn: Deno.Conn;
+
+    try {
+      conn = await Deno.connect({ hostname: this.hostname, port: this.port });
+    } catch (e) {
+      throw new PCSCException(SCARD_E_NO_SERVICE, "vpcd", `Cannot connect to vpcd at ${this.hostname}:${this.port}: ${e}`);
+    }
+
+    const socket = new VpcdSocket(conn);
+
+    this.#socket = socket;
+    this.#isPowered = false;
+
+    this.#serve(socket);
+  }
+
+  /**
+   * Disconnect, removing card from the vpcd reader
+   */
+  async close(): Promise<void> {
+    await this.#socket?.close();
+  }
+
+  async #serve(socket: VpcdSocket) {
+    try {
+      while (true) {
+        const response = await this.#process(await socket.receive());
+
+        if (response !== undefined) {
+          await socket.send(response);
+        }
+      }
+    } catch (_) {
+      // connection closed
+    }
+
+    this.#isPowered = false;
+  }
+
+  /**
+   * Response to a message from vpcd, `undefined` for control messages without response
+   */
+  async #process(message: Uint8Array): Promise<Uint8Array | undefined> {
+    if (isControlMessage(message)) {
+      switch (message[0]) {
+        case VpcdControl.PowerOff:
+          this.#isPowered = false;
+          this.onPowerOff?.();
+          break;
+
+        case VpcdControl.PowerOn:
+        case VpcdControl.Reset:
+          this.#isPowered = true;
+          this.onReset?.();
+          break;
+
+        case VpcdControl.GetATR:
+          return this.atr;
+      }
+
+      return undefined;
+    }
+
+    let command: CommandAPDU;
+
+    try {
+      command = CommandAPDU.from(message);
+    } catch (_) {
+      return new ResponseAPDU(SW.WRONG_LENGTH).toBytes();
+    }
+
+    try {
+      return (await this.handler(command, this)).toBytes();
+    } catch (_) {
+      return new ResponseAPDU(SW.UNKNOWN).toBytes();
+    }
+  }
+}
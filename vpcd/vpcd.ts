@@ -0,0 +1,10 @@
+// Protocol
+export { isControlMessage, VPCD_MAX_MESSAGE, VPCD_PORT, VpcdControl, VpcdSocket } from './protocol.ts';
+
+// Provider
+export { VpcdContextProvider, ViccCard } from './provider.ts';
+export type { VpcdOptions } from './provider.ts';
+
+// Card server
+export { VirtualCardServer } from './server.ts';
+export type { VirtualCardHandler, VirtualCardServerOptions } from './server.ts';